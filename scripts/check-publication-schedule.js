@@ -0,0 +1,49 @@
+const fs = require('fs');
+const path = require('path');
+const { readJson } = require('./utils/site-routes');
+const { requireTs } = require('./utils/ts-require');
+
+// Tell the scheduled deploy whether a recipe's publishAt or unpublishAt passed
+// recently. Prerendered pages and the sitemap only list recipes live at build
+// time, so the site is rebuilt when a recipe goes live or expires.
+//
+// Usage: node scripts/check-publication-schedule.js [--window-minutes <n>]
+//   --window-minutes   how far back to look, default 60 to match the hourly
+//                      schedule, so each date triggers exactly one rebuild
+// Writes due=true|false to $GITHUB_OUTPUT when set.
+const { getIndexPublication } = requireTs('src/app/recipe/core/publication');
+
+const indexPath = path.join(__dirname, '..', 'src', 'assets', 'recipes', 'index.json');
+const args = process.argv.slice(2);
+const windowArg = args.indexOf('--window-minutes');
+const windowMinutes = windowArg >= 0 ? Number(args[windowArg + 1]) : 60;
+
+if (!Number.isFinite(windowMinutes) || windowMinutes <= 0) {
+  console.error('❌ --window-minutes must be a positive number');
+  process.exit(1);
+}
+
+const now = new Date();
+const since = new Date(now.getTime() - windowMinutes * 60 * 1000);
+
+const dueChanges = [];
+(readJson(indexPath).recipes || []).forEach(entry => {
+  const publication = getIndexPublication(entry);
+  if (publication.state !== 'published') return;
+
+  [['publishAt', 'goes live'], ['unpublishAt', 'expires']].forEach(([field, change]) => {
+    const date = publication[field] ? new Date(publication[field]) : null;
+    if (date && date > since && date <= now) {
+      dueChanges.push(`${entry.folderId} ${change} at ${publication[field]}`);
+    }
+  });
+});
+
+dueChanges.forEach(change => console.log('📅', change));
+console.log(dueChanges.length > 0
+  ? `🚀 ${dueChanges.length} scheduled change(s) since ${since.toISOString()}, rebuild needed`
+  : `✅ No scheduled changes since ${since.toISOString()}`);
+
+if (process.env.GITHUB_OUTPUT) {
+  fs.appendFileSync(process.env.GITHUB_OUTPUT, `due=${dueChanges.length > 0}\n`);
+}
@@ -0,0 +1,38 @@
+const fs = require('fs');
+const path = require('path');
+const { extractText } = require('./utils/html-text');
+
+// Extract plain text from every FAQ answer so searches can match answer bodies
+// without fetching each HTML file at runtime
+const assetsDir = path.join(__dirname, '..', 'src', 'assets');
+const faqsPath = path.join(assetsDir, 'data', 'faqs.json');
+const answersDir = path.join(assetsDir, 'faq-item');
+const indexPath = path.join(assetsDir, 'data', 'faq-search-index.json');
+
+const records = JSON.parse(fs.readFileSync(faqsPath, 'utf8'));
+const answers = {};
+const missing = [];
+
+records
+  .filter(record => record.isActive !== false && record.Answer__c)
+  .forEach(record => {
+    const answerPath = path.join(answersDir, record.Answer__c);
+    if (!fs.existsSync(answerPath)) {
+      missing.push(record.Answer__c);
+      return;
+    }
+    answers[record.Id] = extractText(fs.readFileSync(answerPath, 'utf8'));
+  });
+
+const searchIndex = {
+  version: 1,
+  answers: answers
+};
+
+fs.writeFileSync(indexPath, JSON.stringify(searchIndex, null, 2));
+
+console.log('✅ FAQ search index generated:', Object.keys(answers).length, 'answers');
+if (missing.length > 0) {
+  console.warn('⚠️ Missing answer files:', missing.join(', '));
+}
+console.log('📁 Written to:', indexPath);
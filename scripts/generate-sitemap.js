@@ -0,0 +1,53 @@
+const fs = require('fs');
+const path = require('path');
+const { escapeHtml } = require('./utils/html-text');
+const { readJson, getSiteUrl, getFAQRoutes, getFAQCategoryRoutes, getRecipeRoutes } = require('./utils/site-routes');
+
+// Write sitemap.xml covering the FAQ answer, FAQ category/subcategory and recipe
+// detail routes. Every entry uses the deploy time from version.json as lastmod,
+// so run generate-version.js first.
+//
+// Usage: node scripts/generate-sitemap.js [outputDir]   (default: dist/website)
+const rootDir = path.join(__dirname, '..');
+const outputDir = path.resolve(rootDir, process.argv[2] || path.join('dist', 'website'));
+const versionPath = path.join(rootDir, 'src', 'assets', 'data', 'version.json');
+
+if (!fs.existsSync(outputDir)) {
+  console.error('❌ Build output not found:', outputDir);
+  console.error('   Run the Angular build before generating the sitemap.');
+  process.exit(1);
+}
+
+const siteUrl = getSiteUrl();
+const { deployTime } = readJson(versionPath);
+const lastmod = new Date(deployTime).toISOString();
+
+const faqRoutes = getFAQRoutes();
+const urlPaths = [
+  '',
+  ...getFAQCategoryRoutes(faqRoutes),
+  ...faqRoutes.map(route => route.routePath),
+  'recipes',
+  ...getRecipeRoutes().map(route => route.urlPath)
+];
+
+const entries = [...new Set(urlPaths)].map(urlPath => [
+  '  <url>',
+  `    <loc>${escapeHtml(`${siteUrl}/${urlPath}`)}</loc>`,
+  `    <lastmod>${lastmod}</lastmod>`,
+  '  </url>'
+].join('\n'));
+
+const sitemap = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...entries,
+  '</urlset>',
+  ''
+].join('\n');
+
+const sitemapPath = path.join(outputDir, 'sitemap.xml');
+fs.writeFileSync(sitemapPath, sitemap);
+
+console.log(`✅ Sitemap generated: ${entries.length} URLs, lastmod ${lastmod}`);
+console.log('📁 Written to:', sitemapPath);
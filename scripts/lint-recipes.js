@@ -0,0 +1,71 @@
+const fs = require('fs');
+const path = require('path');
+const { readJson } = require('./utils/site-routes');
+const { requireTs } = require('./utils/ts-require');
+
+// Run the editor's lint rules (src/app/recipe/core/lint) over every published
+// recipe. Exits with 1 when any recipe has an error-level issue.
+//
+// Usage: node scripts/lint-recipes.js [--fix] [--quiet] [folderId...]
+//   --fix     apply one-click fixes and write the recipe.json back
+//   --quiet   report errors only
+const { lintRecipe, applyLintFixes, countLintIssues } = requireTs('src/app/recipe/core/lint');
+
+const recipesDir = path.join(__dirname, '..', 'src', 'assets', 'recipes');
+const args = process.argv.slice(2);
+const fix = args.includes('--fix');
+const quiet = args.includes('--quiet');
+const folderIds = args.filter(arg => !arg.startsWith('--'));
+
+const icons = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+
+const folders = folderIds.length > 0
+  ? folderIds
+  : fs.readdirSync(recipesDir).filter(name => fs.existsSync(path.join(recipesDir, name, 'recipe.json')));
+
+const totals = { error: 0, warning: 0, info: 0 };
+let fixedCount = 0;
+
+folders.forEach(folderId => {
+  const recipePath = path.join(recipesDir, folderId, 'recipe.json');
+  if (!fs.existsSync(recipePath)) {
+    console.error('❌ Missing recipe.json:', folderId);
+    totals.error++;
+    return;
+  }
+
+  const recipe = readJson(recipePath);
+  let issues = lintRecipe(recipe);
+
+  if (fix) {
+    const applied = applyLintFixes(recipe, issues);
+    if (applied > 0) {
+      fs.writeFileSync(recipePath, JSON.stringify(recipe, null, 2));
+      fixedCount += applied;
+      issues = lintRecipe(recipe);
+    }
+  }
+
+  const counts = countLintIssues(issues);
+  Object.keys(totals).forEach(severity => totals[severity] += counts[severity]);
+
+  const shown = quiet ? issues.filter(issue => issue.severity === 'error') : issues;
+  if (shown.length === 0) return;
+
+  console.log(`\n${folderId}`);
+  shown.forEach(issue => {
+    const fixHint = issue.fix ? ` (fixable: ${issue.fix.label})` : '';
+    console.log(`  ${icons[issue.severity]} ${issue.message} [${issue.ruleId}]${fixHint}`);
+  });
+});
+
+console.log(
+  `\n${folders.length} recipes linted: ${totals.error} errors, ${totals.warning} warnings, ${totals.info} info`
+);
+if (fix) {
+  console.log(`🔧 Applied ${fixedCount} fixes`);
+}
+
+if (totals.error > 0) {
+  process.exit(1);
+}
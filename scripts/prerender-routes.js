@@ -0,0 +1,142 @@
+const fs = require('fs');
+const path = require('path');
+const { extractText, escapeHtml } = require('./utils/html-text');
+const { getSiteUrl, getFAQRoutes, getRecipeRoutes } = require('./utils/site-routes');
+
+// Write a static HTML page for every FAQ answer and recipe detail route into the build
+// output, so crawlers and link unfurlers get real titles, meta tags and content.
+// Each page is the built index.html, so Angular still boots and takes over.
+//
+// Usage: node scripts/prerender-routes.js [outputDir]   (default: dist/website)
+const rootDir = path.join(__dirname, '..');
+const outputDir = path.resolve(rootDir, process.argv[2] || path.join('dist', 'website'));
+
+const SITE_NAME = 'Data Sync Pro';
+const DESCRIPTION_LENGTH = 160;
+// Build files a route must never overwrite
+const RESERVED_ROUTES = new Set(['index', '404']);
+
+const templatePath = path.join(outputDir, 'index.html');
+if (!fs.existsSync(templatePath)) {
+  console.error('❌ Build output not found:', templatePath);
+  console.error('   Run the Angular build before prerendering.');
+  process.exit(1);
+}
+
+const template = fs.readFileSync(templatePath, 'utf8');
+const siteUrl = getSiteUrl();
+
+function summarize(text) {
+  if (text.length <= DESCRIPTION_LENGTH) {
+    return text;
+  }
+  const cut = text.slice(0, DESCRIPTION_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:]+$/, '')}…`;
+}
+
+function renderHead({ title, description, url, type }) {
+  const image = `${siteUrl}/pushtopic-logo.png`;
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}">`,
+    `<link rel="canonical" href="${escapeHtml(url)}">`,
+    `<meta property="og:site_name" content="${SITE_NAME}">`,
+    `<meta property="og:type" content="${type}">`,
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta property="og:description" content="${escapeHtml(description)}">`,
+    `<meta property="og:url" content="${escapeHtml(url)}">`,
+    `<meta property="og:image" content="${image}">`,
+    '<meta name="twitter:card" content="summary">',
+    `<meta name="twitter:title" content="${escapeHtml(title)}">`,
+    `<meta name="twitter:description" content="${escapeHtml(description)}">`
+  ].join('\n  ');
+}
+
+function renderPage(page) {
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, renderHead(page))
+    .replace(
+      /<app-root>\s*<\/app-root>/,
+      `<app-root><main class="prerendered-content">\n${page.body}\n</main></app-root>`
+    );
+}
+
+function writePage(routePath, page) {
+  if (RESERVED_ROUTES.has(routePath)) {
+    console.warn('⚠️ Skipping route that would overwrite a build file:', routePath);
+    return false;
+  }
+
+  // GitHub Pages serves /some/route from some/route.html without a redirect
+  const filePath = path.join(outputDir, `${routePath}.html`);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, renderPage(page));
+  return true;
+}
+
+function prerenderFAQs() {
+  let count = 0;
+
+  getFAQRoutes().forEach(({ record, answerPath, routePath }) => {
+    const answerHtml = fs.readFileSync(answerPath, 'utf8');
+    const breadcrumb = [record.Category__c, record.SubCategory__c].filter(Boolean).map(escapeHtml).join(' › ');
+
+    const written = writePage(routePath, {
+      title: `${record.Question__c} - FAQ - ${SITE_NAME}`,
+      description: summarize(extractText(answerHtml)),
+      url: `${siteUrl}/${routePath}`,
+      type: 'article',
+      body: [
+        `<p class="breadcrumb">${breadcrumb}</p>`,
+        `<h1>${escapeHtml(record.Question__c)}</h1>`,
+        `<article>${answerHtml}</article>`
+      ].join('\n')
+    });
+    if (written) count++;
+  });
+
+  return count;
+}
+
+function renderList(items) {
+  return items.length > 0
+    ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '';
+}
+
+function prerenderRecipes() {
+  let count = 0;
+
+  getRecipeRoutes().forEach(({ recipe, category, routePath, urlPath }) => {
+    const description = summarize(recipe.overview || recipe.generalUseCase || recipe.title);
+
+    const written = writePage(routePath, {
+      title: `${recipe.title} - Recipes - ${SITE_NAME}`,
+      description,
+      url: `${siteUrl}/${urlPath}`,
+      type: 'article',
+      body: [
+        `<p class="breadcrumb">Recipes › ${escapeHtml(category)}</p>`,
+        `<h1>${escapeHtml(recipe.title)}</h1>`,
+        recipe.overview ? `<h2>Overview</h2>\n<p>${escapeHtml(recipe.overview)}</p>` : '',
+        recipe.generalUseCase ? `<h2>General Use Case</h2>\n<p>${escapeHtml(recipe.generalUseCase)}</p>` : '',
+        (recipe.prerequisites || []).length > 0
+          ? `<h2>Prerequisites</h2>\n${renderList(recipe.prerequisites.map(prereq => prereq.description))}`
+          : '',
+        (recipe.walkthrough || []).length > 0
+          ? `<h2>Walkthrough</h2>\n<ol>${recipe.walkthrough.map(step => `<li>${escapeHtml(step.step)}</li>`).join('')}</ol>`
+          : ''
+      ].filter(Boolean).join('\n')
+    });
+    if (written) count++;
+  });
+
+  return count;
+}
+
+const faqCount = prerenderFAQs();
+const recipeCount = prerenderRecipes();
+
+console.log(`✅ Prerendered ${faqCount} FAQ pages and ${recipeCount} recipe pages`);
+console.log('📁 Written to:', outputDir);
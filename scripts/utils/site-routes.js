@@ -0,0 +1,102 @@
+const fs = require('fs');
+const path = require('path');
+const { requireTs } = require('./ts-require');
+const { getIndexPublication, isPublicationLive } = requireTs('src/app/recipe/core/publication');
+
+// Route discovery shared by the build scripts, mirroring how the app builds its URLs
+const srcDir = path.join(__dirname, '..', '..', 'src');
+const assetsDir = path.join(srcDir, 'assets');
+
+function readJson(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+// Same rules as generateSlug in src/app/shared/utils/slug.utils.ts
+function generateSlug(title) {
+  return (title || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function getSiteUrl() {
+  const cname = fs.readFileSync(path.join(srcDir, 'CNAME'), 'utf8').trim();
+  return `https://${cname}`;
+}
+
+// Active FAQ records with an answer file, each with its answer route ("/<Answer__c without .html>")
+function getFAQRoutes() {
+  const records = readJson(path.join(assetsDir, 'data', 'faqs.json'));
+
+  return records
+    .filter(record => record.isActive !== false && record.Answer__c)
+    .filter(record => {
+      const exists = fs.existsSync(path.join(assetsDir, 'faq-item', record.Answer__c));
+      if (!exists) {
+        console.warn('⚠️ Missing answer file:', record.Answer__c);
+      }
+      return exists;
+    })
+    .map(record => ({
+      record,
+      answerPath: path.join(assetsDir, 'faq-item', record.Answer__c),
+      routePath: record.Answer__c.replace(/\.html$/, '')
+    }));
+}
+
+// Category and category/subcategory routes that have at least one active FAQ,
+// encoded like FaqComponent does (lowercase, spaces to hyphens)
+function getFAQCategoryRoutes(faqRoutes) {
+  const toSegment = name => name.trim().toLowerCase().replace(/\s+/g, '-');
+  const routes = new Set();
+
+  faqRoutes.forEach(({ record }) => {
+    if (!record.Category__c) return;
+    const category = toSegment(record.Category__c);
+    routes.add(category);
+    if (record.SubCategory__c) {
+      routes.add(`${category}/${toSegment(record.SubCategory__c)}`);
+    }
+  });
+
+  return [...routes];
+}
+
+// Recipes live at build time with their detail route ("/recipes/<first category>/<slug>")
+function getRecipeRoutes() {
+  const recipesDir = path.join(assetsDir, 'recipes');
+  const index = readJson(path.join(recipesDir, 'index.json'));
+
+  return (index.recipes || [])
+    .filter(entry => isPublicationLive(getIndexPublication(entry)))
+    .map(entry => {
+      const recipePath = path.join(recipesDir, entry.folderId, 'recipe.json');
+      if (!fs.existsSync(recipePath)) {
+        console.warn('⚠️ Missing recipe.json:', entry.folderId);
+        return null;
+      }
+
+      const recipe = readJson(recipePath);
+      const categories = (Array.isArray(recipe.category) ? recipe.category : [recipe.category]).filter(Boolean);
+      const category = categories[0] || 'General';
+      const slug = generateSlug(recipe.title);
+
+      return {
+        recipe,
+        category,
+        routePath: `recipes/${category}/${slug}`,
+        urlPath: `recipes/${encodeURIComponent(category)}/${slug}`
+      };
+    })
+    .filter(Boolean);
+}
+
+module.exports = {
+  readJson,
+  generateSlug,
+  getSiteUrl,
+  getFAQRoutes,
+  getFAQCategoryRoutes,
+  getRecipeRoutes
+};
@@ -0,0 +1,30 @@
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Lets build scripts require the app's framework-free TypeScript modules
+// (src/app/recipe/core/schema, lint, ...) by transpiling them on load.
+// Type-only imports are dropped, so a module must not import Angular at runtime.
+const compilerOptions = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2020,
+  esModuleInterop: true,
+  resolveJsonModule: true
+};
+
+if (!require.extensions['.ts']) {
+  require.extensions['.ts'] = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { outputText } = ts.transpileModule(source, { compilerOptions, fileName: filename });
+    module._compile(outputText, filename);
+  };
+}
+
+const rootDir = path.join(__dirname, '..', '..');
+
+// modulePath is relative to the repository root, e.g. 'src/app/recipe/core/lint'
+function requireTs(modulePath) {
+  return require(path.join(rootDir, modulePath));
+}
+
+module.exports = { requireTs };
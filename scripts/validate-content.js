@@ -0,0 +1,223 @@
+const fs = require('fs');
+const path = require('path');
+const { readJson } = require('./utils/site-routes');
+const { requireTs } = require('./utils/ts-require');
+
+// Validate the recipe and FAQ content tree with the editor's own checks and
+// regenerate src/assets/recipes/index.json. The index is only written when the
+// content has no errors, and never with --check-index, which the build scripts
+// use so a build does not modify tracked files. Exits with 1 on broken content, so
+// a recipe with a missing image or an FAQ pointing at a missing answer fails
+// the build instead of turning into a 404 in production.
+//
+//   - every recipes/*/recipe.json parses and passes validateRecipe
+//   - every referenced image and downloadExecutables file exists
+//   - files in a recipe's images/ or downloadExecutables/ folder that nothing references
+//   - faqs.json records against the faq-item/*.html answer files
+//
+// Usage: node scripts/validate-content.js [--verbose] [--check-index]
+//   --verbose       list warnings, not just their count
+//   --check-index   fail when index.json is out of date instead of rewriting it
+const { validateRecipe, getRecipeAssetReferences, RECIPE_ASSET_FOLDERS } = requireTs('src/app/recipe/core/validation');
+const { RecipeReferenceResolver } = requireTs('src/app/recipe/core/graph');
+const { getIndexPublication, toIndexPublicationFields, getScheduleError } = requireTs('src/app/recipe/core/publication');
+
+const assetsDir = path.join(__dirname, '..', 'src', 'assets');
+const recipesDir = path.join(assetsDir, 'recipes');
+const indexPath = path.join(recipesDir, 'index.json');
+const faqsPath = path.join(assetsDir, 'data', 'faqs.json');
+const answersDir = path.join(assetsDir, 'faq-item');
+
+const args = process.argv.slice(2);
+const verbose = args.includes('--verbose');
+const checkIndex = args.includes('--check-index');
+
+const problems = [];
+const report = (severity, source, message) => problems.push({ severity, source, message });
+
+function listFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+    .map(entry => entry.name);
+}
+
+function parseJsonFile(filePath, source) {
+  try {
+    return readJson(filePath);
+  } catch (error) {
+    report('error', source, `${path.basename(filePath)} is not valid JSON: ${error.message}`);
+    return null;
+  }
+}
+
+// ---- Recipes ----
+
+const folderIds = fs.readdirSync(recipesDir, { withFileTypes: true })
+  .filter(entry => entry.isDirectory())
+  .map(entry => entry.name)
+  .sort((a, b) => a.localeCompare(b));
+
+const existingIndex = fs.existsSync(indexPath) ? parseJsonFile(indexPath, 'recipes/index.json') : null;
+const existingEntries = new Map(((existingIndex && existingIndex.recipes) || []).map(entry => [entry.folderId, entry]));
+
+// Entries written before publication states keep their plain `active` flag
+function toIndexEntry(folderId) {
+  const existing = existingEntries.get(folderId);
+  if (!existing) return { folderId, active: false };
+  if (existing.state === undefined) return { folderId, active: existing.active !== false };
+  return { folderId, ...toIndexPublicationFields(getIndexPublication(existing)) };
+}
+
+const recipes = [];
+folderIds.forEach(folderId => {
+  const recipePath = path.join(recipesDir, folderId, 'recipe.json');
+  if (!fs.existsSync(recipePath)) {
+    report('error', folderId, 'Folder has no recipe.json');
+    return;
+  }
+
+  const recipe = parseJsonFile(recipePath, folderId);
+  if (recipe) {
+    const entry = toIndexEntry(folderId);
+    // Scheduled recipes count as published: they go live without another content change
+    recipes.push({ folderId, recipe, entry, active: getIndexPublication(entry).state === 'published' });
+  }
+});
+
+// Links are checked against the recipes the site will actually publish
+const resolver = new RecipeReferenceResolver(
+  recipes.filter(entry => entry.active && entry.recipe.id).map(entry => ({ id: entry.recipe.id, title: entry.recipe.title || '' }))
+);
+const findBrokenReferences = recipe => resolver.resolveAll(recipe).filter(reference => !reference.recipeId);
+
+const entriesById = new Map();
+recipes.forEach(({ folderId, recipe, active }) => {
+  const result = validateRecipe(recipe, { findBrokenReferences });
+  result.errors.forEach(error => report('error', folderId, error.message));
+  result.warnings.forEach(warning => report('warning', folderId, warning.message));
+
+  // Only published recipes can collide on the site; an unpublished copy is just a leftover
+  if (recipe.id) {
+    const other = entriesById.get(recipe.id);
+    if (other) {
+      report(active && other.active ? 'error' : 'warning', folderId, `Recipe ID "${recipe.id}" is also used by ${other.folderId}`);
+    } else {
+      entriesById.set(recipe.id, { folderId, active });
+    }
+  }
+
+  const referenced = new Set();
+  getRecipeAssetReferences(recipe).forEach(reference => {
+    referenced.add(reference.path);
+    if (!fs.existsSync(path.join(recipesDir, folderId, reference.path))) {
+      report('error', folderId, `${reference.field}: ${reference.path} does not exist`);
+    }
+  });
+
+  Object.values(RECIPE_ASSET_FOLDERS).forEach(assetFolder => {
+    listFiles(path.join(recipesDir, folderId, assetFolder))
+      .map(fileName => `${assetFolder}/${fileName}`)
+      .filter(filePath => !referenced.has(filePath))
+      .forEach(filePath => report('warning', folderId, `Orphaned file ${filePath} is not referenced by the recipe`));
+  });
+});
+
+// ---- FAQs ----
+
+const faqs = parseJsonFile(faqsPath, 'data/faqs.json') || [];
+const answerFiles = new Set(listFiles(answersDir).filter(fileName => fileName.endsWith('.html')));
+const referencedAnswers = new Set();
+const faqIds = new Set();
+
+faqs.forEach((record, index) => {
+  const source = `faqs.json ${record.Id || `#${index + 1}`}`;
+  const active = record.isActive !== false;
+
+  if (!record.Id) {
+    report('error', source, 'FAQ record has no Id');
+  } else if (faqIds.has(record.Id)) {
+    report('error', source, 'Duplicate FAQ Id');
+  } else {
+    faqIds.add(record.Id);
+  }
+
+  if (!record.Answer__c) {
+    if (active) report('error', source, 'Active FAQ has no Answer__c file');
+    return;
+  }
+
+  referencedAnswers.add(record.Answer__c);
+  if (!answerFiles.has(record.Answer__c)) {
+    report(active ? 'error' : 'warning', source, `Answer file faq-item/${record.Answer__c} does not exist`);
+  }
+
+  if (active && !(record.Question__c || '').trim()) {
+    report('error', source, 'Active FAQ has no question');
+  }
+});
+
+[...answerFiles]
+  .filter(fileName => !referencedAnswers.has(fileName))
+  .forEach(fileName => report('warning', 'faq-item', `Orphaned answer ${fileName} is not referenced by faqs.json`));
+
+// ---- Recipe index ----
+
+const index = {
+  recipes: recipes.map(({ entry }) => entry)
+};
+const indexJson = JSON.stringify(index, null, 2);
+
+recipes.forEach(({ folderId, entry }) => {
+  const scheduleError = getScheduleError(getIndexPublication(entry));
+  if (scheduleError) report('warning', 'recipes/index.json', `${folderId}: ${scheduleError}`);
+});
+recipes
+  .filter(({ folderId }) => !existingEntries.has(folderId))
+  .forEach(({ folderId }) => report('warning', 'recipes/index.json', `${folderId} added as inactive; set "active": true to publish it`));
+[...existingEntries.keys()]
+  .filter(folderId => !recipes.some(entry => entry.folderId === folderId))
+  .forEach(folderId => report('warning', 'recipes/index.json', `${folderId} removed: folder has no valid recipe.json`));
+
+const indexChanged = !fs.existsSync(indexPath) || fs.readFileSync(indexPath, 'utf8') !== indexJson;
+if (indexChanged && checkIndex) {
+  report('error', 'recipes/index.json', 'index.json is out of date; run npm run validate-content to regenerate it');
+}
+
+// ---- Report ----
+
+const errors = problems.filter(problem => problem.severity === 'error');
+const writeIndex = indexChanged && !checkIndex && errors.length === 0;
+if (writeIndex) {
+  fs.writeFileSync(indexPath, indexJson);
+}
+const warnings = problems.filter(problem => problem.severity === 'warning');
+const shown = verbose ? problems : errors;
+
+let lastSource = '';
+shown.forEach(problem => {
+  if (problem.source !== lastSource) {
+    console.log(`\n${problem.source}`);
+    lastSource = problem.source;
+  }
+  console.log(`  ${problem.severity === 'error' ? '❌' : '⚠️'} ${problem.message}`);
+});
+
+const activeCount = recipes.filter(entry => entry.active).length;
+console.log(`\n📋 ${recipes.length} recipes (${activeCount} active), ${faqs.length} FAQs checked`);
+if (writeIndex) {
+  console.log('📝 Regenerated:', indexPath);
+} else if (indexChanged && !checkIndex) {
+  console.log('📝 index.json is out of date but was not rewritten; fix the errors first');
+}
+
+if (warnings.length > 0) {
+  console.warn(`⚠️ ${warnings.length} warnings${verbose ? '' : ' (run with --verbose to list them)'}`);
+}
+
+if (errors.length > 0) {
+  console.error(`❌ ${errors.length} errors in content`);
+  process.exit(1);
+}
+
+console.log('✅ Content is valid');
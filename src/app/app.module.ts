@@ -24,6 +24,7 @@ import { ScrollToTopComponent } from './scroll-to-top/scroll-to-top.component';
 import { SharedModule } from './shared/shared.module';
 import { ServiceWorkerModule } from '@angular/service-worker';
 import { FaqEditorComponent } from './faq-editor/faq-editor.component';
+import { SearchOverlayComponent } from './search-overlay/search-overlay.component';
 
 /**
  * Recipe initialization factory function
@@ -47,7 +48,8 @@ export function initializeRecipes(recipeOrchestration: OrchestrationService) {
     RulesEnginesComponent,
     CookieConsentComponent,
     ScrollToTopComponent,
-    FaqEditorComponent
+    FaqEditorComponent,
+    SearchOverlayComponent
   ],
   imports: [
     BrowserModule,
@@ -10,6 +10,8 @@ import { FAQExportService, ExportData, ExportProgress } from '../shared/services
 import { FAQItem, FAQCategory } from '../shared/models/faq.model';
 import { NotificationService } from '../shared/services/notification.service';
 import { FAQPreviewService, PreviewData } from '../shared/services/faq-preview.service';
+import { ImageOptimizationService } from '../shared/services/image-optimization.service';
+import { ResponsiveImageSet, ResponsiveImageUtil } from '../shared/utils/responsive-image.util';
 import { html_beautify } from 'js-beautify';
 
 interface DOMSelection {
@@ -473,6 +475,8 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
   // Temporary image storage for uploaded images
   private tempImageMap = new Map<string, File>();
   private tempImageUrls = new Map<string, string>();
+  // srcset variants by image path, for uploads and for images in loaded answers
+  private responsiveImageSets = new Map<string, ResponsiveImageSet>();
 
   constructor(
     private http: HttpClient,
@@ -481,7 +485,8 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
     private exportService: FAQExportService,
     private sanitizer: DomSanitizer,
     private notificationService: NotificationService,
-    private previewService: FAQPreviewService
+    private previewService: FAQPreviewService,
+    private imageOptimizationService: ImageOptimizationService
   ) {}
 
   ngOnInit(): void {
@@ -1312,6 +1317,7 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
     // Clear temporary images
     this.cleanupTempImageUrls();
     this.tempImageMap.clear();
+    this.responsiveImageSets.clear();
     
     // Create a default new FAQ tab to maintain user workflow
     this.createDefaultTab();
@@ -1678,6 +1684,11 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
   private convertImgsToUrls(content: string): string {
     // Replace <img> tags with [IMG: url] format for easier editing
     return content.replace(/<img[^>]*\ssrc=["']([^"']+)["'][^>]*>/gi, (match, src) => {
+      // Keep the srcset variants so they survive the round trip through the placeholder
+      const responsiveSet = ResponsiveImageUtil.fromAttributes(match.slice(4, -1));
+      if (responsiveSet) {
+        this.responsiveImageSets.set(src, responsiveSet);
+      }
       return `<span class="image-url-placeholder" contenteditable="false">[IMG: ${src}]</span>`;
     });
   }
@@ -1689,41 +1700,36 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
   private convertUrlsToImgs(content: string, forExport: boolean = false): string {
     // First, replace [IMG: url] format with span tags back to <img> tags
     let result = content.replace(/<span[^>]*class=["']image-url-placeholder["'][^>]*>\[IMG:\s*([^\]]+)\]<\/span>/gi, (match, src) => {
-      const imagePath = src.trim();
-      
-      if (forExport) {
-        // For export, use the actual image path
-        return `<img src="${imagePath}" >`;
-      } else {
-        // For preview, check if this is a temporary uploaded image
-        const tempUrl = this.tempImageUrls.get(imagePath);
-        if (tempUrl) {
-          return `<img src="${tempUrl}" data-temp-path="${imagePath}" >`;
-        }
-        return `<img src="${imagePath}" >`;
-      }
+      return this.createImgTag(src.trim(), forExport);
     });
     
     // Then, handle plain text [IMG: url] format (after span tags are removed by cleaning)
     result = result.replace(/\[IMG:\s*([^\]]+)\]/gi, (match, src) => {
-      const imagePath = src.trim();
-      
-      if (forExport) {
-        // For export, use the actual image path
-        return `<img src="${imagePath}" >`;
-      } else {
-        // For preview, check if this is a temporary uploaded image
-        const tempUrl = this.tempImageUrls.get(imagePath);
-        if (tempUrl) {
-          return `<img src="${tempUrl}" data-temp-path="${imagePath}" >`;
-        }
-        return `<img src="${imagePath}" >`;
-      }
+      return this.createImgTag(src.trim(), forExport);
     });
     
     return result;
   }
   
+  /**
+   * <img> tag for an image path. Export uses the actual path with its srcset variants;
+   * preview shows temporary uploads from their blob URL.
+   */
+  private createImgTag(imagePath: string, forExport: boolean): string {
+    if (!forExport) {
+      const tempUrl = this.tempImageUrls.get(imagePath);
+      if (tempUrl) {
+        return `<img src="${tempUrl}" data-temp-path="${imagePath}" >`;
+      }
+    }
+
+    const responsiveSet = this.responsiveImageSets.get(imagePath);
+    if (responsiveSet) {
+      return `<img ${ResponsiveImageUtil.toAttributes(responsiveSet)} >`;
+    }
+    return `<img src="${imagePath}" >`;
+  }
+  
   /**
    * Extract image URLs from content for validation
    */
@@ -2813,9 +2819,10 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
   }
 
   /**
-   * Handle image file selection
+   * Handle image file selection. JPG, PNG and WEBP uploads are resized and stored as a
+   * responsive set (PNG fallback plus WebP, each in several widths); GIFs are kept as-is.
    */
-  handleImageSelection(event: Event): void {
+  async handleImageSelection(event: Event): Promise<void> {
     const input = event.target as HTMLInputElement;
     if (!input.files || input.files.length === 0) return;
 
@@ -2828,11 +2835,27 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
     }
 
     try {
-      // Generate image reference path
-      const imagePath = this.generateImageReference(file);
-      
-      // Store the file temporarily
-      this.storeTemporaryImage(imagePath, file);
+      const canOptimize = this.imageOptimizationService.canOptimize(file);
+
+      // Generate image reference path; optimized images are always published with a PNG fallback
+      const imagePath = this.generateImageReference(file, canOptimize ? 'png' : undefined);
+
+      const responsive = canOptimize
+        ? await this.imageOptimizationService.createResponsiveSet(file, imagePath)
+        : null;
+
+      if (responsive) {
+        responsive.files.forEach((variantFile, variantPath) => {
+          if (variantPath !== imagePath) {
+            this.tempImageMap.set(variantPath, variantFile);
+          }
+        });
+        this.responsiveImageSets.set(imagePath, responsive.set);
+        this.storeTemporaryImage(imagePath, responsive.files.get(imagePath)!);
+      } else {
+        // Store the file temporarily
+        this.storeTemporaryImage(imagePath, file);
+      }
       
       // Insert image placeholder in editor
       this.insertImagePlaceholder(imagePath);
@@ -2871,7 +2894,7 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
   /**
    * Generate image reference path using answerPath prefix for consistent naming
    */
-  private generateImageReference(file: File): string {
+  private generateImageReference(file: File, extension?: string): string {
     if (!this.state.selectedFAQ) {
       throw new Error('No FAQ selected');
     }
@@ -2890,7 +2913,7 @@ export class FaqEditorComponent implements OnInit, OnDestroy, AfterViewInit {
       filePrefix = this.generateSlugFromTitle(questionTitle);
     }
 
-    const fileExtension = this.getFileExtension(file.name);
+    const fileExtension = extension || this.getFileExtension(file.name);
     const sequence = this.getNextImageSequence(filePrefix);
     
     return `assets/image/${filePrefix}/${filePrefix}-${sequence}.${fileExtension}`;
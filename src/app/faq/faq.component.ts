@@ -24,6 +24,10 @@ import { FAQItem, FAQCategory, FAQSubCategory } from '../shared/models/faq.model
 import { FAQService } from '../shared/services/faq.service';
 import { PerformanceService } from '../shared/services/performance.service';
 import { FAQPreviewService, PreviewData } from '../shared/services/faq-preview.service';
+import { StructuredDataService } from '../shared/services/structured-data.service';
+import { GlobalSearchService } from '../search-overlay/global-search.service';
+
+const FAQ_STRUCTURED_DATA_KEY = 'faq';
 
 interface SearchResult {
   item: FAQItem;
@@ -43,7 +47,6 @@ interface SearchState {
   suggestions: string[];
   showSuggestions: boolean;
   selectedIndex: number;
-  isOpen: boolean;
 }
 
 interface CurrentState {
@@ -98,13 +101,9 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
     hasResults: true,
     suggestions: [],
     showSuggestions: false,
-    selectedIndex: -1,
-    isOpen: false
+    selectedIndex: -1
   };
 
-  // Search overlay initial query
-  searchOverlayInitialQuery = '';
-
 
   current: CurrentState = {
     category: '',
@@ -157,7 +156,9 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
     private title: Title,
     private cdr: ChangeDetectorRef,
     private performanceService: PerformanceService,
-    private previewService: FAQPreviewService
+    private previewService: FAQPreviewService,
+    private globalSearch: GlobalSearchService,
+    private structuredData: StructuredDataService
   ) {}
 
   
@@ -323,6 +324,7 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
+    this.structuredData.remove(FAQ_STRUCTURED_DATA_KEY);
     
     // Clean up timeouts
     if (this.scrollTimeout) {
@@ -661,7 +663,7 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
 
 
   get isSearchOpen(): boolean {
-    return this.search.isOpen;
+    return this.globalSearch.isOpen;
   }
 
   get currentCategory(): string {
@@ -1054,13 +1056,11 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
     return answer.replace(/\.html$/, '').toLowerCase();
   }
   openSearchOverlay(initialQuery?: string): void {
-    this.searchOverlayInitialQuery = initialQuery || '';
-    this.updateSearchState({ isOpen: true });
+    this.globalSearch.open(initialQuery);
   }
 
   closeSearchOverlay(): void {
-    this.searchOverlayInitialQuery = ''; 
-    this.updateSearchState({ isOpen: false });
+    this.globalSearch.close();
   }
   @ViewChild('faqSearchBox') faqSearchBox!: ElementRef<HTMLInputElement>;
 
@@ -1228,66 +1228,6 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
   
   trackBySlug(_: number, item: FAQItem) { return item.id; }
 
-  handleSearchSelect(sel: {
-    id?: string;
-    question: string;
-    category: string;
-    subCategory: string | null;
-    subCatFilterApplied?: boolean;
-  }): void {
-  
-    // Find the full FAQ item using ID for unique identification
-    let faqItem = null;
-    
-    // First try to find by ID if provided (most accurate)
-    if (sel.id) {
-      faqItem = this.faqList.find(item => item.id === sel.id);
-    }
-    
-    // If not found by ID or ID not provided, try by question, category, and subCategory
-    if (!faqItem) {
-      faqItem = this.faqList.find(item => 
-        item.question === sel.question && 
-        item.category === sel.category &&
-        item.subCategory === sel.subCategory
-      );
-    }
-    
-    // Last fallback: just question and category (original logic)
-    if (!faqItem) {
-      faqItem = this.faqList.find(item => 
-        item.question === sel.question && 
-        item.category === sel.category
-      );
-    }
-    
-    if (faqItem) {
-      // Use answer-based URL
-      const answerSlug = this.getAnswerSlug(faqItem.answerPath);
-      this.router.navigate(['/', answerSlug]);
-    } else {
-      // Fallback to old method if FAQ item not found
-      const cat = sel.category;
-      const sub = sel.subCategory ?? '';
-      const frag = this.slugify(sel.question);
-      
-      this.router.navigate(
-        sub ? ['/', cat, sub] : ['/', cat],
-        { fragment: frag }
-      );
-    }
-  
-    this.search.isOpen = false;
-  
-    setTimeout(() => this.openAndScroll(sel.question, sel.id));
-    
-    
-    if (this.ui.isMobile && this.ui.mobileSidebarOpen) {
-      this.closeMobileSidebar();
-    }
-  }
-  
-  
   handleTrendingSelect(sel: {
     question: string;
     category: string;
@@ -1332,6 +1272,44 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
     this.meta.updateTag({ property: 'og:title', content: pageTitle });
     this.meta.updateTag({ property: 'og:description', content: pageDescription });
     this.meta.updateTag({ property: 'og:url', content: window.location.href });
+
+    this.updateStructuredData();
+  }
+
+  /**
+   * Publish FAQPage JSON-LD for the open FAQ item; category and home views carry none
+   */
+  private updateStructuredData(): void {
+    const faqItem = this.current.faqItem;
+    if (!faqItem) {
+      this.structuredData.remove(FAQ_STRUCTURED_DATA_KEY);
+      return;
+    }
+
+    this.faqService.getAnswerIndex().pipe(
+      take(1),
+      takeUntil(this.destroy$)
+    ).subscribe(answers => {
+      // Another FAQ may have opened while the index was loading
+      if (this.current.faqItem !== faqItem) return;
+
+      const answerText = answers.get(faqItem.id) ||
+        faqItem.answer.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+      this.structuredData.set(FAQ_STRUCTURED_DATA_KEY, {
+        '@context': 'https://schema.org',
+        '@type': 'FAQPage',
+        url: this.structuredData.toAbsoluteUrl(this.getAnswerSlug(faqItem.answerPath)),
+        mainEntity: [{
+          '@type': 'Question',
+          name: faqItem.question,
+          acceptedAnswer: {
+            '@type': 'Answer',
+            text: answerText
+          }
+        }]
+      });
+    });
   }
 
   private handlePendingFragment(): void {
@@ -1690,33 +1668,6 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
     }
   }
 
-  // Keyboard shortcut for search overlay
-  @HostListener('document:keydown', ['$event'])
-  onKeydown(event: KeyboardEvent): void {
-    const activeElement = document.activeElement;
-    const isInputActive = activeElement && (
-      activeElement.tagName === 'INPUT' || 
-      activeElement.tagName === 'TEXTAREA' || 
-      activeElement.getAttribute('contenteditable') === 'true'
-    );
-
-    // Ctrl+K or Cmd+K to open search overlay
-    if ((event.ctrlKey || event.metaKey) && event.key === 'k') {
-      event.preventDefault();
-      this.openSearchOverlay();
-    }
-
-    if (event.key === '/' && !isInputActive) {
-      event.preventDefault();
-      this.openSearchOverlay();
-    }
-
-    // Escape to close search overlay
-    if (event.key === 'Escape' && this.search.isOpen) {
-      this.updateSearchState({ isOpen: false });
-    }
-  }
-
   // ==================== TOC Pagination Methods ====================
 
   /**
@@ -2599,7 +2550,6 @@ export class FaqComponent implements OnInit, OnDestroy, AfterViewInit {
       
       // Hide sidebar search results since we're showing preview
       this.search.isActive = false;
-      this.search.isOpen = false;
       
       // Set UI state to show content
       this.ui.isLoading = false;
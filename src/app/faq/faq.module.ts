@@ -9,12 +9,10 @@ import { ScrollingModule } from '@angular/cdk/scrolling';
 
 import { FaqRoutingModule } from './faq-routing.module';
 import { FaqComponent } from './faq.component';
-import { SearchOverlayComponent } from '../search-overlay/search-overlay.component';
 import { SharedModule } from '../shared/shared.module';
 @NgModule({
   declarations: [
-    FaqComponent,
-    SearchOverlayComponent
+    FaqComponent
   ],
   imports: [
     CommonModule,
@@ -0,0 +1,39 @@
+import { MediaAnnotation, RecipeData, StepMedia } from '../models/recipe.model';
+
+/**
+ * Annotations burned into the exported image file: all of them when the media
+ * is flattened, otherwise only blur regions, so redacted pixels never ship.
+ */
+export function getFlattenedAnnotations(media: StepMedia): MediaAnnotation[] {
+  const annotations = media.annotations || [];
+  return media.flattenAnnotations ? annotations : annotations.filter(annotation => annotation.type === 'blur');
+}
+
+/**
+ * Annotations that stay vector data in the exported recipe.json
+ */
+export function getVectorAnnotations(media: StepMedia): MediaAnnotation[] {
+  const flattened = getFlattenedAnnotations(media);
+  return (media.annotations || []).filter(annotation => !flattened.includes(annotation));
+}
+
+/**
+ * Remove the annotations that export burns into image files, so the published
+ * page does not draw them a second time. Mutates and returns the recipe.
+ */
+export function stripFlattenedAnnotations(recipe: RecipeData): RecipeData {
+  recipe.walkthrough?.forEach(step => {
+    step.media?.forEach(media => {
+      if (!media.annotations) return;
+
+      const annotations = getVectorAnnotations(media);
+      if (annotations.length > 0) {
+        media.annotations = annotations;
+      } else {
+        delete media.annotations;
+      }
+      delete media.flattenAnnotations;
+    });
+  });
+  return recipe;
+}
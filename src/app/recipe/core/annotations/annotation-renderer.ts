@@ -0,0 +1,212 @@
+import { MediaAnnotation } from '../models/recipe.model';
+
+export const DEFAULT_ANNOTATION_COLOR = '#e53935';
+
+const FLATTENABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Pixel rectangle of an annotation, normalized so width and height are positive
+ */
+export interface AnnotationBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function getAnnotationBounds(annotation: MediaAnnotation, width: number, height: number): AnnotationBounds {
+  const x1 = annotation.x * width;
+  const y1 = annotation.y * height;
+  const x2 = (annotation.x2 ?? annotation.x) * width;
+  const y2 = (annotation.y2 ?? annotation.y) * height;
+
+  return {
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1)
+  };
+}
+
+/**
+ * Draw annotations over an image that is already painted on the canvas.
+ * Blur regions are drawn first, from the canvas pixels, so shapes on top of them stay sharp.
+ */
+export function drawAnnotations(
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  annotations: MediaAnnotation[]
+): void {
+  // Stroke widths and font sizes follow the image size, so flattened exports look like the preview
+  const unit = Math.max(1, Math.max(width, height) / 800);
+
+  annotations
+    .filter(annotation => annotation.type === 'blur')
+    .forEach(annotation => drawRedaction(context, getAnnotationBounds(annotation, width, height), unit));
+
+  let calloutNumber = 0;
+  annotations.forEach(annotation => {
+    const color = annotation.color || DEFAULT_ANNOTATION_COLOR;
+
+    context.save();
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = 3 * unit;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+
+    switch (annotation.type) {
+      case 'arrow':
+        drawArrow(context, annotation, width, height, unit);
+        break;
+      case 'rect': {
+        const bounds = getAnnotationBounds(annotation, width, height);
+        context.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+        break;
+      }
+      case 'callout':
+        calloutNumber++;
+        drawCallout(context, annotation.x * width, annotation.y * height, String(calloutNumber), unit);
+        break;
+      case 'text':
+        drawText(context, annotation.x * width, annotation.y * height, annotation.text || '', unit);
+        break;
+    }
+
+    context.restore();
+  });
+}
+
+/**
+ * Render an image with its annotations onto a new canvas at the given size
+ */
+export function renderAnnotatedImage(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  annotations: MediaAnnotation[]
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  context.drawImage(source, 0, 0, width, height);
+  drawAnnotations(context, width, height, annotations);
+  return canvas;
+}
+
+/**
+ * Burn annotations into an image file at its full resolution.
+ * The result keeps the file's format where canvas can encode it and is PNG otherwise;
+ * animated GIFs are reduced to their first frame.
+ */
+export async function flattenAnnotations(image: Blob, annotations: MediaAnnotation[]): Promise<Blob> {
+  if (annotations.length === 0) return image;
+
+  const bitmap = await createImageBitmap(image);
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = renderAnnotatedImage(bitmap, bitmap.width, bitmap.height, annotations);
+  } finally {
+    bitmap.close();
+  }
+
+  const type = FLATTENABLE_TYPES.includes(image.type) ? image.type : 'image/png';
+  return canvasToBlob(canvas, type);
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality = 0.92): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`Could not encode image as ${type}`)),
+      type,
+      quality
+    );
+  });
+}
+
+/**
+ * Pixelate a region in place. Unlike a blur filter this works in every browser
+ * and leaves nothing of the original text recoverable.
+ */
+function drawRedaction(context: CanvasRenderingContext2D, bounds: AnnotationBounds, unit: number): void {
+  const x = Math.max(0, Math.floor(bounds.x));
+  const y = Math.max(0, Math.floor(bounds.y));
+  const width = Math.min(context.canvas.width - x, Math.ceil(bounds.width));
+  const height = Math.min(context.canvas.height - y, Math.ceil(bounds.height));
+  if (width < 1 || height < 1) return;
+
+  const blockSize = Math.max(8, Math.round(12 * unit));
+  const mosaic = document.createElement('canvas');
+  mosaic.width = Math.max(1, Math.ceil(width / blockSize));
+  mosaic.height = Math.max(1, Math.ceil(height / blockSize));
+
+  const mosaicContext = mosaic.getContext('2d');
+  if (!mosaicContext) return;
+
+  mosaicContext.imageSmoothingEnabled = true;
+  mosaicContext.imageSmoothingQuality = 'high';
+  mosaicContext.drawImage(context.canvas, x, y, width, height, 0, 0, mosaic.width, mosaic.height);
+
+  context.save();
+  context.imageSmoothingEnabled = false;
+  context.drawImage(mosaic, 0, 0, mosaic.width, mosaic.height, x, y, width, height);
+  context.restore();
+}
+
+function drawArrow(context: CanvasRenderingContext2D, annotation: MediaAnnotation, width: number, height: number, unit: number): void {
+  const fromX = annotation.x * width;
+  const fromY = annotation.y * height;
+  const toX = (annotation.x2 ?? annotation.x) * width;
+  const toY = (annotation.y2 ?? annotation.y) * height;
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  const headLength = 16 * unit;
+
+  context.beginPath();
+  context.moveTo(fromX, fromY);
+  context.lineTo(toX, toY);
+  context.stroke();
+
+  context.beginPath();
+  context.moveTo(toX, toY);
+  context.lineTo(toX - headLength * Math.cos(angle - Math.PI / 7), toY - headLength * Math.sin(angle - Math.PI / 7));
+  context.lineTo(toX - headLength * Math.cos(angle + Math.PI / 7), toY - headLength * Math.sin(angle + Math.PI / 7));
+  context.closePath();
+  context.fill();
+}
+
+function drawCallout(context: CanvasRenderingContext2D, x: number, y: number, label: string, unit: number): void {
+  const radius = 14 * unit;
+
+  context.beginPath();
+  context.arc(x, y, radius, 0, Math.PI * 2);
+  context.fill();
+  context.lineWidth = 2 * unit;
+  context.strokeStyle = '#ffffff';
+  context.stroke();
+
+  context.fillStyle = '#ffffff';
+  context.font = `bold ${Math.round(16 * unit)}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(label, x, y);
+}
+
+function drawText(context: CanvasRenderingContext2D, x: number, y: number, text: string, unit: number): void {
+  if (!text) return;
+
+  context.font = `bold ${Math.round(18 * unit)}px sans-serif`;
+  context.textBaseline = 'top';
+
+  // White outline keeps the text readable on any screenshot
+  context.lineWidth = 4 * unit;
+  context.strokeStyle = '#ffffff';
+  context.strokeText(text, x, y);
+  context.fillText(text, x, y);
+}
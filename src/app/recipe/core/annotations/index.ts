@@ -0,0 +1,7 @@
+/**
+ * Media Annotations Module
+ * Canvas rendering of step image annotations (arrows, rectangles, numbered
+ * callouts, blur regions and text) for the editor, the detail page and export.
+ */
+export * from './annotation-renderer';
+export * from './annotation-export';
@@ -8,6 +8,13 @@ export const CATEGORY_ORDER: string[] = [
   'Query'
 ];
 
+export const RECIPE_CATEGORIES: string[] = [
+  ...CATEGORY_ORDER,
+  'General'
+];
+
+export const RECIPE_SCHEMA_VERSION = 2;
+
 export const RECIPE_PATHS = {
   RECIPE_FOLDERS_BASE: 'assets/recipes/',
   RECIPE_INDEX: 'assets/data/recipe-index.json'
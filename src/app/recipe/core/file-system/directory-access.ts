@@ -0,0 +1,88 @@
+/**
+ * The parts of the File System Access API used here that TypeScript's DOM
+ * library does not declare yet.
+ */
+interface WritableFileStream {
+  write(data: Blob | string): Promise<void>;
+  close(): Promise<void>;
+}
+
+type WritableFileHandle = FileSystemFileHandle & {
+  createWritable(): Promise<WritableFileStream>;
+};
+
+interface DirectoryPicker {
+  showDirectoryPicker(options?: { id?: string; mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+}
+
+export function isDirectoryAccessSupported(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/**
+ * Ask the user for a directory with write access
+ *
+ * @returns The directory, or null if the user closed the picker
+ */
+export async function pickWritableDirectory(id: string): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return await (window as unknown as DirectoryPicker).showDirectoryPicker({ id, mode: 'readwrite' });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a file by its '/'-separated path below root
+ *
+ * @returns The file, or null if it or one of its directories does not exist
+ */
+export async function readFileAt(root: FileSystemDirectoryHandle, path: string): Promise<File | null> {
+  const { directories, fileName } = splitPath(path);
+
+  try {
+    let directory = root;
+    for (const name of directories) {
+      directory = await directory.getDirectoryHandle(name);
+    }
+    const handle = await directory.getFileHandle(fileName);
+    return await handle.getFile();
+  } catch (error) {
+    if (error instanceof DOMException && (error.name === 'NotFoundError' || error.name === 'TypeMismatchError')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a file by its '/'-separated path below root, creating missing directories
+ */
+export async function writeFileAt(root: FileSystemDirectoryHandle, path: string, content: Blob | string): Promise<void> {
+  const { directories, fileName } = splitPath(path);
+
+  let directory = root;
+  for (const name of directories) {
+    directory = await directory.getDirectoryHandle(name, { create: true });
+  }
+
+  const handle = await directory.getFileHandle(fileName, { create: true }) as WritableFileHandle;
+  const stream = await handle.createWritable();
+  try {
+    await stream.write(content);
+  } finally {
+    await stream.close();
+  }
+}
+
+function splitPath(path: string): { directories: string[]; fileName: string } {
+  const parts = path.split('/').filter(part => part.length > 0);
+  const fileName = parts.pop();
+  if (!fileName) {
+    throw new Error(`Invalid file path: "${path}"`);
+  }
+  return { directories: parts, fileName };
+}
@@ -0,0 +1,42 @@
+import { readFileAt } from './directory-access';
+
+/**
+ * A file produced by an export, by its path below the recipes directory
+ */
+export interface ExportFile {
+  path: string;
+  content: Blob | string;
+}
+
+export type ExportFileStatus = 'create' | 'update' | 'unchanged';
+
+export interface PlannedExportFile extends ExportFile {
+  status: ExportFileStatus;
+}
+
+/**
+ * Compare export files against what is already on disk, without writing anything
+ */
+export async function planExportFiles(root: FileSystemDirectoryHandle, files: ExportFile[]): Promise<PlannedExportFile[]> {
+  const planned: PlannedExportFile[] = [];
+
+  for (const file of files) {
+    const existing = await readFileAt(root, file.path);
+    const status: ExportFileStatus = !existing
+      ? 'create'
+      : await hasSameContent(existing, file.content) ? 'unchanged' : 'update';
+    planned.push({ ...file, status });
+  }
+
+  return planned.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function hasSameContent(existing: File, content: Blob | string): Promise<boolean> {
+  const next = typeof content === 'string' ? new Blob([content]) : content;
+  if (existing.size !== next.size) return false;
+
+  const [a, b] = await Promise.all([existing.arrayBuffer(), next.arrayBuffer()]);
+  const bytesA = new Uint8Array(a);
+  const bytesB = new Uint8Array(b);
+  return bytesA.every((byte, index) => byte === bytesB[index]);
+}
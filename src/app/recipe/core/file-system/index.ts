@@ -0,0 +1,7 @@
+/**
+ * Recipe File System Module
+ * Writes exports straight into a local checkout through the File System Access API,
+ * with a dry-run plan of created, updated and unchanged files.
+ */
+export * from './directory-access';
+export * from './export-plan';
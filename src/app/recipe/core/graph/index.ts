@@ -0,0 +1,6 @@
+/**
+ * Recipe Graph Module
+ * Reference resolution and the prerequisite/related recipe graph
+ */
+export * from './recipe-references';
+export * from './recipe-graph';
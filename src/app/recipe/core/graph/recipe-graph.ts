@@ -0,0 +1,138 @@
+import { Recipe } from '../models/recipe.model';
+import { RecipeReferenceKind } from './recipe-references';
+
+export interface RecipeGraphNode {
+  id: string;
+  title: string;
+  category: string[];
+  level: number;  // Length of the longest prerequisite chain leading to this recipe
+  x: number;
+  y: number;
+}
+
+/**
+ * Prerequisite edges run from the prerequisite to the recipe that builds on it.
+ * Related edges are undirected and stored once per pair.
+ */
+export interface RecipeGraphEdge {
+  from: string;
+  to: string;
+  kind: RecipeReferenceKind;
+}
+
+export interface RecipeGraph {
+  nodes: RecipeGraphNode[];
+  edges: RecipeGraphEdge[];
+  width: number;
+  height: number;
+}
+
+export interface RecipeGraphLayout {
+  nodeWidth: number;
+  nodeHeight: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+export const DEFAULT_GRAPH_LAYOUT: RecipeGraphLayout = {
+  nodeWidth: 220,
+  nodeHeight: 56,
+  columnGap: 80,
+  rowGap: 16
+};
+
+/**
+ * Graph of recipes connected by resolved prerequisite and related references.
+ * Recipes without any connection are left out. Nodes are laid out in columns by
+ * level, so reading left to right follows the learning path.
+ */
+export function buildRecipeGraph(recipes: Recipe[], layout: RecipeGraphLayout = DEFAULT_GRAPH_LAYOUT): RecipeGraph {
+  const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+  const edges = collectEdges(recipes, recipesById);
+
+  const connectedIds = new Set(edges.flatMap(edge => [edge.from, edge.to]));
+  const levels = computeLevels(recipes.filter(recipe => connectedIds.has(recipe.id)));
+
+  const columns = new Map<number, Recipe[]>();
+  levels.forEach((level, recipeId) => {
+    const column = columns.get(level) || [];
+    column.push(recipesById.get(recipeId)!);
+    columns.set(level, column);
+  });
+
+  const nodes: RecipeGraphNode[] = [];
+  columns.forEach((column, level) => {
+    column
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .forEach((recipe, row) => nodes.push({
+        id: recipe.id,
+        title: recipe.title,
+        category: recipe.category,
+        level,
+        x: level * (layout.nodeWidth + layout.columnGap),
+        y: row * (layout.nodeHeight + layout.rowGap)
+      }));
+  });
+
+  const columnCount = columns.size > 0 ? Math.max(...columns.keys()) + 1 : 0;
+  const rowCount = Math.max(0, ...[...columns.values()].map(column => column.length));
+
+  return {
+    nodes,
+    edges,
+    width: Math.max(0, columnCount * (layout.nodeWidth + layout.columnGap) - layout.columnGap),
+    height: Math.max(0, rowCount * (layout.nodeHeight + layout.rowGap) - layout.rowGap)
+  };
+}
+
+function collectEdges(recipes: Recipe[], recipesById: Map<string, Recipe>): RecipeGraphEdge[] {
+  const edges = new Map<string, RecipeGraphEdge>();
+
+  recipes.forEach(recipe => {
+    (recipe.prerequisiteIds || [])
+      .filter(id => id !== recipe.id && recipesById.has(id))
+      .forEach(id => edges.set(`prerequisite:${id}:${recipe.id}`, { from: id, to: recipe.id, kind: 'prerequisite' }));
+  });
+
+  recipes.forEach(recipe => {
+    (recipe.relatedRecipeIds || [])
+      .filter(id => id !== recipe.id && recipesById.has(id))
+      .forEach(id => {
+        // A prerequisite link already connects the pair
+        if (edges.has(`prerequisite:${id}:${recipe.id}`) || edges.has(`prerequisite:${recipe.id}:${id}`)) return;
+
+        const [from, to] = [recipe.id, id].sort();
+        edges.set(`related:${from}:${to}`, { from, to, kind: 'related' });
+      });
+  });
+
+  return [...edges.values()];
+}
+
+function computeLevels(recipes: Recipe[]): Map<string, number> {
+  const recipeIds = new Set(recipes.map(recipe => recipe.id));
+  const prerequisites = new Map(recipes.map(recipe => [
+    recipe.id,
+    (recipe.prerequisiteIds || []).filter(id => id !== recipe.id && recipeIds.has(id))
+  ]));
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const levelOf = (recipeId: string): number => {
+    const known = levels.get(recipeId);
+    if (known !== undefined) return known;
+    // Prerequisite cycle: stop climbing here
+    if (visiting.has(recipeId)) return 0;
+
+    visiting.add(recipeId);
+    const parents = prerequisites.get(recipeId) || [];
+    const level = parents.length > 0 ? Math.max(...parents.map(levelOf)) + 1 : 0;
+    visiting.delete(recipeId);
+
+    levels.set(recipeId, level);
+    return level;
+  };
+
+  recipes.forEach(recipe => levelOf(recipe.id));
+  return levels;
+}
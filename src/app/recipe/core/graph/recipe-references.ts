@@ -0,0 +1,122 @@
+import { generateSlug } from '../../../shared/utils/slug.utils';
+
+export type RecipeReferenceKind = 'prerequisite' | 'related';
+
+/**
+ * A title/url pair in a recipe that points at another recipe
+ */
+export interface RecipeReference {
+  kind: RecipeReferenceKind;
+  field: string;  // Path of the link in the recipe, e.g. prerequisites[0].quickLinks[1]
+  title: string;
+  url: string;
+}
+
+export interface ResolvedRecipeReference extends RecipeReference {
+  recipeId: string | null;  // null when no recipe matches
+}
+
+/**
+ * Recipe identity used for resolving references
+ */
+export interface RecipeReferenceTarget {
+  id: string;
+  title: string;
+  slug?: string;
+}
+
+interface ReferenceSource {
+  prerequisites?: { quickLinks?: { title: string; url: string }[] }[];
+  relatedRecipes?: { title: string; url: string }[];
+}
+
+const RECIPE_PATH_PATTERN = /(?:^|\/)recipes\/[^/?#]+\/([^/?#]+)/;
+
+/**
+ * Whether a quick link targets a recipe rather than external documentation,
+ * i.e. a /recipes/<category>/<slug> link
+ */
+export function isRecipeLink(url: string): boolean {
+  return RECIPE_PATH_PATTERN.test((url || '').trim());
+}
+
+/**
+ * Every recipe reference in a recipe. Prerequisite quick links count only when they
+ * point at a recipe; related recipes always do.
+ */
+export function getRecipeReferences(recipe: ReferenceSource): RecipeReference[] {
+  const references: RecipeReference[] = [];
+
+  (recipe.prerequisites || []).forEach((prereq, index) => {
+    (prereq.quickLinks || []).forEach((link, linkIndex) => {
+      if (isRecipeLink(link.url)) {
+        references.push({
+          kind: 'prerequisite',
+          field: `prerequisites[${index}].quickLinks[${linkIndex}]`,
+          title: link.title || '',
+          url: link.url || ''
+        });
+      }
+    });
+  });
+
+  (recipe.relatedRecipes || []).forEach((related, index) => {
+    if (related.title?.trim() || related.url?.trim()) {
+      references.push({
+        kind: 'related',
+        field: `relatedRecipes[${index}]`,
+        title: related.title || '',
+        url: related.url || ''
+      });
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Resolves references to recipe IDs by the slug or recipe ID in a recipe path
+ * or, when the URL is not a recipe path, by title
+ */
+export class RecipeReferenceResolver {
+  private byId = new Map<string, string>();
+  private bySlug = new Map<string, string>();
+
+  constructor(recipes: RecipeReferenceTarget[]) {
+    recipes.forEach(recipe => {
+      this.byId.set(recipe.id.toLowerCase(), recipe.id);
+      this.bySlug.set(recipe.slug || generateSlug(recipe.title), recipe.id);
+    });
+  }
+
+  get isEmpty(): boolean {
+    return this.byId.size === 0;
+  }
+
+  resolve(reference: Pick<RecipeReference, 'title' | 'url'>): string | null {
+    const pathMatch = (reference.url || '').trim().match(RECIPE_PATH_PATTERN);
+
+    // A recipe path must resolve on its own; the title is only a fallback for other URLs
+    if (pathMatch) {
+      const key = this.safeDecode(pathMatch[1]);
+      return this.byId.get(key.toLowerCase()) || this.bySlug.get(generateSlug(key)) || null;
+    }
+
+    return this.bySlug.get(generateSlug(reference.title)) || null;
+  }
+
+  resolveAll(recipe: ReferenceSource): ResolvedRecipeReference[] {
+    return getRecipeReferences(recipe).map(reference => ({
+      ...reference,
+      recipeId: this.resolve(reference)
+    }));
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Recipe Lint Module
+ * Pluggable authoring-convention rules with severities and one-click fixes.
+ * Framework-free so scripts/lint-recipes.js can run the same rules in Node.
+ */
+export * from './lint-rule';
+export * from './recipe-lint-rules';
+export * from './recipe-linter';
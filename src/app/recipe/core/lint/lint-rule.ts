@@ -0,0 +1,39 @@
+import { RecipeData } from '../models/recipe.model';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A one-click fix. apply() mutates the recipe it is given.
+ */
+export interface LintFix {
+  label: string;
+  apply(recipe: RecipeData): void;
+}
+
+/**
+ * What a rule reports for one problem. The engine adds the rule ID and severity.
+ */
+export interface LintFinding {
+  field: string;  // Path in the recipe, e.g. walkthrough[2].media[0].alt
+  message: string;
+  fix?: LintFix;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;  // Default severity; LintConfig can override it
+  check(recipe: RecipeData): LintFinding[];
+}
+
+export interface LintIssue extends LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+}
+
+/**
+ * Per-rule overrides: a different severity, or 'off' to skip the rule
+ */
+export interface LintConfig {
+  rules?: { [ruleId: string]: LintSeverity | 'off' };
+}
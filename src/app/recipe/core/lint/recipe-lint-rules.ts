@@ -0,0 +1,252 @@
+import { RecipeData, StepConfig, WalkthroughStep, normalizeCategory } from '../models/recipe.model';
+import { LintFinding, LintRule } from './lint-rule';
+
+/**
+ * Authoring conventions for recipes. Unlike ValidationService errors these do
+ * not block saving; they keep published recipes consistent.
+ */
+
+// Default names from screenshot tools, e.g. "Screenshot 2025-12-18 at 2.11.51 PM"
+const SCREENSHOT_NAME_PATTERN = /^(screen ?shot|screen recording|cleanshot|capture d.écran|bildschirmfoto)\b/i;
+const FILE_NAME_PATTERN = /^(img|dsc|image|photo)[-_ ]?\d+|\.(png|jpe?g|gif|webp|svg|mov|mp4)$/i;
+
+const KEYWORD_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with', 'when', 'using'
+]);
+const MAX_SUGGESTED_KEYWORDS = 6;
+
+export const descriptiveAltTextRule: LintRule = {
+  id: 'descriptive-alt-text',
+  description: 'Images need alt text that describes them, not a screenshot file name',
+  severity: 'warning',
+  check(recipe) {
+    const findings: LintFinding[] = [];
+
+    (recipe.walkthrough || []).forEach((step, stepIndex) => {
+      (step.media || []).forEach((media, mediaIndex) => {
+        const problem = getAltTextProblem(media.alt);
+        if (!problem) return;
+
+        findings.push({
+          field: `walkthrough[${stepIndex}].media[${mediaIndex}].alt`,
+          message: `${getStepLabel(step, stepIndex)}, media ${mediaIndex + 1}: ${problem}`,
+          fix: {
+            label: 'Describe from recipe and step',
+            apply: target => {
+              const targetStep = target.walkthrough?.[stepIndex];
+              const targetMedia = targetStep?.media?.[mediaIndex];
+              if (targetStep && targetMedia) {
+                targetMedia.alt = suggestAltText(
+                  `${target.title} – ${getStepName(targetStep, stepIndex)}`,
+                  mediaIndex,
+                  targetStep.media.length
+                );
+              }
+            }
+          }
+        });
+      });
+    });
+
+    (recipe.generalImages || []).forEach((image, imageIndex) => {
+      const problem = getAltTextProblem(image.alt);
+      if (!problem) return;
+
+      findings.push({
+        field: `generalImages[${imageIndex}].alt`,
+        message: `General image ${imageIndex + 1}: ${problem}`,
+        fix: {
+          label: 'Describe from recipe title',
+          apply: target => {
+            const targetImage = target.generalImages?.[imageIndex];
+            if (targetImage) {
+              targetImage.alt = suggestAltText(target.title, imageIndex, target.generalImages.length);
+            }
+          }
+        }
+      });
+    });
+
+    return findings;
+  }
+};
+
+export const stepMediaWithoutConfigRule: LintRule = {
+  id: 'step-media-without-config',
+  description: 'Steps that show screenshots should also list the settings they configure',
+  severity: 'info',
+  check(recipe) {
+    return (recipe.walkthrough || [])
+      .map((step, stepIndex) => ({ step, stepIndex }))
+      .filter(({ step }) => (step.media || []).length > 0 && (step.config || []).length === 0)
+      .map(({ step, stepIndex }) => ({
+        field: `walkthrough[${stepIndex}].config`,
+        message: `${getStepLabel(step, stepIndex)} has media but no config`
+      }));
+  }
+};
+
+export const duplicateConfigFieldRule: LintRule = {
+  id: 'duplicate-config-field',
+  description: 'A config field should appear only once per step',
+  severity: 'error',
+  check(recipe) {
+    const findings: LintFinding[] = [];
+
+    (recipe.walkthrough || []).forEach((step, stepIndex) => {
+      const rowsByField = new Map<string, StepConfig[]>();
+      (step.config || []).forEach(config => {
+        const field = config.field?.trim();
+        if (!field) return;
+        rowsByField.set(field, [...(rowsByField.get(field) || []), config]);
+      });
+
+      rowsByField.forEach((rows, field) => {
+        if (rows.length < 2) return;
+
+        // Only offer a fix when dropping the repeats loses nothing
+        const values = new Set(rows.map(row => row.value?.trim()).filter(Boolean));
+        findings.push({
+          field: `walkthrough[${stepIndex}].config`,
+          message: `${getStepLabel(step, stepIndex)} sets "${field}" ${rows.length} times` +
+            (values.size > 1 ? ' with different values' : ''),
+          fix: values.size > 1 ? undefined : {
+            label: 'Remove repeated rows',
+            apply: target => {
+              const targetStep = target.walkthrough?.[stepIndex];
+              if (targetStep) {
+                targetStep.config = removeRepeatedField(targetStep.config || [], field);
+              }
+            }
+          }
+        });
+      });
+    });
+
+    return findings;
+  }
+};
+
+export const emptyConfigRowRule: LintRule = {
+  id: 'empty-config-row',
+  description: 'Config rows without a field or value are left-overs',
+  severity: 'info',
+  check(recipe) {
+    return (recipe.walkthrough || [])
+      .map((step, stepIndex) => ({ step, stepIndex, count: (step.config || []).filter(isEmptyConfig).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ step, stepIndex, count }) => ({
+        field: `walkthrough[${stepIndex}].config`,
+        message: `${getStepLabel(step, stepIndex)} has ${count} empty config row(s)`,
+        fix: {
+          label: 'Remove empty rows',
+          apply: target => {
+            const targetStep = target.walkthrough?.[stepIndex];
+            if (targetStep) {
+              targetStep.config = (targetStep.config || []).filter(config => !isEmptyConfig(config));
+            }
+          }
+        }
+      }));
+  }
+};
+
+export const keywordsRequiredRule: LintRule = {
+  id: 'keywords-required',
+  description: 'Keywords help search find the recipe',
+  severity: 'warning',
+  check(recipe) {
+    if ((recipe.keywords || []).some(keyword => keyword?.trim())) return [];
+
+    return [{
+      field: 'keywords',
+      message: 'Recipe has no keywords',
+      fix: {
+        label: 'Suggest from title and category',
+        apply: target => {
+          target.keywords = suggestKeywords(target);
+        }
+      }
+    }];
+  }
+};
+
+export const dspVersionsRequiredRule: LintRule = {
+  id: 'dsp-versions-required',
+  description: 'Recipes should name the Data Sync Pro versions they were written for',
+  severity: 'warning',
+  check(recipe) {
+    if ((recipe.DSPVersions || []).some(version => version?.trim())) return [];
+
+    return [{
+      field: 'DSPVersions',
+      message: 'Recipe lists no DSP versions'
+    }];
+  }
+};
+
+export const RECIPE_LINT_RULES: LintRule[] = [
+  descriptiveAltTextRule,
+  stepMediaWithoutConfigRule,
+  duplicateConfigFieldRule,
+  emptyConfigRowRule,
+  keywordsRequiredRule,
+  dspVersionsRequiredRule
+];
+
+function getAltTextProblem(alt: string | undefined): string | null {
+  const text = (alt || '').trim();
+
+  if (!text) return 'alt text is missing';
+  if (SCREENSHOT_NAME_PATTERN.test(text)) return `alt text "${text}" is a screenshot file name`;
+  if (FILE_NAME_PATTERN.test(text)) return `alt text "${text}" is a file name`;
+  return null;
+}
+
+function suggestAltText(base: string, index: number, count: number): string {
+  return count > 1 ? `${base} (${index + 1})` : base;
+}
+
+function hasStepName(step: WalkthroughStep): boolean {
+  const name = step.step?.trim();
+  return !!name && name !== 'Custom';
+}
+
+function getStepName(step: WalkthroughStep, index: number): string {
+  return hasStepName(step) ? step.step.trim() : `Step ${index + 1}`;
+}
+
+function getStepLabel(step: WalkthroughStep, index: number): string {
+  return hasStepName(step) ? `Step ${index + 1} (${step.step.trim()})` : `Step ${index + 1}`;
+}
+
+function isEmptyConfig(config: StepConfig): boolean {
+  return !config.field?.trim() && !config.value?.trim();
+}
+
+/**
+ * Keep the first row for the field, carrying over a value from a repeat if the first is blank
+ */
+function removeRepeatedField(config: StepConfig[], field: string): StepConfig[] {
+  const rows = config.filter(row => row.field?.trim() === field);
+  const first = rows[0];
+  if (!first) return config;
+
+  if (!first.value?.trim()) {
+    first.value = rows.find(row => row.value?.trim())?.value || first.value;
+  }
+
+  return config.filter(row => row === first || row.field?.trim() !== field);
+}
+
+function suggestKeywords(recipe: RecipeData): string[] {
+  const keywords = normalizeCategory(recipe.category).map(category => category.toLowerCase());
+
+  (recipe.title || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !KEYWORD_STOP_WORDS.has(word))
+    .forEach(word => keywords.push(word));
+
+  return [...new Set(keywords)].slice(0, MAX_SUGGESTED_KEYWORDS);
+}
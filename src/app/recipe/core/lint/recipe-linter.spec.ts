@@ -0,0 +1,127 @@
+import { Recipe } from '../models/recipe.model';
+import { LintRule } from './lint-rule';
+import {
+  descriptiveAltTextRule,
+  duplicateConfigFieldRule,
+  emptyConfigRowRule,
+  keywordsRequiredRule
+} from './recipe-lint-rules';
+import { applyLintFixes, countLintIssues, lintRecipe } from './recipe-linter';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+/**
+ * A recipe that follows every convention, so each spec only adds the problem it checks
+ */
+function createLintedRecipe(overrides: Partial<Recipe> = {}): Recipe {
+  return createRecipe({
+    title: 'Close Won Opportunities',
+    DSPVersions: ['3.0'],
+    keywords: ['opportunity'],
+    ...overrides
+  });
+}
+
+describe('recipe lint rules', () => {
+  it('should flag screenshot file names as alt text and describe the image instead', () => {
+    const recipe = createLintedRecipe({
+      walkthrough: [{
+        step: 'Configure Pipeline',
+        config: [{ field: 'Object', value: 'Opportunity' }],
+        media: [
+          { type: 'image', url: 'images/a.png', alt: 'Screenshot 2025-12-18 at 2.11.51 PM' },
+          { type: 'image', url: 'images/b.png', alt: 'IMG_1234' },
+          { type: 'image', url: 'images/c.png', alt: 'Pipeline settings' }
+        ]
+      }]
+    });
+
+    const findings = descriptiveAltTextRule.check(recipe);
+    expect(findings.map(finding => finding.field)).toEqual([
+      'walkthrough[0].media[0].alt',
+      'walkthrough[0].media[1].alt'
+    ]);
+
+    findings[0].fix!.apply(recipe);
+    expect(recipe.walkthrough[0].media[0].alt).toBe('Close Won Opportunities – Configure Pipeline (1)');
+  });
+
+  it('should offer to drop repeated config rows only when their values agree', () => {
+    const recipe = createLintedRecipe({
+      walkthrough: [
+        { step: 'Same', config: [{ field: 'Object', value: '' }, { field: 'Object', value: 'Lead' }], media: [] },
+        { step: 'Different', config: [{ field: 'Object', value: 'Lead' }, { field: 'Object', value: 'Case' }], media: [] }
+      ]
+    });
+
+    const findings = duplicateConfigFieldRule.check(recipe);
+    expect(findings.length).toBe(2);
+    expect(findings[1].fix).toBeUndefined();
+    expect(findings[1].message).toContain('with different values');
+
+    findings[0].fix!.apply(recipe);
+    expect(recipe.walkthrough[0].config).toEqual([{ field: 'Object', value: 'Lead' }]);
+  });
+
+  it('should remove empty config rows', () => {
+    const recipe = createLintedRecipe({
+      walkthrough: [{ step: 'Run', config: [{ field: 'Object', value: 'Lead' }, { field: ' ', value: '' }], media: [] }]
+    });
+
+    const [finding] = emptyConfigRowRule.check(recipe);
+    finding.fix!.apply(recipe);
+
+    expect(recipe.walkthrough[0].config).toEqual([{ field: 'Object', value: 'Lead' }]);
+  });
+
+  it('should suggest keywords from the category and title', () => {
+    const recipe = createLintedRecipe({ keywords: [' '] });
+
+    const [finding] = keywordsRequiredRule.check(recipe);
+    finding.fix!.apply(recipe);
+
+    expect(recipe.keywords).toEqual(['batch', 'close', 'won', 'opportunities']);
+  });
+});
+
+describe('lintRecipe', () => {
+  const throwingRule: LintRule = {
+    id: 'throws',
+    description: 'Always fails',
+    severity: 'info',
+    check: () => { throw new Error('boom'); }
+  };
+
+  it('should return nothing for a recipe that follows the conventions', () => {
+    expect(lintRecipe(createLintedRecipe())).toEqual([]);
+  });
+
+  it('should sort issues by severity and apply config overrides', () => {
+    const recipe = createLintedRecipe({ keywords: [], DSPVersions: [] });
+
+    const issues = lintRecipe(recipe, undefined, {
+      rules: { 'keywords-required': 'error', 'dsp-versions-required': 'off' }
+    });
+
+    expect(issues.map(issue => [issue.ruleId, issue.severity])).toEqual([['keywords-required', 'error']]);
+  });
+
+  it('should report a rule that throws instead of stopping', () => {
+    const issues = lintRecipe(createLintedRecipe({ keywords: [] }), [keywordsRequiredRule, throwingRule]);
+
+    expect(issues.map(issue => issue.ruleId)).toEqual(['throws', 'keywords-required']);
+    expect(issues[0].message).toBe('Lint rule failed: boom');
+  });
+
+  it('should apply every available fix and count issues by severity', () => {
+    const recipe = createLintedRecipe({
+      keywords: [],
+      DSPVersions: [],
+      walkthrough: [{ step: 'Run', config: [{ field: '', value: '' }], media: [] }]
+    });
+    const issues = lintRecipe(recipe);
+
+    expect(countLintIssues(issues)).toEqual({ error: 0, warning: 2, info: 1 });
+    expect(applyLintFixes(recipe, issues)).toBe(2);
+    expect(lintRecipe(recipe).map(issue => issue.ruleId)).toEqual(['dsp-versions-required']);
+  });
+});
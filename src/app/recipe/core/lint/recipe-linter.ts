@@ -0,0 +1,58 @@
+import { RecipeData } from '../models/recipe.model';
+import { LintConfig, LintIssue, LintRule, LintSeverity } from './lint-rule';
+import { RECIPE_LINT_RULES } from './recipe-lint-rules';
+
+const SEVERITY_ORDER: { [severity in LintSeverity]: number } = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Run lint rules over a recipe. Issues come back most severe first; a rule that
+ * throws is reported as an issue instead of stopping the run.
+ */
+export function lintRecipe(
+  recipe: RecipeData,
+  rules: LintRule[] = RECIPE_LINT_RULES,
+  config: LintConfig = {}
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  rules.forEach(rule => {
+    const setting = config.rules?.[rule.id];
+    if (setting === 'off') return;
+
+    const severity = setting || rule.severity;
+    try {
+      rule.check(recipe).forEach(finding => issues.push({ ...finding, ruleId: rule.id, severity }));
+    } catch (error) {
+      issues.push({
+        ruleId: rule.id,
+        severity: 'error',
+        field: '',
+        message: `Lint rule failed: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  });
+
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Apply the fixes of the given issues to a recipe in place. Returns how many were applied.
+ */
+export function applyLintFixes(recipe: RecipeData, issues: LintIssue[]): number {
+  let applied = 0;
+
+  issues.forEach(issue => {
+    if (!issue.fix) return;
+    issue.fix.apply(recipe);
+    applied++;
+  });
+
+  return applied;
+}
+
+export function countLintIssues(issues: LintIssue[]): { [severity in LintSeverity]: number } {
+  return issues.reduce(
+    (counts, issue) => ({ ...counts, [issue.severity]: counts[issue.severity] + 1 }),
+    { error: 0, warning: 0, info: 0 }
+  );
+}
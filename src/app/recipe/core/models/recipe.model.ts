@@ -4,6 +4,7 @@
  * Recipe source data structure (persisted to JSON files)
  */
 export interface RecipeData {
+  schemaVersion?: number;  // Absent in recipe.json files written before versioning
   id: string;
   title: string;
   category: string | string[];  // Support both old (string) and new (string[]) format
@@ -43,6 +44,8 @@ export interface Recipe {
   downloadableExecutables: DownloadableExecutable[];
   relatedRecipes: RelatedRecipe[];
   keywords: string[];
+  prerequisiteIds?: string[];     // Resolved from prerequisite quick links at load time
+  relatedRecipeIds?: string[];    // Resolved from relatedRecipes at load time
   isExpanded?: boolean;
   isLoading?: boolean;
   showSocialShare?: boolean;
@@ -107,6 +110,25 @@ export interface StepMedia {
   url: string;
   alt: string;
   displayUrl?: string;
+  annotations?: MediaAnnotation[];
+  flattenAnnotations?: boolean;  // Burn the annotations into the exported image file
+}
+
+export type MediaAnnotationType = 'arrow' | 'rect' | 'callout' | 'blur' | 'text';
+
+/**
+ * Vector annotation drawn over a step image.
+ * Coordinates are fractions (0-1) of the image width and height, so they
+ * survive resizing and re-encoding of the image file.
+ */
+export interface MediaAnnotation {
+  type: MediaAnnotationType;
+  x: number;
+  y: number;
+  x2?: number;    // End point for arrows, opposite corner for rectangles and blur regions
+  y2?: number;
+  text?: string;  // Text annotations only; callouts are numbered automatically
+  color?: string;
 }
 
 /**
@@ -161,14 +183,13 @@ export interface SearchResult extends Recipe {
 }
 
 /**
- * Search state for search overlay
+ * Search state for the recipe list filter
  */
 export interface SearchState {
   query: string;
   isActive: boolean;
   results: SearchResult[];
   hasResults: boolean;
-  isOverlayOpen: boolean;
 }
 
 /**
@@ -178,6 +199,18 @@ export interface Filter {
   categories: string[];
 }
 
+// ==================== Progress Models ====================
+
+/**
+ * Walkthrough progress for one recipe (persisted to localStorage)
+ */
+export interface RecipeProgress {
+  recipeId: string;
+  completedSteps: number[];  // Zero-based walkthrough step indexes
+  totalSteps: number;        // Walkthrough length when progress was last saved
+  timestamp: number;         // Last update, used to order "continue where you left off"
+}
+
 // ==================== Navigation & UI Models ====================
 
 /**
@@ -212,7 +245,21 @@ export interface RecipeIndexItem {
   folderId: string;
   name: string;
   category: string;
-  active: boolean;
+  active: boolean;           // Mirrors state === 'published' for readers that predate states
+  state?: PublicationState;  // Absent in index.json files written before publication states
+  publishAt?: string;        // ISO date-time
+  unpublishAt?: string;      // ISO date-time
+}
+
+export type PublicationState = 'draft' | 'in-review' | 'published' | 'archived';
+
+/**
+ * Workflow state of a recipe, with an optional window in which a published recipe is live
+ */
+export interface RecipePublication {
+  state: PublicationState;
+  publishAt?: string;    // ISO date-time
+  unpublishAt?: string;  // ISO date-time
 }
 
 // ==================== Editor Models ====================
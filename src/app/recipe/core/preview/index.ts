@@ -0,0 +1,7 @@
+/**
+ * Recipe Preview Module
+ * BroadcastChannel protocol between the editor and preview windows:
+ * snapshots, incremental patches, acknowledgements and step focus.
+ */
+export * from './recipe-patch';
+export * from './preview-protocol';
@@ -0,0 +1,68 @@
+import { RecipePreviewData } from '../models/recipe.model';
+import { PatchOperation } from './recipe-patch';
+
+export const PREVIEW_CHANNEL_NAME = 'recipe-preview';
+
+/**
+ * Full preview state. Sent for the first update, and whenever the editor has no
+ * acknowledgement that the preview holds the previous revision.
+ */
+export interface PreviewSnapshotMessage {
+  kind: 'snapshot';
+  recipeId: string;
+  revision: number;
+  data: RecipePreviewData;
+}
+
+/**
+ * Changes since baseRevision. A preview at any other revision asks for a snapshot instead.
+ */
+export interface PreviewPatchMessage {
+  kind: 'patch';
+  recipeId: string;
+  revision: number;
+  baseRevision: number;
+  operations: PatchOperation[];
+}
+
+/**
+ * Sent by the preview once it has applied a revision
+ */
+export interface PreviewAckMessage {
+  kind: 'ack';
+  recipeId: string;
+  revision: number;
+}
+
+/**
+ * Sent by the preview when it opens or misses a revision
+ */
+export interface PreviewSnapshotRequestMessage {
+  kind: 'request-snapshot';
+  recipeId: string;
+}
+
+/**
+ * The walkthrough step focused in the editor, so the preview can scroll to it
+ */
+export interface PreviewFocusStepMessage {
+  kind: 'focus-step';
+  recipeId: string;
+  stepIndex: number;
+}
+
+export type PreviewMessage =
+  | PreviewSnapshotMessage
+  | PreviewPatchMessage
+  | PreviewAckMessage
+  | PreviewSnapshotRequestMessage
+  | PreviewFocusStepMessage;
+
+export function isBroadcastChannelSupported(): boolean {
+  return typeof BroadcastChannel !== 'undefined';
+}
+
+export function isPreviewMessage(value: unknown): value is PreviewMessage {
+  const message = value as Partial<PreviewMessage> | null;
+  return !!message && typeof message.kind === 'string' && typeof message.recipeId === 'string';
+}
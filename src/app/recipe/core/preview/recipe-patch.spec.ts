@@ -0,0 +1,69 @@
+import { Recipe } from '../models/recipe.model';
+import { applyPatch, createPatch } from './recipe-patch';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+describe('recipe patches', () => {
+  const previous = createRecipe({
+    keywords: ['soql', 'batch', 'apex'],
+    walkthrough: [
+      { step: 'Create', config: [{ field: 'Object', value: 'Lead' }], media: [] },
+      { step: 'Run', config: [], media: [] }
+    ]
+  });
+
+  it('should produce no operations for equal values', () => {
+    expect(createPatch(previous, JSON.parse(JSON.stringify(previous)))).toEqual([]);
+  });
+
+  it('should describe nested changes by path', () => {
+    const next: Recipe = {
+      ...previous,
+      walkthrough: [
+        { step: 'Create', config: [{ field: 'Object', value: 'Contact' }], media: [] },
+        previous.walkthrough[1]
+      ]
+    };
+
+    expect(createPatch(previous, next)).toEqual([
+      { op: 'set', path: ['walkthrough', 0, 'config', 0, 'value'], value: 'Contact' }
+    ]);
+  });
+
+  it('should truncate shorter arrays and remove missing keys', () => {
+    const { overview: _overview, ...withoutOverview } = previous;
+    const next = { ...withoutOverview, keywords: ['soql'] };
+
+    expect(createPatch(previous, next)).toEqual([
+      { op: 'truncate', path: ['keywords'], length: 1 },
+      { op: 'remove', path: ['overview'] }
+    ]);
+  });
+
+  it('should turn previous into next when applied', () => {
+    const next: Recipe = createRecipe({
+      title: 'Renamed',
+      keywords: ['soql', 'batch', 'apex', 'trigger'],
+      walkthrough: [previous.walkthrough[0]],
+      generalUseCase: 'New field'
+    });
+
+    expect(applyPatch(previous, createPatch(previous, next))).toEqual(next);
+  });
+
+  it('should not mutate the target and keep unchanged branches', () => {
+    const snapshot = JSON.parse(JSON.stringify(previous));
+    const next = { ...previous, title: 'Renamed' };
+
+    const result = applyPatch(previous, createPatch(previous, next));
+
+    expect(previous).toEqual(snapshot);
+    expect(result).not.toBe(previous);
+    expect(result.walkthrough).toBe(previous.walkthrough);
+  });
+
+  it('should replace values whose type changed', () => {
+    expect(createPatch({ value: ['a'] }, { value: 'a' })).toEqual([
+      { op: 'set', path: ['value'], value: 'a' }
+    ]);
+  });
+});
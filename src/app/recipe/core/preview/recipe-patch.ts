@@ -0,0 +1,92 @@
+export type PatchPath = (string | number)[];
+
+/**
+ * One change between two JSON-compatible values.
+ * Arrays are patched index by index; a shorter array is expressed as a truncate.
+ */
+export type PatchOperation =
+  | { op: 'set'; path: PatchPath; value: unknown }
+  | { op: 'remove'; path: PatchPath }
+  | { op: 'truncate'; path: PatchPath; length: number };
+
+/**
+ * Operations that turn previous into next
+ */
+export function createPatch(previous: unknown, next: unknown): PatchOperation[] {
+  const operations: PatchOperation[] = [];
+  diff(previous, next, [], operations);
+  return operations;
+}
+
+/**
+ * Apply operations without mutating the target. Only objects along the changed
+ * paths are copied, so unchanged branches keep their references.
+ */
+export function applyPatch<T>(target: T, operations: PatchOperation[]): T {
+  return operations.reduce<unknown>((result, operation) => applyOperation(result, operation.path, operation), target) as T;
+}
+
+function diff(previous: unknown, next: unknown, path: PatchPath, operations: PatchOperation[]): void {
+  if (previous === next) return;
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    next.forEach((item, index) => {
+      if (index < previous.length) {
+        diff(previous[index], item, [...path, index], operations);
+      } else {
+        operations.push({ op: 'set', path: [...path, index], value: item });
+      }
+    });
+
+    if (previous.length > next.length) {
+      operations.push({ op: 'truncate', path, length: next.length });
+    }
+    return;
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    Object.keys(next).forEach(key => {
+      if (key in previous) {
+        diff(previous[key], next[key], [...path, key], operations);
+      } else {
+        operations.push({ op: 'set', path: [...path, key], value: next[key] });
+      }
+    });
+
+    Object.keys(previous)
+      .filter(key => !(key in next))
+      .forEach(key => operations.push({ op: 'remove', path: [...path, key] }));
+    return;
+  }
+
+  operations.push({ op: 'set', path, value: next });
+}
+
+function applyOperation(node: unknown, path: PatchPath, operation: PatchOperation): unknown {
+  if (path.length === 0) {
+    switch (operation.op) {
+      case 'set':
+        return operation.value;
+      case 'truncate':
+        return Array.isArray(node) ? node.slice(0, operation.length) : node;
+      case 'remove':
+        return undefined;
+    }
+  }
+
+  const [key, ...rest] = path;
+  const container: Record<string | number, unknown> = Array.isArray(node)
+    ? [...node] as unknown as Record<number, unknown>
+    : { ...(isPlainObject(node) ? node : {}) };
+
+  if (rest.length === 0 && operation.op === 'remove') {
+    delete container[key];
+  } else {
+    container[key] = applyOperation(container[key], rest, operation);
+  }
+  return container;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,6 @@
+/**
+ * Recipe Publication Module
+ * Workflow states (draft, in review, published, archived) with optional publish and
+ * unpublish dates. Framework-free so scripts can read index.json the same way the site does.
+ */
+export * from './publication';
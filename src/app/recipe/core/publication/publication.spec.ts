@@ -0,0 +1,77 @@
+import {
+  getIndexPublication,
+  getPublicationStatus,
+  getScheduleError,
+  isPublicationLive,
+  toIndexPublicationFields
+} from './publication';
+
+describe('publication', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  describe('getIndexPublication', () => {
+    it('should map entries written before publication states from active', () => {
+      expect(getIndexPublication({})).toEqual({ state: 'published' });
+      expect(getIndexPublication({ active: true })).toEqual({ state: 'published' });
+      expect(getIndexPublication({ active: false })).toEqual({ state: 'draft' });
+    });
+
+    it('should prefer the state over active', () => {
+      expect(getIndexPublication({ active: true, state: 'in-review' })).toEqual({ state: 'in-review' });
+    });
+
+    it('should ignore unknown states and invalid dates', () => {
+      expect(getIndexPublication({ active: false, state: 'pending', publishAt: 'soon' })).toEqual({ state: 'draft' });
+    });
+
+    it('should keep valid dates', () => {
+      expect(getIndexPublication({
+        state: 'published',
+        publishAt: '2026-04-01T00:00:00Z',
+        unpublishAt: '2026-05-01T00:00:00Z'
+      })).toEqual({
+        state: 'published',
+        publishAt: '2026-04-01T00:00:00Z',
+        unpublishAt: '2026-05-01T00:00:00Z'
+      });
+    });
+  });
+
+  describe('toIndexPublicationFields', () => {
+    it('should write active for older readers and round-trip through getIndexPublication', () => {
+      const publication = { state: 'published' as const, publishAt: '2026-04-01T00:00:00Z' };
+      const fields = toIndexPublicationFields(publication);
+
+      expect(fields).toEqual({ active: true, state: 'published', publishAt: '2026-04-01T00:00:00Z' });
+      expect(toIndexPublicationFields({ state: 'archived' }).active).toBeFalse();
+      expect(getIndexPublication(fields)).toEqual(publication);
+    });
+  });
+
+  describe('getPublicationStatus', () => {
+    it('should split published by its date window', () => {
+      expect(getPublicationStatus({ state: 'published' }, now)).toBe('live');
+      expect(getPublicationStatus({ state: 'published', publishAt: '2026-03-02T00:00:00Z' }, now)).toBe('scheduled');
+      expect(getPublicationStatus({ state: 'published', unpublishAt: '2026-03-01T12:00:00Z' }, now)).toBe('expired');
+      expect(getPublicationStatus({
+        state: 'published',
+        publishAt: '2026-02-01T00:00:00Z',
+        unpublishAt: '2026-04-01T00:00:00Z'
+      }, now)).toBe('live');
+    });
+
+    it('should return other states as they are, whatever the dates', () => {
+      expect(getPublicationStatus({ state: 'draft', publishAt: '2026-02-01T00:00:00Z' }, now)).toBe('draft');
+      expect(isPublicationLive({ state: 'archived' }, now)).toBeFalse();
+    });
+  });
+
+  describe('getScheduleError', () => {
+    it('should require the unpublish date to follow the publish date', () => {
+      expect(getScheduleError({ state: 'published', publishAt: '2026-04-01', unpublishAt: '2026-04-01' }))
+        .toBe('Unpublish date must be after the publish date');
+      expect(getScheduleError({ state: 'published', publishAt: '2026-04-01', unpublishAt: '2026-04-02' })).toBeNull();
+      expect(getScheduleError({ state: 'published', unpublishAt: '2026-04-02' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { PublicationState, RecipePublication } from '../models/recipe.model';
+
+export const PUBLICATION_STATES: PublicationState[] = ['draft', 'in-review', 'published', 'archived'];
+
+export const PUBLICATION_STATE_LABELS: Record<PublicationState, string> = {
+  'draft': 'Draft',
+  'in-review': 'In review',
+  'published': 'Published',
+  'archived': 'Archived'
+};
+
+/**
+ * What a recipe's publication means right now: the workflow state, with published
+ * split by its date window
+ */
+export type PublicationStatus = 'draft' | 'in-review' | 'scheduled' | 'live' | 'expired' | 'archived';
+
+export const PUBLICATION_STATUSES: PublicationStatus[] = ['live', 'scheduled', 'expired', 'in-review', 'draft', 'archived'];
+
+export const PUBLICATION_STATUS_LABELS: Record<PublicationStatus, string> = {
+  'draft': 'Draft',
+  'in-review': 'In review',
+  'scheduled': 'Scheduled',
+  'live': 'Live',
+  'expired': 'Expired',
+  'archived': 'Archived'
+};
+
+/**
+ * Recipes without an index.json entry (e.g. newly created) are exported as published
+ */
+export const DEFAULT_PUBLICATION: RecipePublication = { state: 'published' };
+
+/**
+ * Publication fields of an index.json entry, as written by any version of the editor
+ */
+export interface PublicationIndexFields {
+  active?: boolean;
+  state?: string;
+  publishAt?: string;
+  unpublishAt?: string;
+}
+
+export function isPublicationState(value: unknown): value is PublicationState {
+  return PUBLICATION_STATES.includes(value as PublicationState);
+}
+
+/**
+ * Publication of an index.json entry. Entries written before publication states
+ * only have `active`, which maps to published or draft.
+ */
+export function getIndexPublication(entry: PublicationIndexFields): RecipePublication {
+  const state = isPublicationState(entry.state)
+    ? entry.state
+    : entry.active === false ? 'draft' : 'published';
+
+  return {
+    state,
+    ...(parseDate(entry.publishAt) ? { publishAt: entry.publishAt } : {}),
+    ...(parseDate(entry.unpublishAt) ? { unpublishAt: entry.unpublishAt } : {})
+  };
+}
+
+/**
+ * index.json fields for a publication. `active` is kept for readers that predate states.
+ */
+export function toIndexPublicationFields(publication: RecipePublication): RecipePublication & { active: boolean } {
+  return {
+    active: publication.state === 'published',
+    state: publication.state,
+    ...(publication.publishAt ? { publishAt: publication.publishAt } : {}),
+    ...(publication.unpublishAt ? { unpublishAt: publication.unpublishAt } : {})
+  };
+}
+
+export function getPublicationStatus(publication: RecipePublication, now: Date = new Date()): PublicationStatus {
+  if (publication.state !== 'published') {
+    return publication.state;
+  }
+
+  const publishAt = parseDate(publication.publishAt);
+  const unpublishAt = parseDate(publication.unpublishAt);
+
+  if (publishAt && now < publishAt) return 'scheduled';
+  if (unpublishAt && now >= unpublishAt) return 'expired';
+  return 'live';
+}
+
+/**
+ * Whether the site shows the recipe at the given time
+ */
+export function isPublicationLive(publication: RecipePublication, now: Date = new Date()): boolean {
+  return getPublicationStatus(publication, now) === 'live';
+}
+
+/**
+ * Problem with a publication's date window, or null if there is none
+ */
+export function getScheduleError(publication: RecipePublication): string | null {
+  const publishAt = parseDate(publication.publishAt);
+  const unpublishAt = parseDate(publication.unpublishAt);
+
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return 'Unpublish date must be after the publish date';
+  }
+  return null;
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
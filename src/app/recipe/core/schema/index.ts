@@ -0,0 +1,7 @@
+/**
+ * Recipe Schema Module
+ * Versioned recipe.json schema and the migration pipeline that upgrades older files
+ */
+export * from './schema-validator';
+export * from './recipe.schema';
+export * from './recipe.migrations';
@@ -0,0 +1,77 @@
+import { RECIPE_SCHEMA_VERSION } from '../constants/recipe.constants';
+import { RecipeData } from '../models/recipe.model';
+import { getRecipeSchemaVersion, migrateRecipe } from './recipe.migrations';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+describe('migrateRecipe', () => {
+  it('should upgrade an unversioned recipe to the current version', () => {
+    const result = migrateRecipe({
+      id: 'legacy',
+      title: 'Legacy Recipe',
+      category: 'Batch',
+      walkthrough: [{ step: 'Create the pipeline' }]
+    });
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(RECIPE_SCHEMA_VERSION);
+    expect(result.applied.length).toBe(2);
+    expect(result.recipe.schemaVersion).toBe(RECIPE_SCHEMA_VERSION);
+    expect(result.recipe.category).toEqual(['Batch']);
+    expect(result.recipe.keywords).toEqual([]);
+    expect(result.recipe.overview).toBe('');
+    expect(result.recipe.walkthrough[0]).toEqual({ step: 'Create the pipeline', config: [], media: [] });
+  });
+
+  it('should keep existing values while filling defaults', () => {
+    const result = migrateRecipe({
+      id: 'partial',
+      title: 'Partial',
+      category: [],
+      overview: 'Existing overview',
+      keywords: ['soql'],
+      walkthrough: [{ step: 'Run it', config: [{ field: 'Name', value: 'x' }] }]
+    });
+
+    expect(result.recipe.overview).toBe('Existing overview');
+    expect(result.recipe.keywords).toEqual(['soql']);
+    expect(result.recipe.walkthrough[0].config).toEqual([{ field: 'Name', value: 'x' }]);
+  });
+
+  it('should turn an empty category string into an empty array', () => {
+    expect(migrateRecipe({ schemaVersion: 1, category: '' }).recipe.category).toEqual([]);
+  });
+
+  it('should apply nothing to a recipe at the current version', () => {
+    const recipe: RecipeData = { ...createRecipe(), schemaVersion: RECIPE_SCHEMA_VERSION };
+    const result = migrateRecipe(recipe);
+
+    expect(result.applied).toEqual([]);
+    expect(result.recipe).toEqual(recipe);
+  });
+
+  it('should not modify the input', () => {
+    const raw = { id: 'legacy', category: 'Batch' };
+    migrateRecipe(raw);
+
+    expect(raw).toEqual({ id: 'legacy', category: 'Batch' });
+  });
+
+  it('should reject a recipe from a newer schema version', () => {
+    expect(() => migrateRecipe({ schemaVersion: RECIPE_SCHEMA_VERSION + 1 }))
+      .toThrowError(/newer than the supported version/);
+  });
+
+  it('should reject input that is not an object', () => {
+    expect(() => migrateRecipe(null)).toThrowError('Recipe must be a JSON object');
+    expect(() => migrateRecipe([])).toThrowError('Recipe must be a JSON object');
+  });
+});
+
+describe('getRecipeSchemaVersion', () => {
+  it('should treat a missing or non-integer version as 0', () => {
+    expect(getRecipeSchemaVersion({})).toBe(0);
+    expect(getRecipeSchemaVersion({ schemaVersion: '2' })).toBe(0);
+    expect(getRecipeSchemaVersion({ schemaVersion: 1.5 })).toBe(0);
+    expect(getRecipeSchemaVersion({ schemaVersion: 2 })).toBe(2);
+  });
+});
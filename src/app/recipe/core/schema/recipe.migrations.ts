@@ -0,0 +1,121 @@
+import { RecipeData } from '../models/recipe.model';
+import { RECIPE_SCHEMA_VERSION } from '../constants/recipe.constants';
+
+type RawRecipe = Record<string, any>;
+
+export interface RecipeMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(recipe: RawRecipe): RawRecipe;
+}
+
+export interface MigrationResult {
+  recipe: RecipeData;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+const ARRAY_FIELDS = [
+  'DSPVersions',
+  'generalImages',
+  'prerequisites',
+  'walkthrough',
+  'verificationGIF',
+  'downloadableExecutables',
+  'relatedRecipes',
+  'keywords'
+];
+
+const STRING_FIELDS = ['overview', 'generalUseCase', 'pipeline', 'direction', 'connection'];
+
+/**
+ * Ordered upgrade steps. Each step receives a recipe at `from` and returns it at `to`;
+ * add a new entry (and bump RECIPE_SCHEMA_VERSION) whenever the recipe.json format changes.
+ */
+export const RECIPE_MIGRATIONS: RecipeMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Fill missing collections and text fields with empty defaults',
+    migrate: recipe => {
+      const upgraded: RawRecipe = { ...recipe };
+      ARRAY_FIELDS.forEach(field => {
+        if (upgraded[field] === undefined || upgraded[field] === null) {
+          upgraded[field] = [];
+        }
+      });
+      STRING_FIELDS.forEach(field => {
+        if (upgraded[field] === undefined || upgraded[field] === null) {
+          upgraded[field] = '';
+        }
+      });
+      if (Array.isArray(upgraded['walkthrough'])) {
+        upgraded['walkthrough'] = upgraded['walkthrough'].map((step: RawRecipe) => ({
+          ...step,
+          config: step?.['config'] ?? [],
+          media: step?.['media'] ?? []
+        }));
+      }
+      return upgraded;
+    }
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Convert single-string category to a category array',
+    migrate: recipe => {
+      const category = recipe['category'];
+      if (typeof category === 'string') {
+        return { ...recipe, category: category ? [category] : [] };
+      }
+      return recipe;
+    }
+  }
+];
+
+export function getRecipeSchemaVersion(recipe: RawRecipe): number {
+  const version = recipe?.['schemaVersion'];
+  return typeof version === 'number' && Number.isInteger(version) ? version : 0;
+}
+
+/**
+ * Upgrade a parsed recipe.json to the current schema version, one step at a time.
+ * Throws if the file declares a version newer than this build understands.
+ */
+export function migrateRecipe(raw: unknown): MigrationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Recipe must be a JSON object');
+  }
+
+  const fromVersion = getRecipeSchemaVersion(raw as RawRecipe);
+  if (fromVersion > RECIPE_SCHEMA_VERSION) {
+    throw new Error(
+      `Recipe schema version ${fromVersion} is newer than the supported version ${RECIPE_SCHEMA_VERSION}`
+    );
+  }
+
+  const applied: string[] = [];
+  let recipe: RawRecipe = raw as RawRecipe;
+  let version = fromVersion;
+
+  while (version < RECIPE_SCHEMA_VERSION) {
+    const migration = RECIPE_MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration registered from recipe schema version ${version}`);
+    }
+    recipe = migration.migrate(recipe);
+    applied.push(`v${migration.from} → v${migration.to}: ${migration.description}`);
+    version = migration.to;
+  }
+
+  const { schemaVersion: _previous, ...content } = recipe;
+
+  return {
+    recipe: { schemaVersion: RECIPE_SCHEMA_VERSION, ...content } as RecipeData,
+    fromVersion,
+    toVersion: RECIPE_SCHEMA_VERSION,
+    applied
+  };
+}
@@ -0,0 +1,137 @@
+import { JsonSchema } from './schema-validator';
+import { RECIPE_CATEGORIES, RECIPE_SCHEMA_VERSION } from '../constants/recipe.constants';
+
+const mediaItemSchema = (types?: string[]): JsonSchema => ({
+  type: 'object',
+  required: ['type', 'url', 'alt'],
+  properties: {
+    type: types ? { type: 'string', enum: types } : { type: 'string' },
+    url: { type: 'string' },
+    alt: { type: 'string' }
+  }
+});
+
+const annotationSchema: JsonSchema = {
+  type: 'object',
+  required: ['type', 'x', 'y'],
+  properties: {
+    type: { type: 'string', enum: ['arrow', 'rect', 'callout', 'blur', 'text'] },
+    x: { type: 'number', minimum: 0 },
+    y: { type: 'number', minimum: 0 },
+    x2: { type: 'number', minimum: 0 },
+    y2: { type: 'number', minimum: 0 },
+    text: { type: 'string' },
+    color: { type: 'string' }
+  }
+};
+
+const stepMediaSchema: JsonSchema = {
+  ...mediaItemSchema(),
+  properties: {
+    ...mediaItemSchema().properties,
+    annotations: { type: 'array', items: annotationSchema },
+    flattenAnnotations: { type: 'boolean' }
+  }
+};
+
+const linkSchema: JsonSchema = {
+  type: 'object',
+  required: ['title', 'url'],
+  properties: {
+    title: { type: 'string' },
+    url: { type: 'string' }
+  }
+};
+
+/**
+ * JSON Schema for assets/recipes/<folder>/recipe.json at the current schema version.
+ * Older files are upgraded by the migration pipeline before being checked against it.
+ */
+export const RECIPE_JSON_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `https://www.data-sync-pro.io/schemas/recipe.v${RECIPE_SCHEMA_VERSION}.json`,
+  title: 'Data Sync Pro Recipe',
+  type: 'object',
+  required: [
+    'schemaVersion',
+    'id',
+    'title',
+    'category',
+    'DSPVersions',
+    'overview',
+    'generalImages',
+    'prerequisites',
+    'pipeline',
+    'direction',
+    'connection',
+    'walkthrough',
+    'verificationGIF',
+    'downloadableExecutables',
+    'relatedRecipes',
+    'keywords'
+  ],
+  properties: {
+    schemaVersion: { type: 'integer', enum: [RECIPE_SCHEMA_VERSION] },
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string', minLength: 1 },
+    category: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', enum: RECIPE_CATEGORIES }
+    },
+    DSPVersions: { type: 'array', items: { type: 'string' } },
+    overview: { type: 'string' },
+    generalUseCase: { type: 'string' },
+    generalImages: { type: 'array', items: mediaItemSchema(['image', 'video', 'gif']) },
+    prerequisites: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['description', 'quickLinks'],
+        properties: {
+          description: { type: 'string' },
+          quickLinks: { type: 'array', items: linkSchema }
+        }
+      }
+    },
+    pipeline: { type: 'string' },
+    direction: { type: 'string' },
+    connection: { type: 'string' },
+    walkthrough: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['step', 'config', 'media'],
+        properties: {
+          step: { type: 'string', minLength: 1 },
+          config: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['field', 'value'],
+              properties: {
+                field: { type: 'string' },
+                value: { type: 'string' }
+              }
+            }
+          },
+          media: { type: 'array', items: stepMediaSchema }
+        }
+      }
+    },
+    verificationGIF: { type: 'array', items: mediaItemSchema(['video', 'gif']) },
+    downloadableExecutables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          url: { type: 'string' },
+          filePath: { type: 'string' }
+        }
+      }
+    },
+    relatedRecipes: { type: 'array', items: linkSchema },
+    keywords: { type: 'array', items: { type: 'string' } }
+  }
+};
@@ -0,0 +1,113 @@
+/**
+ * Minimal JSON Schema validator
+ * Supports the subset of draft-07 keywords used by the recipe schema
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const label = path || 'recipe';
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(value, type))) {
+      violations.push({ path: label, message: `Expected ${allowed.join(' or ')}, got ${describeType(value)}` });
+      return violations;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    violations.push({ path: label, message: `Value "${String(value)}" is not one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      violations.push({ path: label, message: 'Value must not be empty' });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      violations.push({ path: label, message: `Value does not match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    violations.push({ path: label, message: `Value must be at least ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path: label, message: `Expected at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    (schema.required || []).forEach(key => {
+      if (!(key in value) || value[key] === undefined) {
+        violations.push({ path: joinPath(path, key), message: 'Required property is missing' });
+      }
+    });
+
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (value[key] !== undefined) {
+        violations.push(...validateAgainstSchema(value[key], propertySchema, joinPath(path, key)));
+      }
+    });
+  }
+
+  return violations;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
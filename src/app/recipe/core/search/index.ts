@@ -0,0 +1,6 @@
+/**
+ * Recipe Search Module
+ * Tokenizer and BM25 inverted index used by the core SearchService
+ */
+export * from './tokenizer';
+export * from './recipe-search-index';
@@ -0,0 +1,101 @@
+import { RecipeSearchIndex } from './recipe-search-index';
+import { stem, tokenize } from './tokenizer';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+describe('tokenize', () => {
+  it('should drop stop words and stem the rest', () => {
+    expect(tokenize('Closing the Opportunities')).toEqual(['clos', 'opportunity']);
+  });
+
+  it('should keep dotted identifiers alongside their parts', () => {
+    expect(tokenize('Account.Triggers')).toEqual(['account.triggers', 'account', 'trigger']);
+  });
+
+  it('should split camelCase names and keep the whole name', () => {
+    expect(tokenize('OpenOpportunities')).toEqual(['openopportunities', 'open', 'opportunity']);
+  });
+});
+
+describe('stem', () => {
+  it('should leave short words and words with digits alone', () => {
+    expect(stem('bus')).toBe('bus');
+    expect(stem('v2items')).toBe('v2items');
+  });
+
+  it('should strip plurals and verb endings', () => {
+    expect(stem('queries')).toBe('query');
+    expect(stem('running')).toBe('run');
+    expect(stem('classes')).toBe('class');
+  });
+});
+
+describe('RecipeSearchIndex', () => {
+  let index: RecipeSearchIndex;
+
+  beforeEach(() => {
+    index = new RecipeSearchIndex();
+    index.add(createRecipe({ id: 'title-match', title: 'Close Opportunities' }));
+    index.add(createRecipe({ id: 'overview-match', title: 'Update Cases', overview: 'Also touches opportunities' }));
+    index.add(createRecipe({
+      id: 'config-match',
+      title: 'Assign Owners',
+      walkthrough: [{ step: 'Configure', config: [{ field: 'Object', value: 'Lead' }], media: [] }]
+    }));
+  });
+
+  it('should rank a title match above an overview match', () => {
+    const results = index.search('opportunities');
+
+    expect(results.map(result => result.recipeId)).toEqual(['title-match', 'overview-match']);
+    expect(results[0].matchedFields).toEqual(['title']);
+    expect(results[1].matchedFields).toEqual(['overview']);
+  });
+
+  it('should find step config values', () => {
+    const results = index.search('lead');
+
+    expect(results.map(result => result.recipeId)).toEqual(['config-match']);
+    expect(results[0].matchedFields).toEqual(['config']);
+  });
+
+  it('should match term prefixes below exact matches', () => {
+    index.add(createRecipe({ id: 'exact', title: 'Case' }));
+
+    const results = index.search('cas');
+    expect(results.map(result => result.recipeId)).toContain('overview-match');
+
+    const exact = index.search('case');
+    expect(exact[0].recipeId).toBe('exact');
+  });
+
+  it('should favour recipes that match every query term', () => {
+    const results = index.search('close cases');
+
+    expect(results.map(result => result.recipeId)).toEqual(
+      jasmine.arrayWithExactContents(['title-match', 'overview-match'])
+    );
+
+    index.add(createRecipe({ id: 'both', title: 'Close Cases' }));
+    expect(index.search('close cases')[0].recipeId).toBe('both');
+  });
+
+  it('should drop a removed recipe from results', () => {
+    index.remove('title-match');
+
+    expect(index.has('title-match')).toBeFalse();
+    expect(index.size).toBe(2);
+    expect(index.search('opportunities').map(result => result.recipeId)).toEqual(['overview-match']);
+  });
+
+  it('should replace a recipe that is added again', () => {
+    index.add(createRecipe({ id: 'title-match', title: 'Merge Accounts' }));
+
+    expect(index.size).toBe(3);
+    expect(index.search('opportunities').map(result => result.recipeId)).toEqual(['overview-match']);
+    expect(index.search('merge').map(result => result.recipeId)).toEqual(['title-match']);
+  });
+
+  it('should return nothing for a query of stop words', () => {
+    expect(index.search('the and of')).toEqual([]);
+  });
+});
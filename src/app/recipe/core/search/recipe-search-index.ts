@@ -0,0 +1,230 @@
+import { Recipe } from '../models/recipe.model';
+import { tokenize } from './tokenizer';
+
+export type SearchField =
+  | 'title'
+  | 'keywords'
+  | 'category'
+  | 'overview'
+  | 'generalUseCase'
+  | 'prerequisites'
+  | 'integration'
+  | 'steps'
+  | 'config'
+  | 'executables';
+
+/**
+ * Relative importance of each field when scoring a match
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  keywords: 2.5,
+  integration: 2,
+  category: 1.5,
+  steps: 1.5,
+  config: 1.5,
+  executables: 1.5,
+  overview: 1,
+  generalUseCase: 1,
+  prerequisites: 0.8
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PREFIX_MATCH_FACTOR = 0.6;
+const MIN_PREFIX_LENGTH = 2;
+
+interface IndexedDocument {
+  recipeId: string;
+  fieldLengths: Map<SearchField, number>;
+}
+
+type Postings = Map<string, Map<SearchField, number>>;
+
+export interface IndexMatch {
+  recipeId: string;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+/**
+ * Inverted index over recipe content ranked with BM25F: per-field term frequencies are
+ * length-normalised, weighted by field and saturated once per term.
+ */
+export class RecipeSearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Postings>();
+  private fieldLengthTotals = new Map<SearchField, number>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(recipeId: string): boolean {
+    return this.documents.has(recipeId);
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.fieldLengthTotals.clear();
+  }
+
+  add(recipe: Recipe): void {
+    if (this.documents.has(recipe.id)) {
+      this.remove(recipe.id);
+    }
+
+    const fieldLengths = new Map<SearchField, number>();
+
+    Object.entries(this.extractFields(recipe)).forEach(([field, text]) => {
+      const searchField = field as SearchField;
+      const terms = tokenize(text);
+      fieldLengths.set(searchField, terms.length);
+      this.fieldLengthTotals.set(searchField, (this.fieldLengthTotals.get(searchField) || 0) + terms.length);
+
+      terms.forEach(term => {
+        let termPostings = this.postings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          this.postings.set(term, termPostings);
+        }
+        let fieldCounts = termPostings.get(recipe.id);
+        if (!fieldCounts) {
+          fieldCounts = new Map();
+          termPostings.set(recipe.id, fieldCounts);
+        }
+        fieldCounts.set(searchField, (fieldCounts.get(searchField) || 0) + 1);
+      });
+    });
+
+    this.documents.set(recipe.id, { recipeId: recipe.id, fieldLengths });
+  }
+
+  remove(recipeId: string): void {
+    const document = this.documents.get(recipeId);
+    if (!document) return;
+
+    document.fieldLengths.forEach((length, field) => {
+      this.fieldLengthTotals.set(field, (this.fieldLengthTotals.get(field) || 0) - length);
+    });
+
+    this.postings.forEach((termPostings, term) => {
+      termPostings.delete(recipeId);
+      if (termPostings.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.documents.delete(recipeId);
+  }
+
+  search(query: string): IndexMatch[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const scores = new Map<string, { score: number; matchedTerms: number; fields: Set<SearchField> }>();
+
+    queryTerms.forEach(queryTerm => {
+      const termScores = new Map<string, { score: number; fields: Set<SearchField> }>();
+
+      this.expandTerm(queryTerm).forEach(({ term, factor }) => {
+        const termPostings = this.postings.get(term);
+        if (!termPostings) return;
+
+        const idf = this.inverseDocumentFrequency(termPostings.size);
+
+        termPostings.forEach((fieldCounts, recipeId) => {
+          const weightedFrequency = this.weightedTermFrequency(recipeId, fieldCounts);
+          const score = factor * idf * (weightedFrequency * (BM25_K1 + 1)) / (weightedFrequency + BM25_K1);
+
+          const current = termScores.get(recipeId);
+          if (!current || score > current.score) {
+            termScores.set(recipeId, { score, fields: new Set(fieldCounts.keys()) });
+          }
+        });
+      });
+
+      termScores.forEach(({ score, fields }, recipeId) => {
+        const entry = scores.get(recipeId) || { score: 0, matchedTerms: 0, fields: new Set<SearchField>() };
+        entry.score += score;
+        entry.matchedTerms++;
+        fields.forEach(field => entry.fields.add(field));
+        scores.set(recipeId, entry);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .map(([recipeId, entry]) => ({
+        recipeId,
+        // Favour documents that match more of the query terms
+        score: entry.score * (entry.matchedTerms / queryTerms.length),
+        matchedFields: Array.from(entry.fields)
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private expandTerm(queryTerm: string): { term: string; factor: number }[] {
+    const expansions = [{ term: queryTerm, factor: 1 }];
+
+    if (queryTerm.length >= MIN_PREFIX_LENGTH) {
+      this.postings.forEach((_, term) => {
+        if (term !== queryTerm && term.startsWith(queryTerm)) {
+          expansions.push({ term, factor: PREFIX_MATCH_FACTOR });
+        }
+      });
+    }
+
+    return expansions;
+  }
+
+  private inverseDocumentFrequency(documentFrequency: number): number {
+    const total = this.documents.size;
+    return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private weightedTermFrequency(recipeId: string, fieldCounts: Map<SearchField, number>): number {
+    const document = this.documents.get(recipeId);
+    if (!document) return 0;
+
+    let weighted = 0;
+    fieldCounts.forEach((count, field) => {
+      const length = document.fieldLengths.get(field) || 0;
+      const averageLength = (this.fieldLengthTotals.get(field) || 0) / this.documents.size || 1;
+      const normalization = 1 - BM25_B + BM25_B * (length / averageLength);
+      weighted += SEARCH_FIELD_WEIGHTS[field] * count / normalization;
+    });
+    return weighted;
+  }
+
+  private extractFields(recipe: Recipe): Record<SearchField, string> {
+    const walkthrough = recipe.walkthrough || [];
+
+    return {
+      title: recipe.title || '',
+      keywords: (recipe.keywords || []).join(' '),
+      category: (recipe.category || []).join(' '),
+      overview: recipe.overview || '',
+      generalUseCase: recipe.generalUseCase || '',
+      prerequisites: (recipe.prerequisites || [])
+        .map(prereq => [prereq.description, ...(prereq.quickLinks || []).map(link => link.title)].join(' '))
+        .join(' '),
+      integration: [recipe.pipeline, recipe.direction, recipe.connection].filter(Boolean).join(' '),
+      steps: walkthrough.map(step => step.step).join(' '),
+      config: walkthrough
+        .flatMap(step => step.config || [])
+        .map(config => `${config.field} ${config.value}`)
+        .join(' '),
+      executables: (recipe.downloadableExecutables || [])
+        .map(executable => [executable.title, this.fileNameOf(executable.filePath || executable.url)].join(' '))
+        .join(' ')
+    };
+  }
+
+  private fileNameOf(path: string | undefined): string {
+    if (!path) return '';
+    return (path.split('/').pop() || '').replace(/\.json$/i, '');
+  }
+}
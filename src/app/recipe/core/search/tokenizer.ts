@@ -0,0 +1,91 @@
+/**
+ * Tokenization and stemming for the recipe search index
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into',
+  'is', 'it', 'of', 'on', 'or', 'so', 'that', 'the', 'then', 'this', 'to', 'with'
+]);
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Light suffix-stripping stemmer: plurals, -ing/-ed, trailing e and doubled consonants.
+ * Deliberately conservative so identifiers like "Trigger" and "Batchable" stay recognisable.
+ */
+export function stem(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) {
+    return token;
+  }
+
+  let word = token;
+
+  if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('ies')) {
+    word = word.slice(0, -3) + 'y';
+  } else if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us') && !word.endsWith('is')) {
+    word = word.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed']) {
+    const base = word.slice(0, -suffix.length);
+    if (word.endsWith(suffix) && base.length >= 3 && VOWEL.test(base)) {
+      word = base;
+      if (/([^aeiouslz])\1$/.test(word)) {
+        word = word.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  if (word.length > 4 && word.endsWith('e')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+function splitCamelCase(word: string): string[] {
+  return word
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(' ');
+}
+
+/**
+ * Split text into index terms. Dotted identifiers such as "Account.Triggers" are kept
+ * as a whole term alongside their parts, and camelCase names are split into words.
+ */
+export function tokenize(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+
+  const terms: string[] = [];
+  const rawTokens = text.match(/[A-Za-z0-9_]+(?:\.[A-Za-z0-9_]+)*/g) || [];
+
+  rawTokens.forEach(raw => {
+    if (raw.includes('.')) {
+      terms.push(raw.toLowerCase());
+    }
+
+    raw.split(/[._]/).forEach(part => {
+      if (!part) return;
+
+      const words = splitCamelCase(part);
+      if (words.length > 1) {
+        terms.push(part.toLowerCase());
+      }
+
+      words.forEach(word => {
+        const lower = word.toLowerCase();
+        if (lower && !STOP_WORDS.has(lower)) {
+          terms.push(stem(lower));
+        }
+      });
+    });
+  });
+
+  return terms;
+}
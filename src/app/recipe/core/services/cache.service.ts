@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { shareReplay } from 'rxjs/operators';
-import { Recipe, RecipeData } from '../models/recipe.model';
+import { Recipe, RecipeData, RecipeProgress } from '../models/recipe.model';
 import { UnifiedStorageService, StorageType } from '../storage/unified-storage.service';
 import { LoggerService } from './logger.service';
 import { SafeHtml } from '@angular/platform-browser';
@@ -196,16 +196,23 @@ export class CacheService {
     this.logger.info('All caches cleared');
   }
 
-  async saveProgress(recipeId: string, progress: any): Promise<void> {
+  async saveProgress(
+    recipeId: string,
+    progress: Pick<RecipeProgress, 'completedSteps' | 'totalSteps'>
+  ): Promise<void> {
     try {
-      const allProgress = await this.storage.getLocal<Record<string, any>>(
-        this.STORAGE_KEY_RECIPE_PROGRESS
-      ) || {};
+      const allProgress = await this.loadAllProgress();
 
-      allProgress[recipeId] = {
-        ...progress,
-        timestamp: Date.now()
-      };
+      if (progress.completedSteps.length === 0) {
+        delete allProgress[recipeId];
+      } else {
+        allProgress[recipeId] = {
+          recipeId,
+          completedSteps: [...progress.completedSteps].sort((a, b) => a - b),
+          totalSteps: progress.totalSteps,
+          timestamp: Date.now()
+        };
+      }
 
       await this.storage.setLocal(this.STORAGE_KEY_RECIPE_PROGRESS, allProgress);
       this.logger.debug('Recipe progress saved', { recipeId });
@@ -214,12 +221,9 @@ export class CacheService {
     }
   }
 
-  async getProgress(recipeId: string): Promise<any | null> {
+  async getProgress(recipeId: string): Promise<RecipeProgress | null> {
     try {
-      const allProgress = await this.storage.getLocal<Record<string, any>>(
-        this.STORAGE_KEY_RECIPE_PROGRESS
-      ) || {};
-
+      const allProgress = await this.loadAllProgress();
       return allProgress[recipeId] || null;
     } catch (error) {
       this.logger.error('Failed to get recipe progress', error);
@@ -227,6 +231,40 @@ export class CacheService {
     }
   }
 
+  /**
+   * All stored progress, most recently updated first
+   */
+  async getAllProgress(): Promise<RecipeProgress[]> {
+    try {
+      const allProgress = await this.loadAllProgress();
+      return Object.values(allProgress).sort((a, b) => b.timestamp - a.timestamp);
+    } catch (error) {
+      this.logger.error('Failed to get recipe progress', error);
+      return [];
+    }
+  }
+
+  private async loadAllProgress(): Promise<Record<string, RecipeProgress>> {
+    const stored = await this.storage.getLocal<Record<string, Partial<RecipeProgress>>>(
+      this.STORAGE_KEY_RECIPE_PROGRESS
+    ) || {};
+
+    // Drop entries that do not have the RecipeProgress shape
+    const allProgress: Record<string, RecipeProgress> = {};
+    Object.entries(stored).forEach(([recipeId, progress]) => {
+      if (Array.isArray(progress?.completedSteps) && typeof progress.totalSteps === 'number') {
+        allProgress[recipeId] = {
+          recipeId,
+          completedSteps: progress.completedSteps,
+          totalSteps: progress.totalSteps,
+          timestamp: progress.timestamp || 0
+        };
+      }
+    });
+
+    return allProgress;
+  }
+
   getCacheStats(): {
     recipeCount: number;
     contentCacheSize: number;
@@ -3,8 +3,10 @@ import { HttpClient } from '@angular/common/http';
 import { Observable, of, combineLatest } from 'rxjs';
 import { map, catchError, switchMap } from 'rxjs/operators';
 import { LoggerService } from './logger.service';
+import { SchemaService } from './schema.service';
 import { RecipeData, RecipeIndexItem } from '../models/recipe.model';
 import { RECIPE_PATHS } from '../constants/recipe.constants';
+import { getIndexPublication, isPublicationLive } from '../publication';
 
 interface RecipeDataWithMetadata extends RecipeData {
   __folderId?: string;
@@ -18,7 +20,8 @@ export class DataService {
 
   constructor(
     private http: HttpClient,
-    private logger: LoggerService
+    private logger: LoggerService,
+    private schemaService: SchemaService
   ) {}
 
   loadAllRecipes(): Observable<RecipeData[]> {
@@ -31,9 +34,33 @@ export class DataService {
     );
   }
 
+  /**
+   * Every recipe in index.json, whatever its publication, for the editor
+   */
+  loadIndexedRecipes(): Observable<{ indexItems: RecipeIndexItem[]; recipes: RecipeData[] }> {
+    return this.loadFullRecipeIndex().pipe(
+      switchMap(indexItems => this.loadRecipesBatch(indexItems).pipe(
+        map(recipes => ({ indexItems, recipes }))
+      ))
+    );
+  }
+
+  /**
+   * Index entries live right now. Scheduled recipes appear on their publish date
+   * and disappear on their unpublish date without a redeploy.
+   */
   loadRecipeIndex(): Observable<RecipeIndexItem[]> {
+    return this.loadFullRecipeIndex().pipe(
+      map(indexItems => {
+        const now = new Date();
+        return indexItems.filter(item => isPublicationLive(getIndexPublication(item), now));
+      })
+    );
+  }
+
+  loadFullRecipeIndex(): Observable<RecipeIndexItem[]> {
     return this.http.get<{ recipes: RecipeIndexItem[] }>(this.RECIPE_INDEX_URL).pipe(
-      map(indexConfig => indexConfig.recipes.filter(item => item.active)),
+      map(indexConfig => indexConfig.recipes || []),
       catchError(error => {
         this.logger.error('Failed to load recipe index', error);
         return of([]);
@@ -65,7 +92,14 @@ export class DataService {
   loadSingleRecipe(folderId: string): Observable<RecipeData | null> {
     const url = `${RECIPE_PATHS.RECIPE_FOLDERS_BASE}${folderId}/recipe.json`;
 
-    return this.http.get<RecipeData>(url).pipe(
+    return this.http.get<unknown>(url).pipe(
+      map(raw => {
+        const result = this.schemaService.upgrade(raw, folderId);
+        if (result.violations.length > 0) {
+          this.logger.warn(`Recipe in folder ${folderId} does not match the recipe schema`, result.violations);
+        }
+        return result.recipe;
+      }),
       catchError(error => {
         this.logger.warn(`Failed to load recipe from folder ${folderId}`, error);
         return of(null);
@@ -1,12 +1,25 @@
 import { Injectable } from '@angular/core';
-import { RecipeData } from '../models/recipe.model';
+import { firstValueFrom } from 'rxjs';
+import { RecipeData, RecipePublication } from '../models/recipe.model';
 import { FileStorageAdapter } from '../storage';
 import { NotificationService } from '../../../shared/services/notification.service';
 import { LoggerService } from './logger.service';
-import { FileResolverService } from './file-resolver.service';
-import { RecipeIndexEntry, ProgressCallback } from './io.types';
+import { FileResolverService, RecipeDataWithMetadata } from './file-resolver.service';
+import { SchemaService } from './schema.service';
+import { DataService } from './data.service';
+import { RecipeIndexEntry, RecipeIndexChange, ProgressCallback, DirectoryExportPlan } from './io.types';
 import JSZip from 'jszip';
 import { generateFolderName, cleanRecipeForStorage } from '../utils';
+import { DEFAULT_PUBLICATION, getIndexPublication, toIndexPublicationFields } from '../publication';
+import { flattenAnnotations, getFlattenedAnnotations, stripFlattenedAnnotations } from '../annotations';
+import {
+  ExportFile,
+  isDirectoryAccessSupported,
+  pickWritableDirectory,
+  planExportFiles,
+  readFileAt,
+  writeFileAt
+} from '../file-system';
 
 @Injectable({
   providedIn: 'root'
@@ -16,7 +29,9 @@ export class ExportService {
   constructor(
     private notificationService: NotificationService,
     private logger: LoggerService,
-    private fileResolver: FileResolverService
+    private fileResolver: FileResolverService,
+    private schemaService: SchemaService,
+    private dataService: DataService
   ) {}
 
   /**
@@ -71,7 +86,7 @@ export class ExportService {
 
   async exportSingleRecipe(recipe: RecipeData): Promise<void> {
     try {
-      const cleanedRecipe = cleanRecipeForStorage(recipe);
+      const cleanedRecipe = this.toCurrentSchema(cleanRecipeForStorage(recipe));
       const jsonString = JSON.stringify(cleanedRecipe, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
       const filename = `${cleanedRecipe.id || 'recipe'}.json`;
@@ -89,180 +104,260 @@ export class ExportService {
     fileStorage: FileStorageAdapter,
     allRecipesForIndex?: RecipeData[],
     onProgress?: ProgressCallback,
-    recipeActiveStates?: Map<string, boolean>
+    recipePublications?: Map<string, RecipePublication>
   ): Promise<void> {
     try {
       if (typeof JSZip === 'undefined') {
         throw new Error('JSZip library not available');
       }
 
+      // The deployed index.json is the base, so entries of recipes not loaded here are kept
+      const existingIndex = await firstValueFrom(this.dataService.loadFullRecipeIndex());
+      const indexRecipes = allRecipesForIndex || recipes;
+      const folderIds = this.assignFolderIds(indexRecipes, existingIndex);
+      const indexEntries = this.generateRecipeIndex(indexRecipes, folderIds, recipePublications, existingIndex);
+
+      const files = await this.collectExportFiles(recipes, fileStorage, folderIds, indexEntries, onProgress);
+
       const zip = new JSZip();
-      let processedCount = 0;
+      files.forEach(file => zip.file(file.path, file.content));
+
+      // Every recipe has been processed by now
       const totalSteps = recipes.length * 2;
+      const updateProgress = (step: string) => onProgress?.({ step, current: totalSteps, total: totalSteps });
 
-      const updateProgress = (step: string) => {
-        if (onProgress) {
-          onProgress({
-            step,
-            current: processedCount,
-            total: totalSteps
-          });
-        }
-      };
+      updateProgress('Adding deployment instructions...');
+      const instructions = this.generateRecipeUpdateInstructions(recipes);
+      zip.file('DEPLOYMENT_INSTRUCTIONS.txt', instructions);
 
-      const existingFolders = new Set<string>();
-      const recipeFolderMap = new Map<string, string>();
+      updateProgress('Generating ZIP file...');
 
-      recipes.forEach(recipe => {
-        if (recipe.id && recipe.title) {
-          const folderName = generateFolderName(recipe.title, existingFolders);
-          existingFolders.add(folderName);
-          recipeFolderMap.set(recipe.id, folderName);
-        }
+      const zipBlob = await zip.generateAsync({
+        type: 'blob',
+        compression: 'DEFLATE',
+        compressionOptions: { level: 6 }
       });
 
-      for (const recipe of recipes) {
-        if (!recipe.id) continue;
-
-        updateProgress(`Processing recipe: ${recipe.title}`);
-
-        const cleanedRecipe = cleanRecipeForStorage(recipe);
-        const folderName = recipeFolderMap.get(recipe.id) || recipe.id;
-        const recipeFolder = zip.folder(folderName);
-        if (!recipeFolder) continue;
-
-        const recipeJson = JSON.stringify(cleanedRecipe, null, 2);
-        recipeFolder.file('recipe.json', recipeJson);
-        processedCount++;
-
-        updateProgress(`Processing images for: ${recipe.title}`);
-
-        if (recipe.walkthrough) {
-          const imagesFolder = recipeFolder.folder('images');
-
-          for (const step of recipe.walkthrough) {
-            if (step.media) {
-              for (const media of step.media) {
-                if (media.type === 'image') {
-                  const imageInfo = this.extractImageInfo(media.url);
-                  if (imageInfo) {
-                    try {
-                      const imageId = this.fileResolver.extractImageId(imageInfo.imageName);
-
-                      const imageFile = await this.fileResolver.getFileWithFallback(
-                        fileStorage,
-                        imageId,
-                        recipe,
-                        imageInfo.relativePath,
-                        true
-                      );
-
-                      if (imageFile && imagesFolder) {
-                        imagesFolder.file(imageInfo.imageName, imageFile);
-                      }
-                    } catch (error) {
-                      this.logger.warn(`Failed to add image ${media.url}`, error);
+      const timestamp = new Date().toISOString().split('T')[0];
+      const filename = `recipes_export_${timestamp}.zip`;
+
+      this.downloadBlob(zipBlob, filename);
+
+      updateProgress('Export completed!');
+
+      this.notificationService.success(`${recipes.length} edited recipes exported as ZIP with index.json containing ${indexEntries.length} total recipes`);
+
+    } catch (error) {
+      this.logger.error('Error exporting recipes as ZIP', error);
+      this.notificationService.error('Failed to export recipes as ZIP');
+      throw error; // Re-throw to allow caller to handle cleanup
+    }
+  }
+
+  isDirectoryExportSupported(): boolean {
+    return isDirectoryAccessSupported();
+  }
+
+  /**
+   * Let the user pick a checkout's src/assets/recipes directory and work out which
+   * files an export would create or update there. Nothing is written yet. The
+   * checkout's own index.json is merged into, and recipes keep their folders there.
+   *
+   * @returns The plan, or null if the user closed the directory picker
+   */
+  async planDirectoryExport(
+    recipes: RecipeData[],
+    fileStorage: FileStorageAdapter,
+    allRecipesForIndex?: RecipeData[],
+    onProgress?: ProgressCallback,
+    recipePublications?: Map<string, RecipePublication>
+  ): Promise<DirectoryExportPlan | null> {
+    const directory = await pickWritableDirectory('recipe-assets');
+    if (!directory) return null;
+
+    const existingIndex = await this.readDirectoryIndex(directory);
+    const indexRecipes = allRecipesForIndex || recipes;
+    const folderIds = this.assignFolderIds(
+      indexRecipes,
+      existingIndex,
+      await this.findExportedFolders(directory, existingIndex, indexRecipes)
+    );
+    const indexEntries = this.generateRecipeIndex(indexRecipes, folderIds, recipePublications, existingIndex);
+
+    const files = await this.collectExportFiles(recipes, fileStorage, folderIds, indexEntries, onProgress);
+
+    onProgress?.({ step: `Comparing with ${directory.name}...`, current: 0, total: files.length });
+    const plannedFiles = await planExportFiles(directory, files);
+
+    return {
+      directory,
+      files: plannedFiles,
+      recipeCount: recipes.length,
+      indexChanges: this.diffRecipeIndex(existingIndex, indexEntries)
+    };
+  }
+
+  /**
+   * Write the created and updated files of a plan into its directory
+   *
+   * @returns Number of files written
+   */
+  async writeDirectoryExport(plan: DirectoryExportPlan, onProgress?: ProgressCallback): Promise<number> {
+    const changedFiles = plan.files.filter(file => file.status !== 'unchanged');
+
+    try {
+      for (const [index, file] of changedFiles.entries()) {
+        onProgress?.({ step: `Writing ${file.path}`, current: index, total: changedFiles.length });
+        await writeFileAt(plan.directory, file.path, file.content);
+      }
+
+      onProgress?.({ step: 'Export completed!', current: changedFiles.length, total: changedFiles.length });
+      this.notificationService.success(`Wrote ${changedFiles.length} file(s) to ${plan.directory.name}`);
+      return changedFiles.length;
+    } catch (error) {
+      this.logger.error('Error writing recipes to directory', error);
+      this.notificationService.error(`Failed to write recipes to ${plan.directory.name}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Every file of an export (recipe.json, images, executables and index.json),
+   * by its path below the recipes directory
+   */
+  private async collectExportFiles(
+    recipes: RecipeData[],
+    fileStorage: FileStorageAdapter,
+    folderIds: Map<string, string>,
+    indexEntries: RecipeIndexEntry[],
+    onProgress?: ProgressCallback
+  ): Promise<ExportFile[]> {
+    const files: ExportFile[] = [];
+    let processedCount = 0;
+    const totalSteps = recipes.length * 2;
+
+    const updateProgress = (step: string) => {
+      if (onProgress) {
+        onProgress({
+          step,
+          current: processedCount,
+          total: totalSteps
+        });
+      }
+    };
+
+    for (const recipe of recipes) {
+      if (!recipe.id) continue;
+
+      updateProgress(`Processing recipe: ${recipe.title}`);
+
+      const cleanedRecipe = stripFlattenedAnnotations(this.toCurrentSchema(cleanRecipeForStorage(recipe)));
+      const folderName = folderIds.get(recipe.id) || recipe.id;
+
+      const recipeJson = JSON.stringify(cleanedRecipe, null, 2);
+      files.push({ path: `${folderName}/recipe.json`, content: recipeJson });
+      processedCount++;
+
+      updateProgress(`Processing images for: ${recipe.title}`);
+
+      if (recipe.walkthrough) {
+        for (const step of recipe.walkthrough) {
+          if (step.media) {
+            for (const media of step.media) {
+              if (media.type === 'image') {
+                const imageInfo = this.extractImageInfo(media.url);
+                if (imageInfo) {
+                  try {
+                    const imageId = this.fileResolver.extractImageId(imageInfo.imageName);
+
+                    const imageFile = await this.fileResolver.getFileWithFallback(
+                      fileStorage,
+                      imageId,
+                      recipe,
+                      imageInfo.relativePath,
+                      true
+                    );
+
+                    if (imageFile) {
+                      // A failed flatten skips the image rather than shipping unredacted pixels
+                      const annotations = getFlattenedAnnotations(media);
+                      const exportedImage = annotations.length > 0
+                        ? await flattenAnnotations(imageFile, annotations)
+                        : imageFile;
+                      files.push({ path: `${folderName}/images/${imageInfo.imageName}`, content: exportedImage });
                     }
+                  } catch (error) {
+                    this.logger.warn(`Failed to add image ${media.url}`, error);
                   }
                 }
               }
             }
           }
         }
+      }
 
-        if (recipe.generalImages) {
-          const imagesFolder = recipeFolder.folder('images');
+      if (recipe.generalImages) {
+        for (const image of recipe.generalImages) {
+          const imageInfo = this.extractImageInfo(image.url);
+          if (imageInfo) {
+            try {
+              const imageId = this.fileResolver.extractImageId(imageInfo.imageName);
+
+              const imageFile = await this.fileResolver.getFileWithFallback(
+                fileStorage,
+                imageId,
+                recipe,
+                imageInfo.relativePath,
+                true
+              );
+
+              if (imageFile) {
+                files.push({ path: `${folderName}/images/${imageInfo.imageName}`, content: imageFile });
+              }
+            } catch (error) {
+              this.logger.warn(`Failed to add general image ${image.url}`, error);
+            }
+          }
+        }
+      }
 
-          for (const image of recipe.generalImages) {
-            const imageInfo = this.extractImageInfo(image.url);
-            if (imageInfo) {
+      if (recipe.downloadableExecutables && recipe.downloadableExecutables.length > 0) {
+        for (const executable of recipe.downloadableExecutables) {
+          if (executable.filePath) {
+            const execInfo = this.extractExecutableInfo(executable.filePath);
+            if (execInfo) {
               try {
-                const imageId = this.fileResolver.extractImageId(imageInfo.imageName);
-
-                const imageFile = await this.fileResolver.getFileWithFallback(
+                const jsonFile = await this.fileResolver.getFileWithFallback(
                   fileStorage,
-                  imageId,
+                  execInfo.fileName,
                   recipe,
-                  imageInfo.relativePath,
-                  true
+                  execInfo.relativePath,
+                  false
                 );
 
-                if (imageFile && imagesFolder) {
-                  imagesFolder.file(imageInfo.imageName, imageFile);
+                if (jsonFile) {
+                  files.push({ path: `${folderName}/downloadExecutables/${execInfo.fileName}`, content: jsonFile });
                 }
               } catch (error) {
-                this.logger.warn(`Failed to add general image ${image.url}`, error);
-              }
-            }
-          }
-        }
-
-        if (recipe.downloadableExecutables && recipe.downloadableExecutables.length > 0) {
-          const executablesFolder = recipeFolder.folder('downloadExecutables');
-
-          for (const executable of recipe.downloadableExecutables) {
-            if (executable.filePath) {
-              const execInfo = this.extractExecutableInfo(executable.filePath);
-              if (execInfo) {
-                try {
-                  const jsonFile = await this.fileResolver.getFileWithFallback(
-                    fileStorage,
-                    execInfo.fileName,
-                    recipe,
-                    execInfo.relativePath,
-                    false
-                  );
-
-                  if (jsonFile && executablesFolder) {
-                    executablesFolder.file(execInfo.fileName, jsonFile);
-                  }
-                } catch (error) {
-                  this.logger.warn(`Failed to add JSON file ${executable.filePath}`, error);
-                }
+                this.logger.warn(`Failed to add JSON file ${executable.filePath}`, error);
               }
             }
           }
         }
-
-        processedCount++;
       }
 
-      updateProgress('Generating index.json...');
-      const indexRecipes = this.generateRecipeIndex(allRecipesForIndex || recipes, recipeActiveStates);
-      zip.file('index.json', JSON.stringify({ recipes: indexRecipes }, null, 2));
-
-      updateProgress('Adding deployment instructions...');
-      const instructions = this.generateRecipeUpdateInstructions(recipes);
-      zip.file('DEPLOYMENT_INSTRUCTIONS.txt', instructions);
-
-      updateProgress('Generating ZIP file...');
-
-      const zipBlob = await zip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: { level: 6 }
-      });
-
-      const timestamp = new Date().toISOString().split('T')[0];
-      const filename = `recipes_export_${timestamp}.zip`;
-
-      this.downloadBlob(zipBlob, filename);
-
-      updateProgress('Export completed!');
+      processedCount++;
+    }
 
-      const totalRecipesInIndex = allRecipesForIndex ? allRecipesForIndex.length : recipes.length;
-      this.notificationService.success(`${recipes.length} edited recipes exported as ZIP with index.json containing ${totalRecipesInIndex} total recipes`);
+    updateProgress('Generating index.json...');
+    files.push({ path: 'index.json', content: JSON.stringify({ recipes: indexEntries }, null, 2) });
 
-    } catch (error) {
-      this.logger.error('Error exporting recipes as ZIP', error);
-      this.notificationService.error('Failed to export recipes as ZIP');
-      throw error; // Re-throw to allow caller to handle cleanup
-    }
+    return files;
   }
 
   async exportAsJSON(recipes: RecipeData[]): Promise<void> {
     try {
-      const indexRecipes = this.generateRecipeIndex(recipes);
+      const indexRecipes = this.generateRecipeIndex(recipes, this.assignFolderIds(recipes, []));
 
       const exportData = {
         metadata: {
@@ -288,22 +383,127 @@ export class ExportService {
     }
   }
 
-  private generateRecipeIndex(recipes: RecipeData[], recipeActiveStates?: Map<string, boolean>): RecipeIndexEntry[] {
-    const validRecipes = recipes.filter(recipe => recipe.id && recipe.title);
-    const existingFolders = new Set<string>();
+  /**
+   * Folder of each recipe by recipe ID: the folder it was loaded from or exported to
+   * before, else a new one named after its title. A retitled recipe keeps its folder.
+   *
+   * @param knownFolders Folders found for recipes that were not loaded from one
+   */
+  private assignFolderIds(
+    recipes: RecipeData[],
+    existingIndex: RecipeIndexEntry[],
+    knownFolders: Map<string, string> = new Map()
+  ): Map<string, string> {
+    const folderIds = new Map<string, string>();
+    const takenFolders = new Set(existingIndex.map(entry => entry.folderId));
+
+    recipes.forEach(recipe => {
+      const folderId = (recipe as RecipeDataWithMetadata).__folderId || knownFolders.get(recipe.id);
+      if (recipe.id && folderId) {
+        folderIds.set(recipe.id, folderId);
+        takenFolders.add(folderId);
+      }
+    });
+
+    recipes
+      .filter(recipe => recipe.id && recipe.title && !folderIds.has(recipe.id))
+      .forEach(recipe => {
+        const folderId = generateFolderName(recipe.title, takenFolders);
+        takenFolders.add(folderId);
+        folderIds.set(recipe.id, folderId);
+      });
+
+    return folderIds;
+  }
+
+  /**
+   * Entries of the existing index with the exported recipes merged in. Entries of other
+   * recipes are kept as they are, as is an entry whose publication did not change.
+   */
+  private generateRecipeIndex(
+    recipes: RecipeData[],
+    folderIds: Map<string, string>,
+    recipePublications?: Map<string, RecipePublication>,
+    existingIndex: RecipeIndexEntry[] = []
+  ): RecipeIndexEntry[] {
+    const entries = new Map(existingIndex.map(entry => [entry.folderId, entry]));
 
-    return validRecipes.map(recipe => {
-      const folderId = generateFolderName(recipe.title, existingFolders);
-      existingFolders.add(folderId);
+    recipes.forEach(recipe => {
+      const folderId = folderIds.get(recipe.id);
+      if (!folderId) return;
 
-      // Use the active state from the map if available, otherwise default to true
-      const active = recipeActiveStates?.get(recipe.id) ?? true;
+      const existing = entries.get(folderId);
+      const existingFields = existing ? toIndexPublicationFields(getIndexPublication(existing)) : null;
 
-      return {
-        folderId: folderId,
-        active: active
-      };
-    }).sort((a, b) => a.folderId.localeCompare(b.folderId));
+      // Use the publication from the map if available, then the existing entry's, otherwise publish immediately
+      const fields = toIndexPublicationFields(recipePublications?.get(recipe.id) ?? existingFields ?? DEFAULT_PUBLICATION);
+
+      if (!existing || JSON.stringify(fields) !== JSON.stringify(existingFields)) {
+        entries.set(folderId, { folderId, ...fields });
+      }
+    });
+
+    return [...entries.values()].sort((a, b) => a.folderId.localeCompare(b.folderId));
+  }
+
+  private diffRecipeIndex(existingIndex: RecipeIndexEntry[], indexEntries: RecipeIndexEntry[]): RecipeIndexChange[] {
+    const existingEntries = new Map(existingIndex.map(entry => [entry.folderId, entry]));
+
+    return indexEntries
+      .filter(entry => existingEntries.get(entry.folderId) !== entry)
+      .map(entry => ({
+        folderId: entry.folderId,
+        status: existingEntries.has(entry.folderId) ? 'update' : 'create'
+      }));
+  }
+
+  /**
+   * Entries of a picked directory's index.json, or none if it has no readable one
+   */
+  private async readDirectoryIndex(directory: FileSystemDirectoryHandle): Promise<RecipeIndexEntry[]> {
+    const indexFile = await readFileAt(directory, 'index.json');
+    if (!indexFile) return [];
+
+    try {
+      const indexData = JSON.parse(await indexFile.text());
+      return Array.isArray(indexData.recipes) ? indexData.recipes : [];
+    } catch (error) {
+      this.logger.warn(`Failed to parse index.json in ${directory.name}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Folders of recipes that were exported to a checkout before they were ever loaded
+   * from one (e.g. newly created recipes), found through the recipe.json of index
+   * entries no loaded recipe claims
+   */
+  private async findExportedFolders(
+    directory: FileSystemDirectoryHandle,
+    existingIndex: RecipeIndexEntry[],
+    recipes: RecipeData[]
+  ): Promise<Map<string, string>> {
+    const claimedFolders = new Set(recipes.map(recipe => (recipe as RecipeDataWithMetadata).__folderId));
+    const unclaimedRecipeIds = new Set(recipes
+      .filter(recipe => !(recipe as RecipeDataWithMetadata).__folderId)
+      .map(recipe => recipe.id));
+    const folders = new Map<string, string>();
+
+    if (unclaimedRecipeIds.size === 0) return folders;
+
+    for (const entry of existingIndex.filter(item => !claimedFolders.has(item.folderId))) {
+      try {
+        const recipeFile = await readFileAt(directory, `${entry.folderId}/recipe.json`);
+        const recipeId = recipeFile ? JSON.parse(await recipeFile.text()).id : null;
+        if (unclaimedRecipeIds.has(recipeId) && !folders.has(recipeId)) {
+          folders.set(recipeId, entry.folderId);
+        }
+      } catch (error) {
+        this.logger.debug(`Skipping unreadable recipe.json in ${entry.folderId}`, error);
+      }
+    }
+
+    return folders;
   }
 
   private generateRecipeUpdateInstructions(recipes: RecipeData[]): string {
@@ -334,7 +534,8 @@ How to Deploy the Exported Recipes:
 
 3. Recipe System Integration:
    - The index.json file is automatically loaded by RecipeService
-   - Only recipes marked as "active: true" in index.json will be displayed
+   - Only published recipes in index.json are displayed, within their
+     optional publishAt/unpublishAt window
    - Category names are normalized to kebab-case for routing
 
 4. Build Process:
@@ -365,6 +566,13 @@ Notes:
   }
 
 
+  /**
+   * Exported recipe.json files are always written at the current schema version
+   */
+  private toCurrentSchema(recipe: RecipeData): RecipeData {
+    return this.schemaService.upgrade(recipe).recipe || recipe;
+  }
+
   private downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -0,0 +1,65 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Recipe, RecipeData } from '../models/recipe.model';
+import { CacheService } from './cache.service';
+import {
+  RecipeGraph,
+  RecipeReference,
+  RecipeReferenceResolver,
+  ResolvedRecipeReference,
+  buildRecipeGraph
+} from '../graph';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GraphService {
+  private resolver?: RecipeReferenceResolver;
+  private resolverSource?: Recipe[];
+  private referenceRecipes?: Recipe[];
+
+  constructor(private cacheService: CacheService) {}
+
+  getGraph$(): Observable<RecipeGraph> {
+    return this.cacheService.getRecipes$().pipe(
+      map(recipes => buildRecipeGraph(recipes))
+    );
+  }
+
+  /**
+   * Recipes that references resolve against instead of the cached live recipes,
+   * so the editor can link to drafts and scheduled recipes
+   */
+  setReferenceRecipes(recipes: Recipe[]): void {
+    this.referenceRecipes = recipes;
+  }
+
+  /**
+   * References in a recipe that no loaded recipe matches. Nothing is reported
+   * while no recipes are loaded, since every reference would look broken.
+   */
+  findBrokenReferences(recipe: RecipeData): ResolvedRecipeReference[] {
+    const resolver = this.getResolver();
+    if (resolver.isEmpty) return [];
+
+    return resolver.resolveAll(recipe).filter(reference => !reference.recipeId);
+  }
+
+  isBrokenReference(reference: Omit<RecipeReference, 'field'>): boolean {
+    const resolver = this.getResolver();
+    return !resolver.isEmpty && resolver.resolve(reference) === null;
+  }
+
+  private getResolver(): RecipeReferenceResolver {
+    const recipes = this.referenceRecipes || this.cacheService.getRecipes();
+
+    // Both sources replace their array on every update, so identity tells when to rebuild
+    if (!this.resolver || this.resolverSource !== recipes) {
+      this.resolver = new RecipeReferenceResolver(recipes);
+      this.resolverSource = recipes;
+    }
+
+    return this.resolver;
+  }
+}
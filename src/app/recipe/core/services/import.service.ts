@@ -1,11 +1,19 @@
 import { Injectable } from '@angular/core';
-import { RecipeData } from '../models/recipe.model';
+import { RecipeData, RecipePublication } from '../models/recipe.model';
 import { FileStorageAdapter } from '../storage';
 import { NotificationService } from '../../../shared/services/notification.service';
 import { LoggerService } from './logger.service';
 import { FileResolverService } from './file-resolver.service';
-import { RecipeIndexEntry, ProgressCallback } from './io.types';
+import { SchemaService } from './schema.service';
+import {
+  RecipeIndexEntry,
+  ProgressCallback,
+  RecipeImportReport,
+  RecipeValidator,
+  ZipImportSummary
+} from './io.types';
 import JSZip from 'jszip';
+import { getIndexPublication } from '../publication';
 
 @Injectable({
   providedIn: 'root'
@@ -15,15 +23,67 @@ export class ImportService {
   constructor(
     private notificationService: NotificationService,
     private logger: LoggerService,
-    private fileResolver: FileResolverService
+    private fileResolver: FileResolverService,
+    private schemaService: SchemaService
   ) {}
 
+  /**
+   * Migrate a parsed recipe.json and run it through the given validator.
+   * Schema or validation errors reject the recipe; warnings are reported but accepted.
+   */
+  evaluateRecipe(
+    raw: unknown,
+    source: string,
+    validator: RecipeValidator
+  ): { recipe: RecipeData | null; report: RecipeImportReport } {
+    const schemaResult = this.schemaService.upgrade(raw, source);
+    if (!schemaResult.recipe) {
+      return {
+        recipe: null,
+        report: this.createReport(source, undefined, schemaResult.violations.map(v => v.message), [])
+      };
+    }
+
+    const recipe = schemaResult.recipe;
+    const validation = validator(recipe);
+
+    return {
+      recipe: validation.errors.length === 0 ? recipe : null,
+      report: this.createReport(
+        source,
+        recipe,
+        validation.errors.map(e => e.message),
+        validation.warnings.map(w => w.message)
+      )
+    };
+  }
+
+  createReport(
+    source: string,
+    recipe: Partial<RecipeData> | undefined,
+    reasons: string[],
+    warnings: string[]
+  ): RecipeImportReport {
+    const status = reasons.length > 0
+      ? 'rejected'
+      : warnings.length > 0 ? 'accepted-with-warnings' : 'accepted';
+
+    return {
+      source,
+      recipeId: recipe?.id,
+      title: recipe?.title,
+      status,
+      reasons,
+      warnings
+    };
+  }
 
   async importFromZip(
     file: File,
     fileStorage: FileStorageAdapter,
+    validator: RecipeValidator,
     progressCallback?: ProgressCallback
-  ): Promise<RecipeData[]> {
+  ): Promise<ZipImportSummary> {
     try {
       if (typeof JSZip === 'undefined') {
         throw new Error('JSZip library not available');
@@ -48,6 +108,8 @@ export class ImportService {
       }
 
       const importedRecipes: RecipeData[] = [];
+      const reports: RecipeImportReport[] = [];
+      const publications = new Map<string, RecipePublication>();
       const folders = Object.keys(zipContent.files)
         .filter(path => path.includes('/') && !path.startsWith('__MACOSX') && !path.startsWith('index.json'))
         .map(path => path.split('/')[0])
@@ -74,23 +136,23 @@ export class ImportService {
           const recipeJsonFile = zipContent.file(`${folder}/recipe.json`);
           if (!recipeJsonFile) {
             this.logger.warn(`No recipe.json found in folder: ${folder}`);
+            reports.push(this.createReport(folder, undefined, ['No recipe.json found in folder'], []));
             continue;
           }
 
           const recipeJsonContent = await recipeJsonFile.async('string');
-          const recipe = JSON.parse(recipeJsonContent) as RecipeData;
+          const { recipe, report } = this.evaluateRecipe(JSON.parse(recipeJsonContent), folder, validator);
 
-          if (!this.validateRecipe(recipe)) {
-            this.logger.warn(`Invalid recipe in folder: ${folder}`);
+          if (!recipe) {
+            this.logger.warn(`Invalid recipe in folder: ${folder}`, report.reasons);
+            reports.push(report);
             continue;
           }
 
-          if (recipeIndex) {
-            const indexEntry = recipeIndex.find((entry: RecipeIndexEntry) => entry.folderId === folder);
-            if (indexEntry && !indexEntry.active) {
-              this.logger.debug(`Skipping inactive recipe: ${folder}`);
-              continue;
-            }
+          // Unpublished recipes are imported too, keeping their state and schedule
+          const indexEntry = recipeIndex?.find((entry: RecipeIndexEntry) => entry.folderId === folder);
+          if (indexEntry && recipe.id) {
+            publications.set(recipe.id, getIndexPublication(indexEntry));
           }
 
           const imagesFolder = zipContent.folder(`${folder}/images`);
@@ -142,10 +204,12 @@ export class ImportService {
           }
 
           importedRecipes.push(recipe);
+          reports.push(report);
           this.logger.debug(`Successfully imported recipe: ${recipe.title}`);
 
         } catch (error) {
           this.logger.error(`Error processing folder ${folder}`, error);
+          reports.push(this.createReport(folder, undefined, [`Failed to read folder: ${(error as Error).message}`], []));
         }
       }
 
@@ -157,61 +221,27 @@ export class ImportService {
         });
       }
 
+      const rejectedCount = reports.filter(r => r.status === 'rejected').length;
       if (importedRecipes.length === 0) {
         this.notificationService.error('No valid recipes found in ZIP file');
+      } else if (rejectedCount > 0) {
+        this.notificationService.warning(
+          `Imported ${importedRecipes.length} recipe${importedRecipes.length > 1 ? 's' : ''} from ZIP, ${rejectedCount} rejected`
+        );
       } else {
         this.notificationService.success(`Imported ${importedRecipes.length} recipe${importedRecipes.length > 1 ? 's' : ''} from ZIP`);
       }
 
-      return importedRecipes;
+      return { recipes: importedRecipes, reports, publications };
 
     } catch (error) {
       this.logger.error('Error importing from ZIP', error);
       this.notificationService.error('Failed to import from ZIP file');
-      return [];
-    }
-  }
-
-  private validateRecipe(recipe: any): recipe is RecipeData {
-    if (!recipe || typeof recipe !== 'object') {
-      return false;
-    }
-
-    const requiredFields = ['title', 'category'];
-    for (const field of requiredFields) {
-      if (!recipe.hasOwnProperty(field) || !recipe[field]) {
-        this.logger.warn(`Recipe missing required field: ${field}`);
-        return false;
-      }
-    }
-
-    const validCategories = ['Batch', 'Triggers', 'Data List', 'Action Button', 'Data Loader'];
-    if (!validCategories.includes(recipe.category)) {
-      this.logger.warn(`Invalid category: ${recipe.category}`);
-      return false;
-    }
-
-    const arrayFields = ['DSPVersions', 'prerequisites', 'walkthrough', 'downloadableExecutables', 'relatedRecipes', 'keywords'];
-    for (const field of arrayFields) {
-      if (!recipe.hasOwnProperty(field)) {
-        recipe[field] = [];
-      } else if (!Array.isArray(recipe[field])) {
-        this.logger.warn(`Field ${field} should be an array`);
-        return false;
-      }
-    }
-
-    if (recipe.walkthrough) {
-      for (const step of recipe.walkthrough) {
-        if (!step.step || !Array.isArray(step.config) || !Array.isArray(step.media)) {
-          this.logger.warn('Invalid walkthrough step structure');
-          return false;
-        }
-      }
+      return {
+        recipes: [],
+        reports: [this.createReport(file.name, undefined, ['File is not a readable ZIP archive'], [])],
+        publications: new Map()
+      };
     }
-
-    return true;
   }
-
-
 }
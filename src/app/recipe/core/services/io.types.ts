@@ -1,6 +1,12 @@
+import { PublicationState, RecipeData, RecipePublication } from '../models/recipe.model';
+import { ExportFileStatus, PlannedExportFile } from '../file-system';
+
 export interface RecipeIndexEntry {
   folderId: string;
   active: boolean;
+  state?: PublicationState;
+  publishAt?: string;
+  unpublishAt?: string;
 }
 
 export interface IOProgress {
@@ -10,3 +16,53 @@ export interface IOProgress {
 }
 
 export type ProgressCallback = (progress: IOProgress) => void;
+
+export interface RecipeIssue {
+  field: string;
+  message: string;
+}
+
+export interface RecipeValidationOutcome {
+  errors: RecipeIssue[];
+  warnings: RecipeIssue[];
+}
+
+export type RecipeValidator = (recipe: RecipeData) => RecipeValidationOutcome;
+
+export type RecipeImportStatus = 'accepted' | 'accepted-with-warnings' | 'rejected';
+
+/**
+ * Outcome of importing a single recipe (one ZIP folder or one JSON file)
+ */
+export interface RecipeImportReport {
+  source: string;
+  recipeId?: string;
+  title?: string;
+  status: RecipeImportStatus;
+  reasons: string[];
+  warnings: string[];
+}
+
+export interface ZipImportSummary {
+  recipes: RecipeData[];
+  reports: RecipeImportReport[];
+  publications: Map<string, RecipePublication>;  // By recipe ID, for recipes listed in the ZIP's index.json
+}
+
+/**
+ * An index.json entry an export adds or changes
+ */
+export interface RecipeIndexChange {
+  folderId: string;
+  status: Exclude<ExportFileStatus, 'unchanged'>;
+}
+
+/**
+ * Files an export would write into a picked recipes directory, shown before anything is written
+ */
+export interface DirectoryExportPlan {
+  directory: FileSystemDirectoryHandle;
+  files: PlannedExportFile[];
+  recipeCount: number;
+  indexChanges: RecipeIndexChange[];
+}
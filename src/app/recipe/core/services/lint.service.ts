@@ -0,0 +1,59 @@
+import { Injectable } from '@angular/core';
+import { RecipeData } from '../models/recipe.model';
+import { LoggerService } from './logger.service';
+import {
+  LintConfig,
+  LintIssue,
+  LintRule,
+  LintSeverity,
+  RECIPE_LINT_RULES,
+  applyLintFixes,
+  countLintIssues,
+  lintRecipe
+} from '../lint';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LintService {
+  private rules: LintRule[] = [...RECIPE_LINT_RULES];
+  private config: LintConfig = {};
+
+  constructor(private logger: LoggerService) {}
+
+  lint(recipe: RecipeData): LintIssue[] {
+    return lintRecipe(recipe, this.rules, this.config);
+  }
+
+  /**
+   * Apply one issue's fix to the recipe in place. Returns false when the issue has no fix.
+   */
+  applyFix(recipe: RecipeData, issue: LintIssue): boolean {
+    if (!issue.fix) return false;
+
+    issue.fix.apply(recipe);
+    this.logger.debug('Lint fix applied', { ruleId: issue.ruleId, field: issue.field });
+    return true;
+  }
+
+  /**
+   * Apply every available fix for the recipe's current issues. Returns how many were applied.
+   */
+  applyAllFixes(recipe: RecipeData): number {
+    const applied = applyLintFixes(recipe, this.lint(recipe));
+    this.logger.debug('Lint fixes applied', { recipeId: recipe.id, applied });
+    return applied;
+  }
+
+  countBySeverity(issues: LintIssue[]): { [severity in LintSeverity]: number } {
+    return countLintIssues(issues);
+  }
+
+  registerRule(rule: LintRule): void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule];
+  }
+
+  configure(config: LintConfig): void {
+    this.config = config;
+  }
+}
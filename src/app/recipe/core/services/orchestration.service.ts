@@ -6,6 +6,7 @@ import { DataService } from './data.service';
 import { TransformService } from './transform.service';
 import { CacheService } from './cache.service';
 import { LoggerService } from './logger.service';
+import { SearchService } from './search.service';
 import { Recipe } from '../models/recipe.model';
 
 @Injectable({
@@ -17,6 +18,7 @@ export class OrchestrationService {
     private dataService: DataService,
     private transformService: TransformService,
     private cacheService: CacheService,
+    private searchService: SearchService,
     private logger: LoggerService
   ) {
     this.logger.info('RecipeOrchestrationService initialized');
@@ -35,6 +37,7 @@ export class OrchestrationService {
       if (cachedSources && cachedSources.length > 0) {
         this.logger.info('Loading from cache', { count: cachedSources.length });
         const recipeItems = this.transformService.transformRecipeRecords(cachedSources);
+        this.searchService.indexRecipes(recipeItems);
         this.store.setRecipes(recipeItems);
         this.logger.debug('Cache loaded successfully');
       }
@@ -54,6 +57,7 @@ export class OrchestrationService {
       }),
       tap(recipeItems => {
         this.logger.info('Updating store and cache', { count: recipeItems.length });
+        this.searchService.indexRecipes(recipeItems);
         this.store.setRecipes(recipeItems);
         this.cacheService.setRecipes(recipeItems);
       }),
@@ -1,19 +1,86 @@
-import { Injectable } from '@angular/core';
+import { Injectable, OnDestroy } from '@angular/core';
 import { ExportService } from './export.service';
 import { RecipePreviewData } from '../models/recipe.model';
 import { LoggerService } from './logger.service';
-
+import {
+  PREVIEW_CHANNEL_NAME,
+  PreviewMessage,
+  createPatch,
+  isBroadcastChannelSupported,
+  isPreviewMessage
+} from '../preview';
+
+interface PublishedPreview {
+  revision: number;
+  data: RecipePreviewData;
+  acknowledged: boolean;
+}
+
+/**
+ * Recipe Preview Service
+ *
+ * Editor side of the preview protocol. Updates go to preview windows over a
+ * BroadcastChannel as patches against the last acknowledged revision; browsers
+ * without BroadcastChannel fall back to session/local storage, which the preview polls.
+ */
 @Injectable({
   providedIn: 'root'
 })
-export class PreviewService {
+export class PreviewService implements OnDestroy {
   private readonly PREVIEW_KEY_PREFIX = 'recipe-preview-';
-  
+  private channel: BroadcastChannel | null = null;
+  private published = new Map<string, PublishedPreview>();
+
   constructor(
     private exportService: ExportService,
     private logger: LoggerService
   ) {}
 
+  ngOnDestroy(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  /**
+   * Send preview data to open preview windows
+   */
+  publishPreviewData(data: RecipePreviewData): void {
+    const channel = this.getChannel();
+    if (!channel) {
+      this.updatePreviewData(data);
+      return;
+    }
+
+    const next: RecipePreviewData = { ...data, timestamp: Date.now() };
+    const last = this.published.get(data.recipeId);
+    const revision = (last?.revision || 0) + 1;
+
+    if (last?.acknowledged) {
+      this.post({
+        kind: 'patch',
+        recipeId: data.recipeId,
+        revision,
+        baseRevision: last.revision,
+        operations: createPatch(last.data, next)
+      });
+    } else {
+      this.post({ kind: 'snapshot', recipeId: data.recipeId, revision, data: next });
+    }
+
+    this.published.set(data.recipeId, { revision, data: next, acknowledged: false });
+    this.logger.debug(`Published recipe preview revision ${revision} for: ${data.recipeId}`);
+  }
+
+  /**
+   * Tell preview windows which walkthrough step is focused in the editor.
+   * Not available with the storage fallback.
+   */
+  focusPreviewStep(recipeId: string, stepIndex: number): void {
+    if (this.getChannel()) {
+      this.post({ kind: 'focus-step', recipeId, stepIndex });
+    }
+  }
+
   savePreviewData(data: RecipePreviewData): void {
     const storageKey = `${this.PREVIEW_KEY_PREFIX}${data.recipeId}`;
 
@@ -22,7 +89,12 @@ export class PreviewService {
       timestamp: Date.now()
     };
 
-    sessionStorage.setItem(storageKey, JSON.stringify(processedData));
+    try {
+      sessionStorage.setItem(storageKey, JSON.stringify(processedData));
+    } catch (error) {
+      // The preview asks for a snapshot over the channel when nothing is stored
+      this.logger.warn('Recipe preview data could not be stored', error);
+    }
   }
 
   getPreviewData(recipeId: string): RecipePreviewData | null {
@@ -43,6 +115,9 @@ export class PreviewService {
 
   openPreviewInNewTab(recipeId: string, data: RecipePreviewData): { success: boolean; window?: Window; url?: string } {
     this.savePreviewData(data);
+    if (this.getChannel()) {
+      this.publishPreviewData(data);
+    }
 
     const url = `/recipes?preview=true&recipeId=${recipeId}`;
 
@@ -82,4 +157,39 @@ export class PreviewService {
 
     this.logger.debug('Recipe preview backup saved to localStorage');
   }
-}
\ No newline at end of file
+
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && isBroadcastChannelSupported()) {
+      this.channel = new BroadcastChannel(PREVIEW_CHANNEL_NAME);
+      this.channel.onmessage = event => this.handleMessage(event.data);
+    }
+    return this.channel;
+  }
+
+  private handleMessage(message: unknown): void {
+    if (!isPreviewMessage(message)) return;
+
+    const published = this.published.get(message.recipeId);
+    if (!published) return;
+
+    switch (message.kind) {
+      case 'ack':
+        if (message.revision === published.revision) {
+          published.acknowledged = true;
+        }
+        break;
+      case 'request-snapshot':
+        published.acknowledged = false;
+        this.post({ kind: 'snapshot', recipeId: message.recipeId, revision: published.revision, data: published.data });
+        break;
+    }
+  }
+
+  private post(message: PreviewMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      this.logger.error('Error sending recipe preview message', error);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+import { RecipeData } from '../models/recipe.model';
+import { LoggerService } from './logger.service';
+import {
+  RECIPE_JSON_SCHEMA,
+  SchemaViolation,
+  migrateRecipe,
+  validateAgainstSchema
+} from '../schema';
+
+export interface SchemaCheckResult {
+  recipe: RecipeData | null;
+  fromVersion: number;
+  migrations: string[];
+  violations: SchemaViolation[];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SchemaService {
+
+  constructor(private logger: LoggerService) {}
+
+  /**
+   * Run a parsed recipe.json through the migration pipeline and check the result
+   * against the current schema. The input object is never mutated.
+   */
+  upgrade(raw: unknown, source?: string): SchemaCheckResult {
+    try {
+      const migration = migrateRecipe(raw);
+      const violations = validateAgainstSchema(migration.recipe, RECIPE_JSON_SCHEMA);
+
+      if (migration.applied.length > 0) {
+        this.logger.debug('Recipe migrated to current schema', {
+          source: source || migration.recipe.id,
+          fromVersion: migration.fromVersion,
+          toVersion: migration.toVersion,
+          applied: migration.applied
+        });
+      }
+
+      return {
+        recipe: migration.recipe,
+        fromVersion: migration.fromVersion,
+        migrations: migration.applied,
+        violations
+      };
+    } catch (error) {
+      this.logger.warn('Recipe could not be migrated', { source, error });
+      return {
+        recipe: null,
+        fromVersion: 0,
+        migrations: [],
+        violations: [{ path: 'schemaVersion', message: (error as Error).message }]
+      };
+    }
+  }
+
+  validate(recipe: RecipeData): SchemaViolation[] {
+    return this.upgrade(recipe).violations;
+  }
+
+  isValid(result: SchemaCheckResult): result is SchemaCheckResult & { recipe: RecipeData } {
+    return result.recipe !== null && result.violations.length === 0;
+  }
+}
@@ -2,69 +2,62 @@ import { Injectable } from '@angular/core';
 import { Recipe, SearchResult, Category } from '../models/recipe.model';
 import { LoggerService } from './logger.service';
 import { CATEGORY_ORDER } from '../constants/recipe.constants';
+import { RecipeSearchIndex } from '../search';
 
 @Injectable({
   providedIn: 'root'
 })
 export class SearchService {
+  private readonly index = new RecipeSearchIndex();
+
   constructor(private logger: LoggerService) {}
 
+  /**
+   * Rebuild the full-text index from a freshly loaded recipe set
+   */
+  indexRecipes(recipes: Recipe[]): void {
+    const startTime = performance.now();
+
+    this.index.clear();
+    recipes.forEach(recipe => this.index.add(recipe));
+
+    this.logger.debug('Recipe search index built', {
+      count: this.index.size,
+      durationMs: Math.round(performance.now() - startTime)
+    });
+  }
+
   search(recipes: Recipe[], query: string): SearchResult[] {
     if (!query || query.trim() === '') {
       return [];
     }
 
-    const normalizedQuery = query.toLowerCase().trim();
-    const results: SearchResult[] = [];
+    this.ensureIndexed(recipes);
 
-    recipes.forEach(recipe => {
-      const score = this.calculateRelevanceScore(recipe, normalizedQuery);
+    const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+    const results: SearchResult[] = [];
 
-      if (score > 0) {
+    this.index.search(query).forEach(match => {
+      const recipe = recipesById.get(match.recipeId);
+      if (recipe) {
         results.push({
           ...recipe,
-          relevanceScore: score
+          relevanceScore: match.score
         });
       }
     });
 
-    return results.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+    return results;
   }
 
   filterByCategory(recipes: Recipe[], category: string): Recipe[] {
     return recipes.filter(recipe => recipe.category.includes(category));
   }
 
-  private calculateRelevanceScore(recipe: Recipe, query: string): number {
-    let score = 0;
-
-    const title = recipe.title.toLowerCase();
-    const overview = recipe.overview.toLowerCase();
-    const categories = recipe.category.map(c => c.toLowerCase());
-    const keywords = recipe.keywords.map(k => k.toLowerCase());
-
-    if (title === query) {
-      score += 100;
-    } else if (title.includes(query)) {
-      score += 50;
-    }
-
-    keywords.forEach(keyword => {
-      if (keyword.includes(query) || query.includes(keyword)) {
-        score += 30;
-      }
-    });
-
-    if (overview.includes(query)) {
-      score += 20;
-    }
-
-    // Check if any category matches the query
-    if (categories.some(cat => cat.includes(query))) {
-      score += 10;
-    }
-
-    return score;
+  private ensureIndexed(recipes: Recipe[]): void {
+    recipes
+      .filter(recipe => !this.index.has(recipe.id))
+      .forEach(recipe => this.index.add(recipe));
   }
 
   generateCategories(recipes: Recipe[]): Category[] {
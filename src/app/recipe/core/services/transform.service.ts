@@ -2,6 +2,7 @@ import { Injectable } from '@angular/core';
 import { generateSlug } from '../../../shared/utils/slug.utils';
 import { RecipeData, Recipe, WalkthroughStep, normalizeCategory } from '../models/recipe.model';
 import { RECIPE_PATHS } from '../constants/recipe.constants';
+import { RecipeReferenceResolver } from '../graph';
 
 interface RecipeDataWithMetadata extends RecipeData {
   __folderId?: string;
@@ -13,7 +14,28 @@ interface RecipeDataWithMetadata extends RecipeData {
 export class TransformService {
 
   transformRecipeRecords(records: RecipeData[]): Recipe[] {
-    return records.map(record => this.transformSingleRecord(record));
+    const recipes = records.map(record => this.transformSingleRecord(record));
+    this.resolveReferences(recipes);
+    return recipes;
+  }
+
+  /**
+   * Resolve prerequisite and related recipe links to recipe IDs; unresolved links are dropped
+   */
+  resolveReferences(recipes: Recipe[]): void {
+    const resolver = new RecipeReferenceResolver(recipes);
+
+    recipes.forEach(recipe => {
+      const references = resolver.resolveAll(recipe);
+      const idsOf = (kind: 'prerequisite' | 'related') => [...new Set(
+        references
+          .filter(reference => reference.kind === kind && reference.recipeId)
+          .map(reference => reference.recipeId!)
+      )];
+
+      recipe.prerequisiteIds = idsOf('prerequisite');
+      recipe.relatedRecipeIds = idsOf('related');
+    });
   }
 
   transformSingleRecord(record: RecipeData): Recipe {
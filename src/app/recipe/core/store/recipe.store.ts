@@ -25,7 +25,6 @@ export class Store {
       filteredRecipes: [],
       searchIsActive: false,
       searchHasResults: true,
-      searchOverlayOpen: false,
       isLoadingRecipes: false,
       recipesLoadError: null
     },
@@ -162,20 +161,6 @@ export class Store {
 
 
 
-  openSearchOverlay(): void {
-    this.updateDataState({ searchOverlayOpen: true });
-    if (typeof document !== 'undefined') {
-      document.body.style.overflow = 'hidden';
-    }
-  }
-
-  closeSearchOverlay(): void {
-    this.updateDataState({ searchOverlayOpen: false });
-    if (typeof document !== 'undefined') {
-      document.body.style.overflow = '';
-    }
-  }
-
   clearSearch(): void {
     this.updateDataState({
       searchQuery: '',
@@ -247,10 +232,27 @@ export class Store {
 
 
 
+  /**
+   * Replace every open tab, e.g. when restoring an autosaved session
+   */
+  setEditorTabs(tabs: EditorTab[], activeTabId: string | null): void {
+    tabs.forEach(t => t.isActive = t.id === activeTabId);
+    this.updateEditorState({ tabs: [...tabs], activeTabId });
+    this.logger.debug('Editor tabs replaced', { tabCount: tabs.length, activeTabId });
+  }
+
   setEditorImporting(isImporting: boolean, progress: EditorState['importProgress'] = null): void {
     this.updateEditorState({ isImporting, importProgress: progress });
   }
 
+  setEditorSaving(isSaving: boolean): void {
+    this.updateEditorState({ isSaving });
+  }
+
+  markEditorSaved(savedAt: Date = new Date()): void {
+    this.updateEditorState({ isSaving: false, lastSaved: savedAt });
+  }
+
 
   setCurrentView(view: 'home' | 'category' | 'recipe' | 'editor'): void {
     this.updateUIState({ currentView: view });
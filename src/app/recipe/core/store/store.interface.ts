@@ -9,7 +9,6 @@ export interface DataState {
   filteredRecipes: Recipe[];
   searchIsActive: boolean;
   searchHasResults: boolean;
-  searchOverlayOpen: boolean;
   isLoadingRecipes: boolean;
   recipesLoadError: string | null;
 }
@@ -15,7 +15,7 @@ function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj));
 }
 
-function normalizeImageUrl(url: string): string {
+export function normalizeImageUrl(url: string): string {
   if (!url) return url;
 
   if (url.startsWith('images/')) {
@@ -32,7 +32,7 @@ function normalizeImageUrl(url: string): string {
   return url;
 }
 
-function normalizeExecutablePath(path: string): string {
+export function normalizeExecutablePath(path: string): string {
   if (!path) return path;
 
   if (path.startsWith('downloadExecutables/')) {
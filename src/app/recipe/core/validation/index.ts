@@ -0,0 +1,6 @@
+/**
+ * Recipe Validation Module
+ * Content checks shared by the editor's ValidationService and scripts/validate-content.js
+ */
+export * from './recipe-validator';
+export * from './recipe-assets';
@@ -0,0 +1,52 @@
+import { RecipeData } from '../models/recipe.model';
+import { normalizeExecutablePath, normalizeImageUrl } from '../utils/data.utils';
+
+export type RecipeAssetKind = 'image' | 'executable';
+
+/**
+ * A file a recipe expects in its published folder
+ */
+export interface RecipeAssetReference {
+  kind: RecipeAssetKind;
+  field: string;  // Path in the recipe, e.g. walkthrough[1].media[0].url
+  path: string;   // Relative to the recipe folder, e.g. images/step-1-image-1766079873.png
+}
+
+export const RECIPE_ASSET_FOLDERS: { [kind in RecipeAssetKind]: string } = {
+  image: 'images',
+  executable: 'downloadExecutables'
+};
+
+/**
+ * Every image and downloadable executable file a recipe references. External
+ * media (YouTube links and the like) are not files in the recipe folder and are skipped.
+ */
+export function getRecipeAssetReferences(recipe: RecipeData): RecipeAssetReference[] {
+  const references: RecipeAssetReference[] = [];
+
+  const addImage = (url: string | undefined, field: string) => {
+    const path = normalizeImageUrl((url || '').trim());
+    if (path.startsWith(`${RECIPE_ASSET_FOLDERS.image}/`)) {
+      references.push({ kind: 'image', field, path });
+    }
+  };
+
+  (recipe.walkthrough || []).forEach((step, stepIndex) => {
+    (step.media || []).forEach((media, mediaIndex) => {
+      addImage(media.url, `walkthrough[${stepIndex}].media[${mediaIndex}].url`);
+    });
+  });
+
+  (recipe.generalImages || []).forEach((image, index) => {
+    addImage(image.url, `generalImages[${index}].url`);
+  });
+
+  (recipe.downloadableExecutables || []).forEach((executable, index) => {
+    const path = normalizeExecutablePath((executable.filePath || '').trim());
+    if (path.startsWith(`${RECIPE_ASSET_FOLDERS.executable}/`)) {
+      references.push({ kind: 'executable', field: `downloadableExecutables[${index}].filePath`, path });
+    }
+  });
+
+  return references;
+}
@@ -0,0 +1,317 @@
+import {
+  RecipeData,
+  WalkthroughStep,
+  PrerequisiteRecipe,
+  StepMedia,
+  StepConfig,
+  GeneralImage,
+  normalizeCategory
+} from '../models/recipe.model';
+import { RECIPE_CATEGORIES } from '../constants/recipe.constants';
+import { ResolvedRecipeReference } from '../graph';
+import { RECIPE_JSON_SCHEMA, SchemaViolation, migrateRecipe, validateAgainstSchema } from '../schema';
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+export interface ValidationError {
+  field: string;
+  message: string;
+  severity: 'error' | 'critical';
+}
+
+export interface ValidationWarning {
+  field: string;
+  message: string;
+}
+
+export interface RecipeValidationOptions {
+  // Prerequisite and related recipe links that match no known recipe; skipped when not given
+  findBrokenReferences?: (recipe: RecipeData) => ResolvedRecipeReference[];
+}
+
+interface ValidationGroup {
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+export function validateRecipe(recipe: RecipeData, options: RecipeValidationOptions = {}): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  errors.push(...validateRequiredFields(recipe));
+
+  if (recipe.id && !isValidId(recipe.id)) {
+    errors.push({
+      field: 'id',
+      message: 'Recipe ID must contain only alphanumeric characters, hyphens, and underscores',
+      severity: 'error'
+    });
+  }
+
+  // Validate each category in the array
+  const categories = normalizeCategory(recipe.category);
+  categories.forEach((cat, index) => {
+    if (cat && !RECIPE_CATEGORIES.includes(cat)) {
+      errors.push({
+        field: `category[${index}]`,
+        message: `Invalid category value: ${cat}`,
+        severity: 'error'
+      });
+    }
+  });
+
+  if (recipe.walkthrough && recipe.walkthrough.length > 0) {
+    addGroup(validateWalkthroughSteps(recipe.walkthrough), errors, warnings);
+  } else {
+    warnings.push({
+      field: 'walkthrough',
+      message: 'Recipe has no walkthrough steps'
+    });
+  }
+
+  if (recipe.prerequisites && recipe.prerequisites.length > 0) {
+    addGroup(validatePrerequisites(recipe.prerequisites), errors, warnings);
+  }
+
+  if (options.findBrokenReferences) {
+    warnings.push(...validateReferences(options.findBrokenReferences(recipe)));
+  }
+
+  if (recipe.generalImages && recipe.generalImages.length > 0) {
+    addGroup(validateGeneralImages(recipe.generalImages), errors, warnings);
+  }
+
+  if (!recipe.overview || recipe.overview.trim() === '') {
+    warnings.push({
+      field: 'overview',
+      message: 'Recipe overview is empty'
+    });
+  }
+
+  errors.push(...validateSchema(recipe, errors));
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+function addGroup(group: ValidationGroup, errors: ValidationError[], warnings: ValidationWarning[]): void {
+  errors.push(...group.errors);
+  warnings.push(...group.warnings);
+}
+
+function validateRequiredFields(recipe: RecipeData): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!recipe.id || recipe.id.trim() === '') {
+    errors.push({
+      field: 'id',
+      message: 'Recipe ID is required',
+      severity: 'critical'
+    });
+  }
+
+  if (!recipe.title || recipe.title.trim() === '') {
+    errors.push({
+      field: 'title',
+      message: 'Recipe title is required',
+      severity: 'critical'
+    });
+  }
+
+  // Check category array is not empty
+  const categories = normalizeCategory(recipe.category);
+  if (categories.length === 0) {
+    errors.push({
+      field: 'category',
+      message: 'At least one category is required',
+      severity: 'error'
+    });
+  }
+
+  return errors;
+}
+
+function isValidId(id: string): boolean {
+  const idPattern = /^[a-zA-Z0-9_-]+$/;
+  return idPattern.test(id);
+}
+
+/**
+ * Structural checks from the shared recipe schema, run on the migrated form of the
+ * recipe. Fields already reported by the checks above are skipped to avoid duplicates.
+ */
+function validateSchema(recipe: RecipeData, reported: ValidationError[]): ValidationError[] {
+  const reportedFields = new Set(reported.map(error => error.field));
+
+  let violations: SchemaViolation[];
+  try {
+    violations = validateAgainstSchema(migrateRecipe(recipe).recipe, RECIPE_JSON_SCHEMA);
+  } catch (error) {
+    violations = [{ path: 'schemaVersion', message: (error as Error).message }];
+  }
+
+  return violations
+    .filter(violation => !reportedFields.has(violation.path))
+    .map(violation => ({
+      field: violation.path,
+      message: `${violation.path}: ${violation.message}`,
+      severity: 'error' as const
+    }));
+}
+
+function validateWalkthroughSteps(steps: WalkthroughStep[]): ValidationGroup {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  steps.forEach((step, index) => {
+    const stepLabel = `walkthrough[${index}]`;
+
+    if (!step.step || step.step.trim() === '') {
+      errors.push({
+        field: `${stepLabel}.step`,
+        message: `Step ${index + 1} is missing a step name`,
+        severity: 'error'
+      });
+    }
+
+    if (step.config && step.config.length > 0) {
+      addGroup(validateStepConfig(step.config, index), errors, warnings);
+    }
+
+    if (step.media && step.media.length > 0) {
+      addGroup(validateStepMedia(step.media, index), errors, warnings);
+    }
+  });
+
+  return { errors, warnings };
+}
+
+function validateStepConfig(config: StepConfig[], stepIndex: number): ValidationGroup {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  config.forEach((item, configIndex) => {
+    const fieldLabel = `walkthrough[${stepIndex}].config[${configIndex}]`;
+
+    if (!item.field || item.field.trim() === '') {
+      errors.push({
+        field: `${fieldLabel}.field`,
+        message: `Step ${stepIndex + 1}, config ${configIndex + 1}: field name is missing`,
+        severity: 'error'
+      });
+    }
+
+    if (item.value === undefined || item.value === null) {
+      warnings.push({
+        field: `${fieldLabel}.value`,
+        message: `Step ${stepIndex + 1}, config "${item.field || configIndex + 1}": value is empty`
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
+
+function validateStepMedia(media: StepMedia[], stepIndex: number): ValidationGroup {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  media.forEach((item, mediaIndex) => {
+    const fieldLabel = `walkthrough[${stepIndex}].media[${mediaIndex}]`;
+
+    if (!item.url || item.url.trim() === '') {
+      errors.push({
+        field: `${fieldLabel}.url`,
+        message: `Step ${stepIndex + 1}, media ${mediaIndex + 1}: image URL is missing`,
+        severity: 'error'
+      });
+    }
+
+    if (!item.alt || item.alt.trim() === '') {
+      warnings.push({
+        field: `${fieldLabel}.alt`,
+        message: `Step ${stepIndex + 1}, media ${mediaIndex + 1}: alt text is missing`
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
+
+function validatePrerequisites(prerequisites: PrerequisiteRecipe[]): ValidationGroup {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  prerequisites.forEach((prereq, index) => {
+    const fieldLabel = `prerequisites[${index}]`;
+
+    if (!prereq.description || prereq.description.trim() === '') {
+      errors.push({
+        field: `${fieldLabel}.description`,
+        message: `Prerequisite ${index + 1}: description is required`,
+        severity: 'error'
+      });
+    }
+
+    if (prereq.quickLinks && prereq.quickLinks.length > 0) {
+      prereq.quickLinks.forEach((link, linkIndex) => {
+        if (!link.title || link.title.trim() === '') {
+          warnings.push({
+            field: `${fieldLabel}.quickLinks[${linkIndex}].title`,
+            message: `Prerequisite ${index + 1}, Quick Link ${linkIndex + 1}: title is missing`
+          });
+        }
+        if (!link.url || link.url.trim() === '') {
+          warnings.push({
+            field: `${fieldLabel}.quickLinks[${linkIndex}].url`,
+            message: `Prerequisite ${index + 1}, Quick Link ${linkIndex + 1}: URL is missing`
+          });
+        }
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
+
+function validateReferences(brokenReferences: ResolvedRecipeReference[]): ValidationWarning[] {
+  return brokenReferences.map(reference => ({
+    field: reference.field,
+    message: reference.kind === 'prerequisite'
+      ? `Prerequisite link "${reference.title || reference.url}" does not match any recipe`
+      : `Related recipe "${reference.title || reference.url}" does not match any recipe`
+  }));
+}
+
+function validateGeneralImages(images: GeneralImage[]): ValidationGroup {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  images.forEach((image, index) => {
+    const fieldLabel = `generalImages[${index}]`;
+
+    if (!image.url || image.url.trim() === '') {
+      errors.push({
+        field: `${fieldLabel}.url`,
+        message: `General image ${index + 1}: image URL is required`,
+        severity: 'error'
+      });
+    }
+
+    if (!image.alt || image.alt.trim() === '') {
+      warnings.push({
+        field: `${fieldLabel}.alt`,
+        message: `General image ${index + 1}: alt text is missing`
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
@@ -1,6 +1,15 @@
 import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
-import { RecipeData, RelatedRecipe, normalizeCategory } from '../../../core/models/recipe.model';
+import { PublicationState, RecipeData, RecipePublication, RelatedRecipe, normalizeCategory } from '../../../core/models/recipe.model';
+import {
+  DEFAULT_PUBLICATION,
+  PUBLICATION_STATES,
+  PUBLICATION_STATE_LABELS,
+  PUBLICATION_STATUS_LABELS,
+  getPublicationStatus,
+  getScheduleError
+} from '../../../core/publication';
 import { TrackByUtil } from '../../../../shared/utils/trackby.util';
+import { GraphService } from '../../../core/services/graph.service';
 
 @Component({
   selector: 'app-basic-info',
@@ -10,21 +19,58 @@ import { TrackByUtil } from '../../../../shared/utils/trackby.util';
 })
 export class BasicInfoComponent {
   @Input() recipe!: RecipeData;
-  @Input() isActive: boolean = true;
+  @Input() publication: RecipePublication = DEFAULT_PUBLICATION;
   @Input() categories: string[] = [];
 
-  @Output() recipeChange = new EventEmitter<void>();
-  @Output() activeChange = new EventEmitter<boolean>();
+  @Output() recipeChange = new EventEmitter<string | undefined>();  // Undo label for structural changes
+  @Output() publicationChange = new EventEmitter<RecipePublication>();
 
   showCategoryDropdown = false;
 
-  onRecipeChange(): void {
-    this.recipeChange.emit();
+  readonly publicationStates = PUBLICATION_STATES;
+  readonly publicationStateLabels = PUBLICATION_STATE_LABELS;
+
+  constructor(private graphService: GraphService) {}
+
+  onRecipeChange(label?: string): void {
+    this.recipeChange.emit(label);
+  }
+
+  // Publication methods
+  get statusLabel(): string {
+    return PUBLICATION_STATUS_LABELS[getPublicationStatus(this.publication)];
+  }
+
+  get scheduleError(): string | null {
+    return getScheduleError(this.publication);
   }
 
-  onActiveChange(): void {
-    this.activeChange.emit(this.isActive);
-    this.onRecipeChange();
+  get publishAtInput(): string {
+    return this.toDateTimeInput(this.publication.publishAt);
+  }
+
+  get unpublishAtInput(): string {
+    return this.toDateTimeInput(this.publication.unpublishAt);
+  }
+
+  onStateChange(state: PublicationState): void {
+    this.updatePublication({ ...this.publication, state });
+  }
+
+  /**
+   * datetime-local inputs hold local time without a zone; the index stores ISO strings
+   */
+  onScheduleChange(field: 'publishAt' | 'unpublishAt', value: string): void {
+    const publication = { ...this.publication };
+    const date = value ? new Date(value) : null;
+
+    if (date && !isNaN(date.getTime())) {
+      publication[field] = date.toISOString();
+    } else {
+      delete publication[field];
+    }
+
+    this.updatePublication(publication);
   }
 
   // Category management methods
@@ -42,7 +88,7 @@ export class BasicInfoComponent {
     }
 
     this.recipe.category = categories;
-    this.onRecipeChange();
+    this.onRecipeChange('Change categories');
   }
 
   isCategorySelected(category: string): boolean {
@@ -58,19 +104,19 @@ export class BasicInfoComponent {
   }
 
   addDSPVersion(): void {
-    this.ensureArrayAndPush('DSPVersions', '');
+    this.ensureArrayAndPush('DSPVersions', '', 'Add DSP version');
   }
 
   removeDSPVersion(index: number): void {
-    this.removeFromArray('DSPVersions', index);
+    this.removeFromArray('DSPVersions', index, 'Remove DSP version');
   }
 
   addKeyword(): void {
-    this.ensureArrayAndPush('keywords', '');
+    this.ensureArrayAndPush('keywords', '', 'Add keyword');
   }
 
   removeKeyword(index: number): void {
-    this.removeFromArray('keywords', index);
+    this.removeFromArray('keywords', index, 'Remove keyword');
   }
 
   addRelatedRecipe(): void {
@@ -78,16 +124,39 @@ export class BasicInfoComponent {
       title: '',
       url: ''
     };
-    this.ensureArrayAndPush('relatedRecipes', newRelated);
+    this.ensureArrayAndPush('relatedRecipes', newRelated, 'Add related recipe');
   }
 
   removeRelatedRecipe(index: number): void {
-    this.removeFromArray('relatedRecipes', index);
+    this.removeFromArray('relatedRecipes', index, 'Remove related recipe');
+  }
+
+  /**
+   * A filled-in related recipe that no loaded recipe matches
+   */
+  isBrokenRelated(related: RelatedRecipe): boolean {
+    return !!(related.title?.trim() || related.url?.trim()) &&
+      this.graphService.isBrokenReference({ kind: 'related', title: related.title, url: related.url });
   }
 
   trackByIndex = TrackByUtil.index;
 
-  private ensureArrayAndPush<T>(key: keyof RecipeData, item: T): void {
+  private updatePublication(publication: RecipePublication): void {
+    this.publication = publication;
+    this.publicationChange.emit(publication);
+    this.onRecipeChange('Change publication');
+  }
+
+  private toDateTimeInput(value: string | undefined): string {
+    if (!value) return '';
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return '';
+
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+  }
+
+  private ensureArrayAndPush<T>(key: keyof RecipeData, item: T, label: string): void {
     if (!this.recipe) return;
 
     if (!(this.recipe[key] as any)) {
@@ -95,14 +164,14 @@ export class BasicInfoComponent {
     }
 
     (this.recipe[key] as T[]).push(item);
-    this.onRecipeChange();
+    this.onRecipeChange(label);
   }
 
-  private removeFromArray(key: keyof RecipeData, index: number): void {
+  private removeFromArray(key: keyof RecipeData, index: number, label: string): void {
     const array = this.recipe?.[key] as any[];
     if (!array) return;
 
     array.splice(index, 1);
-    this.onRecipeChange();
+    this.onRecipeChange(label);
   }
 }
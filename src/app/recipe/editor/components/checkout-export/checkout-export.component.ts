@@ -0,0 +1,59 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { DirectoryExportPlan } from '../../../core/services/io.types';
+import { ExportFileStatus, PlannedExportFile } from '../../../core/file-system';
+
+/**
+ * Dry-run list of the files a checkout export would write, confirmed before writing
+ */
+@Component({
+  selector: 'app-checkout-export',
+  templateUrl: './checkout-export.component.html',
+  styleUrls: ['./checkout-export.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CheckoutExportComponent {
+  @Input() set plan(plan: DirectoryExportPlan) {
+    this._plan = plan;
+    this.changedFiles = plan.files.filter(file => file.status !== 'unchanged');
+    this.unchangedFiles = plan.files.filter(file => file.status === 'unchanged');
+  }
+  get plan(): DirectoryExportPlan {
+    return this._plan;
+  }
+
+  @Input() isWriting = false;
+  @Output() confirm = new EventEmitter<void>();
+  @Output() close = new EventEmitter<void>();
+
+  changedFiles: PlannedExportFile[] = [];
+  unchangedFiles: PlannedExportFile[] = [];
+  showUnchanged = false;
+
+  private _plan!: DirectoryExportPlan;
+
+  // A recipes directory always has an index.json; creating one means the wrong folder was picked
+  get isMissingIndex(): boolean {
+    return this.plan.files.some(file => file.path === 'index.json' && file.status === 'create');
+  }
+
+  getCount(status: ExportFileStatus): number {
+    return this.plan.files.filter(file => file.status === status).length;
+  }
+
+  getStatusLabel(status: ExportFileStatus): string {
+    switch (status) {
+      case 'create': return 'New';
+      case 'update': return 'Updated';
+      default: return 'Unchanged';
+    }
+  }
+
+  onConfirm(): void {
+    this.confirm.emit();
+  }
+
+  onClose(): void {
+    if (this.isWriting) return;
+    this.close.emit();
+  }
+}
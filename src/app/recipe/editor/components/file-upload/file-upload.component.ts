@@ -4,6 +4,7 @@ import { TrackByUtil } from '../../../../shared/utils/trackby.util';
 import { FileStorageAdapter } from '../../../core/storage';
 import { NotificationService } from '../../../../shared/services/notification.service';
 import { LoggerService } from '../../../core/services/logger.service';
+import { UndoRedoService } from '../../services/undo-redo.service';
 
 @Component({
   selector: 'app-file-upload',
@@ -13,16 +14,17 @@ import { LoggerService } from '../../../core/services/logger.service';
 })
 export class FileUploadComponent {
   @Input() downloadableExecutables: DownloadableExecutable[] = [];
-  @Output() downloadableExecutablesChange = new EventEmitter<void>();
+  @Output() downloadableExecutablesChange = new EventEmitter<string | undefined>();
 
   constructor(
     private fileStorageService: FileStorageAdapter,
     private notificationService: NotificationService,
+    private undoRedoService: UndoRedoService,
     private logger: LoggerService
   ) {}
 
-  onChange(): void {
-    this.downloadableExecutablesChange.emit();
+  onChange(label?: string): void {
+    this.downloadableExecutablesChange.emit(label);
   }
 
   addDownloadableExecutable(): void {
@@ -31,7 +33,7 @@ export class FileUploadComponent {
     };
 
     this.downloadableExecutables.push(newExecutable);
-    this.onChange();
+    this.onChange('Add downloadable file');
   }
 
   async removeDownloadableExecutable(index: number): Promise<void> {
@@ -41,11 +43,12 @@ export class FileUploadComponent {
 
     if (executable.filePath) {
       const fileName = this.getJsonFileName(executable);
+      this.undoRedoService.keepRemovedFile('json', fileName, await this.fileStorageService.getJsonFile(fileName));
       await this.fileStorageService.deleteJsonFile(fileName);
     }
 
     this.downloadableExecutables.splice(index, 1);
-    this.onChange();
+    this.onChange('Remove downloadable file');
   }
 
   async onJsonFileDrop(event: DragEvent, index: number): Promise<void> {
@@ -123,7 +126,7 @@ export class FileUploadComponent {
       await this.fileStorageService.storeJsonFile(fileName, file);
 
       this.downloadableExecutables[index].filePath = `downloadExecutables/${fileName}`;
-      this.onChange();
+      this.onChange('Upload JSON file');
 
       this.notificationService.success(`JSON file uploaded: ${fileName}`);
     } catch (error) {
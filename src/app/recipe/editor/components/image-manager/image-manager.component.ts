@@ -1,11 +1,15 @@
 import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy, ChangeDetectorRef, OnChanges, SimpleChanges, AfterViewInit } from '@angular/core';
+import { CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
 import { StepMedia, GeneralImage } from '../../../core/models/recipe.model';
 import { TrackByUtil } from '../../../../shared/utils/trackby.util';
 import { FileStorageAdapter } from '../../../core/storage';
 import { ImageNamingService } from '../../services/image-naming.service';
 import { ImageLoaderService } from '../../services/image-loader.service';
+import { ImageManagementService } from '../../services/image-management.service';
+import { UndoRedoService } from '../../services/undo-redo.service';
 import { NotificationService } from '../../../../shared/services/notification.service';
 import { LoggerService } from '../../../core/services/logger.service';
+import { MediaAnnotationResult } from '../media-annotator/media-annotator.component';
 
 @Component({
   selector: 'app-image-manager',
@@ -43,8 +47,10 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
   @Input() recipeId: string = '';
   @Input() recipeCategory: string = '';
 
-  @Output() mediaChange = new EventEmitter<void>();
-  @Output() generalImagesChange = new EventEmitter<void>();
+  @Output() mediaChange = new EventEmitter<string | undefined>();
+  @Output() generalImagesChange = new EventEmitter<string | undefined>();
+
+  annotatingIndex: number | null = null;
 
   private isInitialized = false;
 
@@ -52,6 +58,8 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
     private fileStorageService: FileStorageAdapter,
     private imageNamingService: ImageNamingService,
     private imageLoaderService: ImageLoaderService,
+    private imageManagementService: ImageManagementService,
+    private undoRedoService: UndoRedoService,
     private notificationService: NotificationService,
     private logger: LoggerService,
     private cdr: ChangeDetectorRef
@@ -141,7 +149,7 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
     }
 
     this.media.push(newMedia);
-    this.mediaChange.emit();
+    this.mediaChange.emit('Add media');
   }
 
   async removeMedia(mediaIndex: number): Promise<void> {
@@ -151,11 +159,51 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
 
     if (media.url && media.url.startsWith('images/')) {
       const baseName = this.imageNamingService.extractBaseNameFromUrl(media.url);
+      this.undoRedoService.keepRemovedFile('image', baseName, await this.fileStorageService.getImage(baseName));
       await this.fileStorageService.deleteImage(baseName);
     }
 
     this.media.splice(mediaIndex, 1);
-    this.mediaChange.emit();
+    this.mediaChange.emit('Remove media');
+  }
+
+  get annotatingMedia(): StepMedia | null {
+    return this.annotatingIndex !== null ? this.media?.[this.annotatingIndex] || null : null;
+  }
+
+  openAnnotator(mediaIndex: number): void {
+    this.annotatingIndex = mediaIndex;
+  }
+
+  closeAnnotator(): void {
+    this.annotatingIndex = null;
+  }
+
+  onAnnotationsSave(result: MediaAnnotationResult): void {
+    const media = this.annotatingMedia;
+    this.annotatingIndex = null;
+    if (!media) return;
+
+    if (result.annotations.length > 0) {
+      media.annotations = result.annotations;
+    } else {
+      delete media.annotations;
+    }
+
+    if (result.flatten) {
+      media.flattenAnnotations = true;
+    } else {
+      delete media.flattenAnnotations;
+    }
+
+    this.mediaChange.emit('Annotate image');
+  }
+
+  onMediaReorder(event: CdkDragDrop<StepMedia[]>): void {
+    if (!this.media || event.previousIndex === event.currentIndex) return;
+
+    moveItemInArray(this.media, event.previousIndex, event.currentIndex);
+    this.mediaChange.emit('Move media');
   }
 
   async onImageDrop(event: DragEvent): Promise<void> {
@@ -184,7 +232,7 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
     }
 
     this.generalImages.push(newImage);
-    this.generalImagesChange.emit();
+    this.generalImagesChange.emit('Add general image');
   }
 
   async removeGeneralImage(imageIndex: number): Promise<void> {
@@ -193,15 +241,23 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
     const image = this.generalImages[imageIndex];
 
     if (image.imageId) {
+      this.undoRedoService.keepRemovedFile('image', image.imageId, await this.fileStorageService.getImage(image.imageId));
       await this.fileStorageService.deleteImage(image.imageId);
     }
 
     this.generalImages.splice(imageIndex, 1);
-    this.generalImagesChange.emit();
+    this.generalImagesChange.emit('Remove general image');
 
     this.notificationService.success('General image removed');
   }
 
+  onGeneralImageReorder(event: CdkDragDrop<GeneralImage[]>): void {
+    if (!this.generalImages || event.previousIndex === event.currentIndex) return;
+
+    moveItemInArray(this.generalImages, event.previousIndex, event.currentIndex);
+    this.generalImagesChange.emit('Move general image');
+  }
+
   async onGeneralImageDrop(event: DragEvent): Promise<void> {
     event.preventDefault();
     const files = event.dataTransfer?.files;
@@ -225,11 +281,12 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
     }
 
     try {
+      const optimized = await this.imageManagementService.optimizeImage(file);
 
       const baseName = `step-${this.stepIndex}-image-${Date.now()}`;
-      const extension = this.imageNamingService.getFileExtension(file);
+      const extension = this.imageNamingService.getFileExtension(optimized);
 
-      await this.fileStorageService.storeImage(baseName, file);
+      await this.fileStorageService.storeImage(baseName, optimized);
 
       const media: StepMedia = {
         type: 'image',
@@ -240,7 +297,7 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
       await this.imageLoaderService.loadImageForMedia(media);
 
       this.media.push(media);
-      this.mediaChange.emit();
+      this.mediaChange.emit('Upload image');
 
       this.notificationService.success(`Image uploaded: ${baseName}.${extension}`);
 
@@ -260,11 +317,12 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
     }
 
     try {
+      const optimized = await this.imageManagementService.optimizeImage(file);
 
       const baseName = `general-image-${Date.now()}`;
-      const extension = this.imageNamingService.getFileExtension(file);
+      const extension = this.imageNamingService.getFileExtension(optimized);
 
-      await this.fileStorageService.storeImage(baseName, file);
+      await this.fileStorageService.storeImage(baseName, optimized);
 
       const generalImage: GeneralImage = {
         type: 'image',
@@ -276,7 +334,7 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
       await this.imageLoaderService.loadImageForGeneralImage(generalImage);
 
       this.generalImages.push(generalImage);
-      this.generalImagesChange.emit();
+      this.generalImagesChange.emit('Upload general image');
 
       this.notificationService.success(`General image added: ${baseName}.${extension}`);
 
@@ -308,11 +366,11 @@ export class ImageManagerComponent implements OnChanges, AfterViewInit {
 
   trackByIndex = TrackByUtil.index;
 
-  onChange(): void {
+  onChange(label?: string): void {
     if (this.stepIndex >= 0) {
-      this.mediaChange.emit();
+      this.mediaChange.emit(label);
     } else {
-      this.generalImagesChange.emit();
+      this.generalImagesChange.emit(label);
     }
   }
 }
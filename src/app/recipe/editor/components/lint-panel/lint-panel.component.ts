@@ -0,0 +1,57 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { LintIssue, LintSeverity, countLintIssues } from '../../../core/lint';
+import { TrackByUtil } from '../../../../shared/utils/trackby.util';
+
+@Component({
+  selector: 'app-lint-panel',
+  templateUrl: './lint-panel.component.html',
+  styleUrls: ['./lint-panel.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LintPanelComponent {
+  @Input() set issues(issues: LintIssue[]) {
+    this._issues = issues || [];
+    this.counts = countLintIssues(this._issues);
+    this.fixableCount = this._issues.filter(issue => issue.fix).length;
+  }
+  get issues(): LintIssue[] {
+    return this._issues;
+  }
+
+  @Output() fix = new EventEmitter<LintIssue>();
+  @Output() fixAll = new EventEmitter<void>();
+
+  readonly severities: LintSeverity[] = ['error', 'warning', 'info'];
+  counts: { [severity in LintSeverity]: number } = { error: 0, warning: 0, info: 0 };
+  fixableCount = 0;
+  expanded = false;
+  hiddenSeverities = new Set<LintSeverity>();
+
+  trackByIndex = TrackByUtil.index;
+
+  private _issues: LintIssue[] = [];
+
+  get visibleIssues(): LintIssue[] {
+    return this._issues.filter(issue => !this.hiddenSeverities.has(issue.severity));
+  }
+
+  toggleExpanded(): void {
+    this.expanded = !this.expanded;
+  }
+
+  toggleSeverity(severity: LintSeverity): void {
+    if (this.hiddenSeverities.has(severity)) {
+      this.hiddenSeverities.delete(severity);
+    } else {
+      this.hiddenSeverities.add(severity);
+    }
+  }
+
+  getSeverityIcon(severity: LintSeverity): string {
+    switch (severity) {
+      case 'error': return '✕';
+      case 'warning': return '!';
+      default: return 'i';
+    }
+  }
+}
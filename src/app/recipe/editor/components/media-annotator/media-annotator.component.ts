@@ -0,0 +1,206 @@
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ChangeDetectionStrategy,
+  ChangeDetectorRef,
+  AfterViewInit,
+  ElementRef,
+  ViewChild
+} from '@angular/core';
+import { MediaAnnotation, MediaAnnotationType } from '../../../core/models/recipe.model';
+import { DEFAULT_ANNOTATION_COLOR, drawAnnotations } from '../../../core/annotations';
+
+export interface MediaAnnotationResult {
+  annotations: MediaAnnotation[];
+  flatten: boolean;
+}
+
+interface AnnotationTool {
+  type: MediaAnnotationType;
+  label: string;
+  icon: string;
+}
+
+// Drags smaller than this fraction of the image are treated as stray clicks
+const MIN_SHAPE_SIZE = 0.01;
+
+@Component({
+  selector: 'app-media-annotator',
+  templateUrl: './media-annotator.component.html',
+  styleUrls: ['./media-annotator.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MediaAnnotatorComponent implements AfterViewInit {
+  @Input() imageUrl = '';
+  @Input() alt = '';
+  @Input() set annotations(value: MediaAnnotation[] | undefined) {
+    this.workingAnnotations = (value || []).map(annotation => ({ ...annotation }));
+  }
+  @Input() flatten = false;
+  @Output() save = new EventEmitter<MediaAnnotationResult>();
+  @Output() close = new EventEmitter<void>();
+
+  @ViewChild('canvas') canvasRef?: ElementRef<HTMLCanvasElement>;
+
+  readonly tools: AnnotationTool[] = [
+    { type: 'arrow', label: 'Arrow', icon: '↗' },
+    { type: 'rect', label: 'Rectangle', icon: '▭' },
+    { type: 'callout', label: 'Numbered callout', icon: '①' },
+    { type: 'text', label: 'Text', icon: 'T' },
+    { type: 'blur', label: 'Blur / redact', icon: '▦' }
+  ];
+  readonly colors = [DEFAULT_ANNOTATION_COLOR, '#fb8c00', '#fdd835', '#43a047', '#1e88e5', '#212121'];
+
+  workingAnnotations: MediaAnnotation[] = [];
+  tool: MediaAnnotationType = 'arrow';
+  color = DEFAULT_ANNOTATION_COLOR;
+  text = '';
+  isLoading = true;
+  loadError = false;
+
+  private image: HTMLImageElement | null = null;
+  private draft: MediaAnnotation | null = null;
+
+  constructor(private cdr: ChangeDetectorRef) {}
+
+  async ngAfterViewInit(): Promise<void> {
+    try {
+      const image = new Image();
+      image.src = this.imageUrl;
+      await image.decode();
+      this.image = image;
+    } catch {
+      this.loadError = true;
+    }
+
+    this.isLoading = false;
+    this.cdr.markForCheck();
+
+    // The canvas is only rendered once loading has finished
+    setTimeout(() => this.redraw());
+  }
+
+  get isTextTool(): boolean {
+    return this.tool === 'text';
+  }
+
+  selectTool(type: MediaAnnotationType): void {
+    this.tool = type;
+  }
+
+  selectColor(color: string): void {
+    this.color = color;
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    const point = this.toImagePoint(event);
+    if (!point) return;
+
+    switch (this.tool) {
+      case 'callout':
+        this.addAnnotation({ type: 'callout', ...point, color: this.color });
+        return;
+      case 'text':
+        if (!this.text.trim()) return;
+        this.addAnnotation({ type: 'text', ...point, text: this.text.trim(), color: this.color });
+        return;
+      default:
+        this.draft = {
+          type: this.tool,
+          ...point,
+          x2: point.x,
+          y2: point.y,
+          ...(this.tool !== 'blur' ? { color: this.color } : {})
+        };
+        (event.target as HTMLElement).setPointerCapture?.(event.pointerId);
+    }
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (!this.draft) return;
+
+    const point = this.toImagePoint(event);
+    if (!point) return;
+
+    this.draft.x2 = point.x;
+    this.draft.y2 = point.y;
+    this.redraw();
+  }
+
+  onPointerUp(): void {
+    const draft = this.draft;
+    if (!draft) return;
+
+    this.draft = null;
+    const width = Math.abs((draft.x2 ?? draft.x) - draft.x);
+    const height = Math.abs((draft.y2 ?? draft.y) - draft.y);
+    const isBigEnough = draft.type === 'arrow'
+      ? Math.hypot(width, height) >= MIN_SHAPE_SIZE
+      : width >= MIN_SHAPE_SIZE && height >= MIN_SHAPE_SIZE;
+
+    if (isBigEnough) {
+      this.addAnnotation(draft);
+    } else {
+      this.redraw();
+    }
+  }
+
+  undo(): void {
+    this.workingAnnotations = this.workingAnnotations.slice(0, -1);
+    this.redraw();
+  }
+
+  clearAll(): void {
+    this.workingAnnotations = [];
+    this.redraw();
+  }
+
+  onSave(): void {
+    this.save.emit({ annotations: this.workingAnnotations, flatten: this.flatten });
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+
+  private addAnnotation(annotation: MediaAnnotation): void {
+    this.workingAnnotations = [...this.workingAnnotations, annotation];
+    this.redraw();
+  }
+
+  private redraw(): void {
+    const canvas = this.canvasRef?.nativeElement;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !this.image) return;
+
+    if (canvas.width !== this.image.naturalWidth || canvas.height !== this.image.naturalHeight) {
+      canvas.width = this.image.naturalWidth;
+      canvas.height = this.image.naturalHeight;
+    }
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(this.image, 0, 0);
+
+    const annotations = this.draft ? [...this.workingAnnotations, this.draft] : this.workingAnnotations;
+    drawAnnotations(context, canvas.width, canvas.height, annotations);
+  }
+
+  /**
+   * Pointer position as fractions of the image, rounded to keep recipe.json readable
+   */
+  private toImagePoint(event: PointerEvent): { x: number; y: number } | null {
+    const canvas = this.canvasRef?.nativeElement;
+    if (!canvas) return null;
+
+    const rect = canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+
+    const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height)
+    };
+  }
+}
@@ -1,5 +1,8 @@
 import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
 import { PrerequisiteRecipe, QuickLink } from '../../../core/models/recipe.model';
+import { GraphService } from '../../../core/services/graph.service';
+import { isRecipeLink } from '../../../core/graph';
 import { TrackByUtil } from '../../../../shared/utils/trackby.util';
 
 @Component({
@@ -10,10 +13,12 @@ import { TrackByUtil } from '../../../../shared/utils/trackby.util';
 })
 export class PrerequisitesEditorComponent {
   @Input() prerequisites: PrerequisiteRecipe[] = [];
-  @Output() prerequisitesChange = new EventEmitter<void>();
+  @Output() prerequisitesChange = new EventEmitter<string | undefined>();
 
-  onChange(): void {
-    this.prerequisitesChange.emit();
+  constructor(private graphService: GraphService) {}
+
+  onChange(label?: string): void {
+    this.prerequisitesChange.emit(label);
   }
 
   addPrerequisite(): void {
@@ -23,14 +28,21 @@ export class PrerequisitesEditorComponent {
     };
 
     this.prerequisites.push(newPrereq);
-    this.onChange();
+    this.onChange('Add prerequisite');
   }
 
   removePrerequisite(index: number): void {
     if (!this.prerequisites) return;
 
     this.prerequisites.splice(index, 1);
-    this.onChange();
+    this.onChange('Remove prerequisite');
+  }
+
+  onPrerequisiteDrop(event: CdkDragDrop<PrerequisiteRecipe[]>): void {
+    if (!this.prerequisites || event.previousIndex === event.currentIndex) return;
+
+    moveItemInArray(this.prerequisites, event.previousIndex, event.currentIndex);
+    this.onChange('Move prerequisite');
   }
 
   addQuickLink(prereqIndex: number): void {
@@ -42,14 +54,22 @@ export class PrerequisitesEditorComponent {
     };
 
     this.prerequisites[prereqIndex].quickLinks.push(newLink);
-    this.onChange();
+    this.onChange('Add quick link');
   }
 
   removeQuickLink(prereqIndex: number, linkIndex: number): void {
     if (!this.prerequisites?.[prereqIndex]) return;
 
     this.prerequisites[prereqIndex].quickLinks.splice(linkIndex, 1);
-    this.onChange();
+    this.onChange('Remove quick link');
+  }
+
+  /**
+   * A recipe path link which no loaded recipe matches
+   */
+  isBrokenLink(link: QuickLink): boolean {
+    return isRecipeLink(link.url) &&
+      this.graphService.isBrokenReference({ kind: 'prerequisite', title: link.title, url: link.url });
   }
 
   trackByIndex = TrackByUtil.index;
@@ -1,4 +1,21 @@
-import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy, HostBinding } from '@angular/core';
+import { Recipe } from '../../../core/models/recipe.model';
+import { LocalStorageService } from '../../../core/services/local-storage.service';
+import { RecipeContentSection } from '../../../page/recipe-content/recipe-content.component';
+
+export type PreviewMode = 'live' | 'json';
+export type PreviewDevice = 'desktop' | 'mobile';
+
+interface PreviewLayout {
+  mode: PreviewMode;
+  device: PreviewDevice;
+  width: number;
+}
+
+const LAYOUT_STORAGE_KEY = 'recipe-editor-preview-layout';
+const MIN_WIDTH = 320;
+const MAX_WIDTH = 960;
+const DEFAULT_LAYOUT: PreviewLayout = { mode: 'live', device: 'desktop', width: 480 };
 
 @Component({
   selector: 'app-preview-panel',
@@ -8,8 +25,26 @@ import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from
 })
 export class PreviewPanelComponent {
   @Input() jsonPreview: string = '';
+  @Input() previewRecipe: Recipe | null = null;
   @Output() copyToClipboard = new EventEmitter<string>();
   @Output() openPreviewInNewTab = new EventEmitter<void>();
+  @Output() sectionSelect = new EventEmitter<RecipeContentSection>();
+
+  mode: PreviewMode;
+  device: PreviewDevice;
+  isResizing = false;
+
+  @HostBinding('style.width.px') width: number;
+
+  // Pointer position and width when the drag started
+  private resizeStart: { x: number; width: number } | null = null;
+
+  constructor(private storage: LocalStorageService) {
+    const layout = { ...DEFAULT_LAYOUT, ...this.storage.getItem<Partial<PreviewLayout>>(LAYOUT_STORAGE_KEY) };
+    this.mode = layout.mode;
+    this.device = layout.device;
+    this.width = this.clampWidth(layout.width);
+  }
 
   onCopyToClipboard(): void {
     this.copyToClipboard.emit(this.jsonPreview);
@@ -18,4 +53,55 @@ export class PreviewPanelComponent {
   onOpenPreviewInNewTab(): void {
     this.openPreviewInNewTab.emit();
   }
+
+  setMode(mode: PreviewMode): void {
+    this.mode = mode;
+    this.saveLayout();
+  }
+
+  setDevice(device: PreviewDevice): void {
+    this.device = device;
+    this.saveLayout();
+  }
+
+  // ==================== Resizing ====================
+
+  startResize(event: PointerEvent): void {
+    event.preventDefault();
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    this.resizeStart = { x: event.clientX, width: this.width };
+    this.isResizing = true;
+  }
+
+  onResize(event: PointerEvent): void {
+    if (!this.resizeStart) return;
+
+    // The pane sits on the right, so dragging left widens it
+    this.width = this.clampWidth(this.resizeStart.width + this.resizeStart.x - event.clientX);
+  }
+
+  endResize(): void {
+    if (!this.resizeStart) return;
+
+    this.resizeStart = null;
+    this.isResizing = false;
+    this.saveLayout();
+  }
+
+  resetWidth(): void {
+    this.width = DEFAULT_LAYOUT.width;
+    this.saveLayout();
+  }
+
+  private clampWidth(width: number): number {
+    return Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, Math.round(width) || DEFAULT_LAYOUT.width));
+  }
+
+  private saveLayout(): void {
+    this.storage.setItem<PreviewLayout>(LAYOUT_STORAGE_KEY, {
+      mode: this.mode,
+      device: this.device,
+      width: this.width
+    });
+  }
 }
@@ -0,0 +1,57 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { RecipeDiffResult } from '../../services/recipe-diff.service';
+import { ConfigChange, DiffChangeType, StepChange } from '../../utils/recipe-diff.util';
+
+@Component({
+  selector: 'app-recipe-diff',
+  templateUrl: './recipe-diff.component.html',
+  styleUrls: ['./recipe-diff.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RecipeDiffComponent {
+  @Input() result: RecipeDiffResult | null = null;
+  @Input() heading = 'Changes since published version';
+  @Input() isLoading = false;
+  @Output() close = new EventEmitter<void>();
+
+  showUnchangedSteps = false;
+
+  get visibleSteps(): StepChange[] {
+    const steps = this.result?.diff?.steps || [];
+    return this.showUnchangedSteps ? steps : steps.filter(step => step.type !== 'unchanged');
+  }
+
+  get unchangedStepCount(): number {
+    return (this.result?.diff?.steps || []).filter(step => step.type === 'unchanged').length;
+  }
+
+  getChangeLabel(type: DiffChangeType): string {
+    switch (type) {
+      case 'added': return 'Added';
+      case 'removed': return 'Removed';
+      case 'modified': return 'Modified';
+      case 'moved': return 'Moved';
+      default: return 'Unchanged';
+    }
+  }
+
+  getStepPosition(step: StepChange): string {
+    if (step.type === 'moved' && step.fromIndex !== undefined && step.toIndex !== undefined) {
+      return `Step ${step.fromIndex + 1} → ${step.toIndex + 1}`;
+    }
+    const index = step.toIndex ?? step.fromIndex ?? 0;
+    return `Step ${index + 1}`;
+  }
+
+  getVisibleConfigChanges(step: StepChange): ConfigChange[] {
+    return step.configChanges.filter(change => change.type !== 'unchanged');
+  }
+
+  isVideo(mediaType: string): boolean {
+    return mediaType === 'video';
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+}
@@ -0,0 +1,35 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { RecipeSnapshot } from '../../services/version-history.service';
+import { TrackByUtil } from '../../../../shared/utils/trackby.util';
+
+@Component({
+  selector: 'app-version-history',
+  templateUrl: './version-history.component.html',
+  styleUrls: ['./version-history.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class VersionHistoryComponent {
+  @Input() recipeTitle = '';
+  @Input() snapshots: RecipeSnapshot[] = [];
+  @Input() isLoading = false;
+  @Input() retentionLimit = 0;
+  @Input() retentionOptions: readonly number[] = [];
+  @Output() compare = new EventEmitter<RecipeSnapshot>();
+  @Output() restore = new EventEmitter<RecipeSnapshot>();
+  @Output() retentionLimitChange = new EventEmitter<number>();
+  @Output() close = new EventEmitter<void>();
+
+  trackById = TrackByUtil.id;
+
+  getStepCount(snapshot: RecipeSnapshot): number {
+    return snapshot.recipe.walkthrough?.length || 0;
+  }
+
+  onRetentionChange(value: string): void {
+    this.retentionLimitChange.emit(Number(value));
+  }
+
+  onClose(): void {
+    this.close.emit();
+  }
+}
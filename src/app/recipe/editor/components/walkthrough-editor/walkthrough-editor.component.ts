@@ -1,4 +1,5 @@
 import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { CdkDragDrop, moveItemInArray } from '@angular/cdk/drag-drop';
 import { WalkthroughStep, StepConfig } from '../../../core/models/recipe.model';
 import { FieldSuggestionService } from '../../services/field-suggestion.service';
 import { StepManagementUtil } from '../../utils/step-management.util';
@@ -8,11 +9,12 @@ import { TrackByUtil } from '../../../../shared/utils/trackby.util';
  * Walkthrough Editor Component
  *
  * Manages recipe walkthrough steps:
- * - Add/Remove/Reorder steps
+ * - Add/Remove/Reorder steps (buttons or drag and drop)
+ * - Drag and drop config rows
  * - Expand/Collapse steps
  * - Edit step name, content, config
  * - Custom step names
- * - Field autocomplete
+ * - Field name and value autocomplete
  *
  * Complex component handling step-by-step instructions.
  */
@@ -30,8 +32,9 @@ export class WalkthroughEditorComponent {
   @Input() recipeId: string = '';
   @Input() recipeCategory: string = '';
 
-  @Output() walkthroughChange = new EventEmitter<void>();
+  @Output() walkthroughChange = new EventEmitter<string | undefined>();
   @Output() stepExpansionToggle = new EventEmitter<number>();
+  @Output() stepFocus = new EventEmitter<number>();
 
   constructor(
     private fieldSuggestionService: FieldSuggestionService
@@ -40,10 +43,10 @@ export class WalkthroughEditorComponent {
   // ==================== Change Handler ====================
 
   /**
-   * Notify parent of changes
+   * Notify parent of changes. Structural changes pass a label for the undo history.
    */
-  onChange(): void {
-    this.walkthroughChange.emit();
+  onChange(label?: string): void {
+    this.walkthroughChange.emit(label);
   }
 
   // ==================== Step Management ====================
@@ -64,7 +67,7 @@ export class WalkthroughEditorComponent {
     const newStepIndex = this.walkthrough.length - 1;
     this.expandedSteps.add(newStepIndex);
 
-    this.onChange();
+    this.onChange('Add step');
   }
 
   /**
@@ -78,7 +81,7 @@ export class WalkthroughEditorComponent {
     // Reindex custom step names
     this.reindexCustomStepNames();
 
-    this.onChange();
+    this.onChange('Remove step');
   }
 
   /**
@@ -87,7 +90,8 @@ export class WalkthroughEditorComponent {
   moveStepUp(index: number): void {
     if (!this.walkthrough) return;
     if (StepManagementUtil.moveStepUp(this.walkthrough, index, this.customStepNames)) {
-      this.onChange();
+      this.moveExpandedState(index, index - 1);
+      this.onChange('Move step');
     }
   }
 
@@ -97,7 +101,19 @@ export class WalkthroughEditorComponent {
   moveStepDown(index: number): void {
     if (!this.walkthrough) return;
     if (StepManagementUtil.moveStepDown(this.walkthrough, index, this.customStepNames)) {
-      this.onChange();
+      this.moveExpandedState(index, index + 1);
+      this.onChange('Move step');
+    }
+  }
+
+  /**
+   * Handle a step dropped at a new position
+   */
+  onStepDrop(event: CdkDragDrop<WalkthroughStep[]>): void {
+    if (!this.walkthrough) return;
+    if (StepManagementUtil.moveStep(this.walkthrough, event.previousIndex, event.currentIndex, this.customStepNames)) {
+      this.moveExpandedState(event.previousIndex, event.currentIndex);
+      this.onChange('Move step');
     }
   }
 
@@ -106,6 +122,7 @@ export class WalkthroughEditorComponent {
    */
   toggleStep(index: number): void {
     this.stepExpansionToggle.emit(index);
+    this.stepFocus.emit(index);
   }
 
   /**
@@ -143,7 +160,7 @@ export class WalkthroughEditorComponent {
       // Clear custom name if switching away from Custom
       delete this.customStepNames[index];
     }
-    this.onChange();
+    this.onChange('Change step type');
   }
 
   /**
@@ -174,7 +191,7 @@ export class WalkthroughEditorComponent {
     };
 
     this.walkthrough[stepIndex].config.push(newConfig);
-    this.onChange();
+    this.onChange('Add config');
   }
 
   /**
@@ -184,7 +201,18 @@ export class WalkthroughEditorComponent {
     if (!this.walkthrough?.[stepIndex]) return;
 
     this.walkthrough[stepIndex].config.splice(configIndex, 1);
-    this.onChange();
+    this.onChange('Remove config');
+  }
+
+  /**
+   * Handle a config row dropped at a new position within its step
+   */
+  onConfigDrop(event: CdkDragDrop<StepConfig[]>, stepIndex: number): void {
+    const config = this.walkthrough?.[stepIndex]?.config;
+    if (!config || event.previousIndex === event.currentIndex) return;
+
+    moveItemInArray(config, event.previousIndex, event.currentIndex);
+    this.onChange('Move config');
   }
 
   // ==================== Autocomplete ====================
@@ -199,6 +227,16 @@ export class WalkthroughEditorComponent {
     }
   }
 
+  /**
+   * Handle value autocomplete selection from directive
+   */
+  onValueAutocompleteSelect(value: string, stepIndex: number, configIndex: number): void {
+    if (this.walkthrough?.[stepIndex]?.config?.[configIndex]) {
+      this.walkthrough[stepIndex].config[configIndex].value = value;
+      this.onChange();
+    }
+  }
+
   /**
    * Get field suggestions for a step
    */
@@ -206,8 +244,30 @@ export class WalkthroughEditorComponent {
     return this.fieldSuggestionService.getFieldSuggestions(stepName);
   }
 
+  /**
+   * Get value suggestions for a config field
+   */
+  getValueSuggestions(field: string): string[] {
+    return this.fieldSuggestionService.getValueSuggestions(field);
+  }
+
   // ==================== Helper Methods ====================
 
+  /**
+   * Keep a moved step expanded (or collapsed) at its new position
+   */
+  private moveExpandedState(fromIndex: number, toIndex: number): void {
+    const expanded = this.walkthrough.map((_, index) => this.expandedSteps.has(index));
+    moveItemInArray(expanded, fromIndex, toIndex);
+
+    this.expandedSteps.clear();
+    expanded.forEach((isExpanded, index) => {
+      if (isExpanded) {
+        this.expandedSteps.add(index);
+      }
+    });
+  }
+
   /**
    * Reindex custom step names after removal
    */
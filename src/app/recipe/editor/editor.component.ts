@@ -1,5 +1,5 @@
 import { Component, OnInit, OnDestroy, ViewChild, ElementRef, HostListener, ChangeDetectorRef } from '@angular/core';
-import { Subject, takeUntil, map } from 'rxjs';
+import { Subject, takeUntil, map, merge, debounceTime, distinctUntilChanged } from 'rxjs';
 import { LoggerService } from '../core/services/logger.service';
 import { NotificationService } from '../../shared/services/notification.service';
 import { ClipboardUtil } from '../../shared/utils/clipboard.util';
@@ -12,16 +12,32 @@ import { PreviewCoordinatorService } from './services/preview-coordinator.servic
 import { ChangeCoordinatorService } from './services/change-coordinator.service';
 import { FieldSuggestionService } from './services/field-suggestion.service';
 import { ImageManagementService } from './services/image-management.service';
+import { RecipeDiffService, RecipeDiffResult } from './services/recipe-diff.service';
+import { VersionHistoryService, RecipeSnapshot } from './services/version-history.service';
+import { UndoRedoService, EditorSnapshot } from './services/undo-redo.service';
+import { RecipeCloneService } from './services/recipe-clone.service';
+import { EditorSessionService, EditorSession } from './services/editor-session.service';
 import { EditorUtils } from './utils/editor.utils';
+import { RECIPE_TEMPLATES, RecipeTemplate } from './utils/recipe-templates';
 import { TrackByUtil } from '../../shared/utils/trackby.util';
-import { EDITOR_CONSTANTS } from './editor.constants';
+import { EDITOR_CONSTANTS, PREVIEW_SECTION_FIELDS } from './editor.constants';
 import {
   Recipe,
   RecipeData,
+  RecipePublication,
   EditorTab,
   normalizeCategory
 } from '../core/models/recipe.model';
-import { IOProgress } from '../core/services/io.types';
+import {
+  DEFAULT_PUBLICATION,
+  PUBLICATION_STATUSES,
+  PUBLICATION_STATUS_LABELS,
+  PublicationStatus
+} from '../core/publication';
+import { DirectoryExportPlan, IOProgress, RecipeImportReport, RecipeImportStatus } from '../core/services/io.types';
+import { LintService } from '../core/services/lint.service';
+import { LintIssue } from '../core/lint';
+import { RecipeContentSection } from '../page/recipe-content/recipe-content.component';
 
 @Component({
   selector: 'app-recipe-editor',
@@ -32,18 +48,22 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
   @ViewChild('fileInput', { static: false }) fileInput!: ElementRef;
 
   private destroy$ = new Subject<void>();
+  private autoSave$ = new Subject<void>();
 
   recipeList: Recipe[] = [];
   filteredRecipes: Recipe[] = [];
   editedRecipeIds = new Set<string>();
   state!: EditorState;
   currentRecipe: RecipeData | null = null;
-  currentIsActive = true;
+  currentPublication: RecipePublication = DEFAULT_PUBLICATION;
 
   protected readonly Math = Math;
 
   searchQuery = '';
   selectedCategory = '';
+  selectedStatus: PublicationStatus | '' = '';
+  readonly publicationStatuses = PUBLICATION_STATUSES;
+  readonly publicationStatusLabels = PUBLICATION_STATUS_LABELS;
   categories = ['Batch', 'Trigger', 'Data List', 'Action Button', 'Data Loader', 'General', 'Transformation', 'Query'];
 
   expandedSteps: Set<number> = new Set();
@@ -53,6 +73,33 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
   private tooltipHideTimeout: any;
 
   jsonPreview = '';
+  previewRecipe: Recipe | null = null;
+  lintIssues: LintIssue[] = [];
+
+  importReports: RecipeImportReport[] = [];
+  showImportReport = false;
+
+  diffResult: RecipeDiffResult | null = null;
+  diffHeading = '';
+  showDiff = false;
+  isDiffLoading = false;
+
+  checkoutPlan: DirectoryExportPlan | null = null;
+  isWritingCheckout = false;
+
+  historySnapshots: RecipeSnapshot[] = [];
+  historyRetentionLimit = 0;
+  readonly historyRetentionOptions = EDITOR_CONSTANTS.HISTORY_LIMIT_OPTIONS;
+  showHistory = false;
+  isHistoryLoading = false;
+
+  readonly recipeTemplates = RECIPE_TEMPLATES;
+  showTemplateMenu = false;
+  duplicatingRecipeId: string | null = null;
+
+  // Autosaved tabs found on load, until the user restores or discards them
+  recoverableSession: EditorSession | null = null;
+  private sessionChecked = false;
 
   stepOptions = [
     'Action',
@@ -87,6 +134,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
   }
 
   private previousTitle: string = '';
+  private isApplyingHistory = false;
 
   constructor(
     private store: Store,
@@ -97,6 +145,12 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     private changeCoordinatorService: ChangeCoordinatorService,
     private fieldSuggestionService: FieldSuggestionService,
     private imageManagementService: ImageManagementService,
+    private recipeDiffService: RecipeDiffService,
+    private versionHistoryService: VersionHistoryService,
+    private undoRedoService: UndoRedoService,
+    private recipeCloneService: RecipeCloneService,
+    private lintService: LintService,
+    private editorSessionService: EditorSessionService,
     private notificationService: NotificationService,
     private logger: LoggerService,
     private cdr: ChangeDetectorRef
@@ -106,11 +160,15 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.subscribeToState();
+    this.setupAutoSave();
+    this.checkForRecoverableSession();
     this.listManagementService.loadRecipes();
     // Don't create a new tab immediately - wait for recipes to load
   }
 
   ngOnDestroy(): void {
+    // Flush any autosave still waiting on the debounce
+    this.autoSaveSession();
     this.destroy$.next();
     this.destroy$.complete();
 
@@ -132,14 +190,8 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(recipes => {
         this.recipeList = recipes;
-
-        // Auto-load first recipe on initial load
-        if (recipes.length > 0 && this.state.tabs.length === 0) {
-          const firstRecipe = recipes[0];
-          this.logger.debug('Auto-loading first recipe', { recipeId: firstRecipe.id });
-          this.loadRecipeToEditor(firstRecipe);
-        }
-
+        this.fieldSuggestionService.indexUsedValues(recipes);
+        this.autoLoadFirstRecipe();
         this.cdr.markForCheck();
       });
 
@@ -163,8 +215,19 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
         this.currentRecipe = recipe;
         if (recipe) {
           this.updateJsonPreview();
+          this.updateLivePreview();
           this.initializeExpandedSteps();
         }
+        this.updateLintIssues();
+        this.cdr.markForCheck();
+      });
+
+    // Edits reach the live preview debounced; switching tabs rebuilds it right away
+    this.previewCoordinatorService.livePreview$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(({ source, preview }) => {
+        if (source !== this.currentRecipe) return;
+        this.previewRecipe = preview;
         this.cdr.markForCheck();
       });
 
@@ -191,6 +254,116 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
   }
 
 
+  // ==================== Autosave & Recovery ====================
+
+  /**
+   * Autosave every open tab once editing pauses. Recipe fields are edited in place,
+   * so changes arrive through autoSave$ as well as the tab list.
+   */
+  private setupAutoSave(): void {
+    merge(
+      this.store.editor$.pipe(map(e => e.tabs), distinctUntilChanged()),
+      this.stepManagementService.expandedSteps$,
+      this.stepManagementService.customStepNames$,
+      this.autoSave$
+    )
+      .pipe(
+        debounceTime(EDITOR_CONSTANTS.AUTO_SAVE_DEBOUNCE_MS),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.autoSaveSession());
+  }
+
+  private async autoSaveSession(): Promise<void> {
+    // Never overwrite a session the user has not yet restored or discarded
+    if (!this.sessionChecked || this.recoverableSession) return;
+
+    const { tabs, activeTabId } = this.store.getEditorState();
+    this.store.setEditorSaving(true);
+    const savedAt = await this.editorSessionService.saveSession(
+      tabs,
+      activeTabId,
+      this.expandedSteps,
+      this.customStepNames
+    );
+
+    if (savedAt) {
+      this.store.markEditorSaved(savedAt);
+    } else {
+      this.store.setEditorSaving(false);
+    }
+  }
+
+  private async checkForRecoverableSession(): Promise<void> {
+    // Tabs still in the store (e.g. after navigating back) are newer than any autosave
+    const session = this.state.tabs.length === 0
+      ? await this.editorSessionService.loadSession()
+      : null;
+
+    this.recoverableSession = session;
+    this.sessionChecked = true;
+    this.autoLoadFirstRecipe();
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Open the first recipe when the editor starts empty. Held back until the last
+   * session has been checked and, if there is one, restored or discarded, since
+   * the opened tab would otherwise hide the session and get autosaved over it.
+   */
+  private autoLoadFirstRecipe(): void {
+    if (!this.sessionChecked || this.recoverableSession) return;
+    if (this.recipeList.length === 0 || this.state.tabs.length > 0) return;
+
+    const firstRecipe = this.recipeList[0];
+    this.logger.debug('Auto-loading first recipe', { recipeId: firstRecipe.id });
+    this.loadRecipeToEditor(firstRecipe);
+  }
+
+  getRecoverableChangeCount(): number {
+    return this.recoverableSession?.tabs.filter(tab => tab.hasChanges).length ?? 0;
+  }
+
+  restoreSession(): void {
+    const session = this.recoverableSession;
+    if (!session) return;
+
+    const unsavedTabs = this.state.tabs.filter(tab => tab.hasChanges);
+    if (unsavedTabs.length > 0) {
+      const confirmed = confirm(
+        `${unsavedTabs.length} open tab(s) have unsaved changes that will be replaced. Restore anyway?`
+      );
+      if (!confirmed) return;
+    }
+
+    this.recoverableSession = null;
+    this.state.tabs.forEach(tab => this.undoRedoService.dispose(tab.id));
+
+    const tabs: EditorTab[] = session.tabs.map(tab => ({ ...tab, isActive: false }));
+    const activeTabId = tabs.some(tab => tab.id === session.activeTabId)
+      ? session.activeTabId!
+      : tabs[0].id;
+
+    this.stepManagementService.setCustomStepNames(session.customStepNames);
+    tabs.forEach(tab => this.undoRedoService.track(tab.id, tab.recipe, this.customStepNames));
+    this.store.setEditorTabs(tabs, activeTabId);
+    this.selectTab(activeTabId);
+
+    // Selecting a tab resets its expanded steps, so these are applied last
+    this.stepManagementService.setExpandedSteps(session.expandedSteps);
+
+    this.notificationService.success(`Restored ${tabs.length} tab(s) from your last session`);
+    this.logger.info('Editor session restored', { tabCount: tabs.length });
+    this.autoSave$.next();
+  }
+
+  discardSession(): void {
+    this.recoverableSession = null;
+    this.editorSessionService.clearSession();
+    this.autoLoadFirstRecipe();
+    this.autoSave$.next();
+  }
+
   @HostListener('document:keydown', ['$event'])
   handleKeyboardEvent(event: KeyboardEvent): void {
     if ((event.ctrlKey || event.metaKey) && event.key === 's') {
@@ -198,25 +371,162 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       this.saveCurrentTab();
     }
 
+    // Text fields keep the browser's character-level undo; the toolbar buttons
+    // still undo whole changes from there
+    const inTextField = this.isTextField(event.target);
+
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z' && !inTextField) {
+      event.preventDefault();
+      if (event.shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+    }
+
+    if ((event.ctrlKey || event.metaKey) && event.key === 'y' && !inTextField) {
+      event.preventDefault();
+      this.redo();
+    }
+
     if ((event.ctrlKey || event.metaKey) && event.key === 'n') {
       event.preventDefault();
       this.createNewTab();
     }
   }
 
+  private isTextField(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+
+    return target instanceof HTMLInputElement &&
+      !['checkbox', 'radio', 'button', 'submit', 'file', 'range', 'color'].includes(target.type);
+  }
+
+  async undo(): Promise<void> {
+    const tab = this.getCurrentTab();
+    if (!tab) return;
+
+    const snapshot = await this.undoRedoService.undo(tab.id);
+    if (snapshot) {
+      this.applyHistorySnapshot(tab.id, snapshot);
+    }
+  }
+
+  async redo(): Promise<void> {
+    const tab = this.getCurrentTab();
+    if (!tab) return;
+
+    const snapshot = await this.undoRedoService.redo(tab.id);
+    if (snapshot) {
+      this.applyHistorySnapshot(tab.id, snapshot);
+    }
+  }
+
+  canUndo(): boolean {
+    const tab = this.getCurrentTab();
+    return !!tab && this.undoRedoService.canUndo(tab.id);
+  }
+
+  canRedo(): boolean {
+    const tab = this.getCurrentTab();
+    return !!tab && this.undoRedoService.canRedo(tab.id);
+  }
+
+  getUndoTitle(): string {
+    const tab = this.getCurrentTab();
+    const label = tab ? this.undoRedoService.getUndoLabel(tab.id) : null;
+    return label ? `Undo ${label} (Ctrl+Z)` : 'Nothing to undo';
+  }
+
+  getRedoTitle(): string {
+    const tab = this.getCurrentTab();
+    const label = tab ? this.undoRedoService.getRedoLabel(tab.id) : null;
+    return label ? `Redo ${label} (Ctrl+Shift+Z)` : 'Nothing to redo';
+  }
+
+  private applyHistorySnapshot(tabId: string, snapshot: EditorSnapshot): void {
+    // The user may have switched tabs while an undo was restoring files
+    if (this.getCurrentTab()?.id !== tabId) return;
+
+    this.store.updateEditorTab(tabId, { recipe: snapshot.recipe });
+    this.currentRecipe = snapshot.recipe;
+    this.stepManagementService.setCustomStepNames(snapshot.customStepNames);
+    this.initializeExpandedSteps();
+
+    this.isApplyingHistory = true;
+    try {
+      this.onRecipeChange();
+    } finally {
+      this.isApplyingHistory = false;
+    }
+    this.cdr.markForCheck();
+  }
+
   createNewTab(): void {
-    const newRecipe = EditorUtils.createEmptyRecipe();
+    this.openNewTab(EditorUtils.createEmptyRecipe());
+  }
+
+  createTabFromTemplate(template: RecipeTemplate): void {
+    this.showTemplateMenu = false;
+    this.openNewTab(EditorUtils.createRecipeFromTemplate(template));
+  }
+
+  toggleTemplateMenu(): void {
+    this.showTemplateMenu = !this.showTemplateMenu;
+  }
+
+  /**
+   * Open an independent copy of a recipe (edited version if there is one) in a new tab
+   */
+  async duplicateRecipe(recipe: Recipe): Promise<void> {
+    if (this.duplicatingRecipeId) return;
+
+    if (this.state.tabs.length >= EDITOR_CONSTANTS.MAX_TABS) {
+      this.notificationService.warning(
+        `Maximum ${EDITOR_CONSTANTS.MAX_TABS} tabs allowed. Please close some tabs first.`
+      );
+      return;
+    }
+
+    this.duplicatingRecipeId = recipe.id;
+    try {
+      const source = this.ioCoordinatorService.getEditedRecipe(recipe.id)
+        || EditorUtils.convertToSourceRecord(recipe);
+      const { recipe: clone, missingFiles } = await this.recipeCloneService.cloneRecipe(source);
+
+      this.openNewTab(clone, true);
+
+      if (missingFiles.length > 0) {
+        this.notificationService.warning(
+          `"${clone.title}" created, but ${missingFiles.length} file(s) could not be copied`
+        );
+      } else {
+        this.notificationService.success(`"${clone.title}" created`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to duplicate recipe', error);
+      this.notificationService.error('Failed to duplicate recipe');
+    } finally {
+      this.duplicatingRecipeId = null;
+      this.cdr.markForCheck();
+    }
+  }
+
+  private openNewTab(recipe: RecipeData, hasChanges = false): void {
     const newTab: EditorTab = {
       id: EditorUtils.generateUUID(),
-      title: newRecipe.title,
-      recipe: newRecipe,
-      hasChanges: false,
+      title: recipe.title,
+      recipe,
+      hasChanges,
       isActive: true
     };
 
     this.store.addEditorTab(newTab);
-    this.currentRecipe = newRecipe;
-    this.previousTitle = newRecipe.title;
+    this.undoRedoService.track(newTab.id, recipe, this.customStepNames);
+    this.currentRecipe = recipe;
+    this.previousTitle = recipe.title;
+    this.currentPublication = DEFAULT_PUBLICATION;
     this.logger.debug('New tab created', { tabId: newTab.id });
   }
 
@@ -228,7 +538,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
         this.currentRecipe = tab.recipe;
         this.previousTitle = tab.recipe.title;
 
-        this.currentIsActive = this.listManagementService.isRecipeActive(tab.recipe.id);
+        this.currentPublication = this.listManagementService.getRecipePublication(tab.recipe.id);
 
         this.cdr.markForCheck();
       }
@@ -248,6 +558,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     const tabIndex = this.store.removeEditorTab(tabId);
     if (tabIndex === -1) return;
+    this.undoRedoService.dispose(tabId);
 
     const tabs = this.store.getEditorState().tabs;
     if (tabs.length > 0 && tab.isActive) {
@@ -293,14 +604,15 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     };
 
     this.store.addEditorTab(newTab);
+    this.undoRedoService.track(newTab.id, sourceRecipe, this.customStepNames);
     this.currentRecipe = sourceRecipe;
     this.previousTitle = sourceRecipe.title;
-    this.currentIsActive = this.listManagementService.isRecipeActive(recipe.id);
+    this.currentPublication = this.listManagementService.getRecipePublication(recipe.id);
   }
 
 
   filterRecipes(): void {
-    this.listManagementService.filterRecipes(this.searchQuery, this.selectedCategory);
+    this.listManagementService.filterRecipes(this.searchQuery, this.selectedCategory, this.selectedStatus);
   }
 
 
@@ -308,25 +620,33 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     return this.listManagementService.isRecipeEdited(recipeId);
   }
 
-  isRecipeActive(recipeId: string): boolean {
-    return this.listManagementService.isRecipeActive(recipeId);
+  getRecipeStatus(recipeId: string): PublicationStatus {
+    return this.listManagementService.getRecipeStatus(recipeId);
   }
 
-  onActiveStatusChange(isActive: boolean): void {
-    this.currentIsActive = isActive;
+  onPublicationChange(publication: RecipePublication): void {
+    this.currentPublication = publication;
 
     if (this.currentRecipe?.id) {
-      this.listManagementService.setRecipeActiveState(this.currentRecipe.id, isActive);
+      this.listManagementService.setRecipePublication(this.currentRecipe.id, publication);
     }
 
     this.onRecipeChange();
   }
 
 
-  onRecipeChange(): void {
+  /**
+   * Single entry point for recipe mutations. Structural changes pass a label,
+   * which becomes the undo/redo command name; field edits are grouped while typing.
+   */
+  onRecipeChange(label?: string): void {
     const tab = this.getCurrentTab();
     if (!tab || !this.currentRecipe) return;
 
+    if (!this.isApplyingHistory) {
+      this.undoRedoService.record(tab.id, this.currentRecipe, this.customStepNames, label);
+    }
+
     const result = this.changeCoordinatorService.onRecipeChange(
       this.currentRecipe,
       tab,
@@ -338,12 +658,15 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       this.store.updateEditorTab(tab.id, { title: this.currentRecipe.title });
     }
 
+    this.autoSave$.next();
+
     if (this.currentRecipe) {
       this.previewCoordinatorService.triggerPreviewUpdate(
         this.currentRecipe,
         this.customStepNames
       );
       this.updateJsonPreview();
+      this.updateLintIssues();
     }
   }
 
@@ -356,7 +679,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       const newStepIndex = this.currentRecipe.walkthrough.length - 1;
       this.stepManagementService.expandStep(newStepIndex);
 
-      this.onRecipeChange();
+      this.onRecipeChange('Add step');
     }
   }
 
@@ -368,7 +691,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       const steps = this.currentRecipe.walkthrough;
       this.stepManagementService.reindexCustomStepNames(steps);
 
-      this.onRecipeChange();
+      this.onRecipeChange('Remove step');
     }
   }
 
@@ -377,7 +700,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     const moved = this.stepManagementService.moveStepUp(this.currentRecipe, index);
     if (moved) {
-      this.onRecipeChange();
+      this.onRecipeChange('Move step');
     }
   }
 
@@ -386,7 +709,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     const moved = this.stepManagementService.moveStepDown(this.currentRecipe, index);
     if (moved) {
-      this.onRecipeChange();
+      this.onRecipeChange('Move step');
     }
   }
 
@@ -396,7 +719,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     const added = this.stepManagementService.addConfig(this.currentRecipe, stepIndex);
     if (added) {
-      this.onRecipeChange();
+      this.onRecipeChange('Add config');
     }
   }
 
@@ -409,7 +732,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       configIndex
     );
     if (removed) {
-      this.onRecipeChange();
+      this.onRecipeChange('Remove config');
     }
   }
 
@@ -419,7 +742,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     const added = this.stepManagementService.addMedia(this.currentRecipe, stepIndex);
     if (added) {
-      this.onRecipeChange();
+      this.onRecipeChange('Add media');
     }
   }
 
@@ -430,7 +753,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       event,
       this.currentRecipe,
       stepIndex,
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Upload image')
     );
   }
 
@@ -442,7 +765,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       this.currentRecipe,
       'step-media',
       { stepIndex },
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Upload image')
     );
   }
 
@@ -452,7 +775,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     const step = this.currentRecipe.walkthrough[stepIndex];
     if (step?.media && mediaIndex >= 0 && mediaIndex < step.media.length) {
       step.media.splice(mediaIndex, 1);
-      this.onRecipeChange();
+      this.onRecipeChange('Remove media');
     }
   }
 
@@ -461,7 +784,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     if (!this.currentRecipe) return;
     this.imageManagementService.addEmptyGeneralImage(
       this.currentRecipe,
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Add general image')
     );
   }
 
@@ -473,7 +796,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       this.currentRecipe,
       'general-image',
       {},
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Upload general image')
     );
   }
 
@@ -482,7 +805,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     if (this.currentRecipe.generalImages && index >= 0 && index < this.currentRecipe.generalImages.length) {
       this.currentRecipe.generalImages.splice(index, 1);
-      this.onRecipeChange();
+      this.onRecipeChange('Remove general image');
     }
   }
 
@@ -492,7 +815,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     await this.imageManagementService.handleGeneralImageDrop(
       event,
       this.currentRecipe,
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Upload general image')
     );
   }
 
@@ -519,7 +842,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       this.currentRecipe,
       'replace-step-media',
       { existingObject: media, stepIndex, targetInput: target },
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Replace image')
     );
 
     target.value = '';
@@ -535,7 +858,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       this.currentRecipe,
       'replace-general-image',
       { existingObject: image, targetInput: target },
-      () => this.onRecipeChange()
+      () => this.onRecipeChange('Replace general image')
     );
 
     target.value = '';
@@ -546,6 +869,36 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     this.stepManagementService.toggleStep(index);
   }
 
+  onStepFocus(index: number): void {
+    if (!this.currentRecipe) return;
+    this.previewCoordinatorService.focusPreviewStep(this.currentRecipe.id, index);
+  }
+
+  /**
+   * A section was clicked in the live preview: scroll to and focus the field it was written in
+   */
+  onPreviewSectionSelect(section: RecipeContentSection): void {
+    const stepIndex = section.stepIndex;
+    if (stepIndex !== undefined) {
+      this.stepManagementService.expandStep(stepIndex);
+    }
+
+    // Let an expanded step render before looking for its fields
+    setTimeout(() => {
+      const selector = stepIndex !== undefined
+        ? `.step-item[data-step-index="${stepIndex}"]`
+        : PREVIEW_SECTION_FIELDS[section.sectionId];
+      const target = selector ? document.querySelector<HTMLElement>(selector) : null;
+      if (!target) return;
+
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      const field = target.matches('input, textarea, select')
+        ? target
+        : target.querySelector<HTMLElement>('input, textarea, select');
+      field?.focus({ preventScroll: true });
+    });
+  }
+
   isStepExpanded(index: number): boolean {
     return this.stepManagementService.isStepExpanded(index);
   }
@@ -562,7 +915,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
   onStepSelectionChange(step: any, index: number): void {
     this.stepManagementService.onStepSelectionChange(step, index);
-    this.onRecipeChange();
+    this.onRecipeChange('Change step type');
   }
 
   onCustomStepNameChange(index: number): void {
@@ -611,6 +964,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
     if (result.success) {
       this.store.updateEditorTab(tab.id, { hasChanges: false });
+      this.store.markEditorSaved();
       // Reload edited recipes to update the editedRecipeIds
       this.listManagementService.loadEditedRecipes();
       if (!isAutoSave) {
@@ -640,6 +994,10 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
       }
     });
 
+    if (results.some(result => result.success)) {
+      this.store.markEditorSaved();
+    }
+
     // Reload edited recipes to update the editedRecipeIds
     this.listManagementService.loadEditedRecipes();
   }
@@ -647,13 +1005,13 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
   async exportEditedAndNewRecipes(): Promise<void> {
     try {
       const editedRecipes = this.listManagementService.getFilteredEditedRecipes();
-      const recipeActiveStates = this.listManagementService.getAllRecipeActiveStates();
+      const recipePublications = this.listManagementService.getAllRecipePublications();
 
       await this.ioCoordinatorService.exportEditedRecipes(
         editedRecipes,
         this.recipeList,
         (progress) => this.updateImportProgress(progress),
-        recipeActiveStates
+        recipePublications
       );
     } finally {
       // Always reset the importing state when done
@@ -665,13 +1023,13 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     try {
       // Get edited recipes from storage to include any modifications (like uploaded executables)
       const editedRecipes = this.listManagementService.getFilteredEditedRecipes();
-      const recipeActiveStates = this.listManagementService.getAllRecipeActiveStates();
+      const recipePublications = this.listManagementService.getAllRecipePublications();
 
       await this.ioCoordinatorService.exportAllRecipes(
         editedRecipes,
         this.recipeList,
         (progress) => this.updateImportProgress(progress),
-        recipeActiveStates
+        recipePublications
       );
     } finally {
       // Always reset the importing state when done
@@ -679,6 +1037,49 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Write edited and new recipes straight into a local checkout, after a dry run
+   */
+  async exportToCheckout(): Promise<void> {
+    try {
+      const editedRecipes = this.listManagementService.getFilteredEditedRecipes();
+      const recipePublications = this.listManagementService.getAllRecipePublications();
+
+      this.checkoutPlan = await this.ioCoordinatorService.planCheckoutExport(
+        editedRecipes,
+        this.recipeList,
+        (progress) => this.updateImportProgress(progress),
+        recipePublications
+      );
+    } finally {
+      this.store.setEditorImporting(false);
+      this.cdr.markForCheck();
+    }
+  }
+
+  async confirmCheckoutExport(): Promise<void> {
+    if (!this.checkoutPlan) return;
+
+    this.isWritingCheckout = true;
+    try {
+      await this.ioCoordinatorService.writeCheckoutExport(
+        this.checkoutPlan,
+        (progress) => this.updateImportProgress(progress)
+      );
+      this.checkoutPlan = null;
+    } catch {
+      // Already reported; the plan stays open so the write can be retried
+    } finally {
+      this.isWritingCheckout = false;
+      this.store.setEditorImporting(false);
+      this.cdr.markForCheck();
+    }
+  }
+
+  closeCheckoutExport(): void {
+    this.checkoutPlan = null;
+  }
+
   triggerImport(): void {
     this.fileInput.nativeElement.click();
   }
@@ -688,13 +1089,178 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
     const file = target.files?.[0];
     if (!file) return;
 
-    const result = await this.ioCoordinatorService.importFromFile(file);
+    try {
+      const result = await this.ioCoordinatorService.importFromFile(
+        file,
+        (progress) => this.updateImportProgress(progress)
+      );
+
+      const reports = result.reports || [];
+      if (reports.length > 1 || reports.some(report => report.status !== 'accepted')) {
+        this.importReports = reports;
+        this.showImportReport = true;
+      }
 
-    if (result.success && result.recipe) {
-      this.listManagementService.loadRecipes();
+      if (result.success) {
+        this.listManagementService.loadRecipes();
+        this.listManagementService.loadEditedRecipes();
+      }
+    } finally {
+      this.store.setEditorImporting(false);
+      target.value = '';
     }
+  }
 
-    target.value = '';
+  closeImportReport(): void {
+    this.showImportReport = false;
+    this.importReports = [];
+  }
+
+  getImportStatusLabel(status: RecipeImportStatus): string {
+    switch (status) {
+      case 'accepted':
+        return 'Accepted';
+      case 'accepted-with-warnings':
+        return 'Accepted with warnings';
+      default:
+        return 'Rejected';
+    }
+  }
+
+  getImportReportCount(status: RecipeImportStatus): number {
+    return this.importReports.filter(report => report.status === status).length;
+  }
+
+  // Only recipes that exist in assets/recipes have a published version to compare with
+  get canCompareWithPublished(): boolean {
+    const recipeId = this.currentRecipe?.id;
+    return !!recipeId && this.recipeList.some(recipe => recipe.id === recipeId);
+  }
+
+  async openDiff(): Promise<void> {
+    if (!this.currentRecipe) return;
+
+    const recipe = this.currentRecipe;
+    await this.showRecipeDiff(
+      'Changes since published version',
+      () => this.recipeDiffService.compareWithPublished(recipe, this.customStepNames)
+    );
+  }
+
+  async compareSnapshot(snapshot: RecipeSnapshot): Promise<void> {
+    if (!this.currentRecipe) return;
+
+    const recipe = this.currentRecipe;
+    await this.showRecipeDiff(
+      `Changes since ${new Date(snapshot.timestamp).toLocaleString()}`,
+      async () => ({
+        recipeId: recipe.id,
+        folderId: '',
+        diff: await this.recipeDiffService.compareRecipes(snapshot.recipe, recipe, this.customStepNames)
+      })
+    );
+  }
+
+  private async showRecipeDiff(heading: string, compare: () => Promise<RecipeDiffResult>): Promise<void> {
+    const recipe = this.currentRecipe;
+    this.diffHeading = heading;
+    this.diffResult = null;
+    this.showDiff = true;
+    this.isDiffLoading = true;
+
+    try {
+      const result = await compare();
+      // Ignore results for a recipe the user has since switched away from
+      if (this.showDiff && this.currentRecipe === recipe) {
+        this.diffResult = result;
+      }
+    } catch (error) {
+      this.logger.error('Failed to compare recipe versions', error);
+      this.notificationService.error('Could not load the recipe version for comparison.');
+      this.showDiff = false;
+    } finally {
+      this.isDiffLoading = false;
+      this.cdr.markForCheck();
+    }
+  }
+
+  closeDiff(): void {
+    this.showDiff = false;
+    this.diffResult = null;
+  }
+
+  async openHistory(): Promise<void> {
+    if (!this.currentRecipe?.id) return;
+
+    const recipeId = this.currentRecipe.id;
+    this.historySnapshots = [];
+    this.historyRetentionLimit = this.versionHistoryService.getRetentionLimit();
+    this.showHistory = true;
+    this.isHistoryLoading = true;
+
+    const snapshots = await this.versionHistoryService.getHistory(recipeId);
+    if (this.showHistory && this.currentRecipe?.id === recipeId) {
+      this.historySnapshots = snapshots;
+    }
+    this.isHistoryLoading = false;
+    this.cdr.markForCheck();
+  }
+
+  closeHistory(): void {
+    this.showHistory = false;
+    this.historySnapshots = [];
+  }
+
+  async onHistoryRetentionChange(limit: number): Promise<void> {
+    this.historyRetentionLimit = limit;
+    await this.versionHistoryService.setRetentionLimit(limit);
+    this.historySnapshots = this.historySnapshots.slice(0, limit);
+    this.cdr.markForCheck();
+  }
+
+  restoreSnapshot(snapshot: RecipeSnapshot): void {
+    const tab = this.getCurrentTab();
+    if (!tab || !this.currentRecipe) return;
+
+    const confirmed = confirm(
+      `Replace the current content of "${this.currentRecipe.title}" with the version saved ${new Date(snapshot.timestamp).toLocaleString()}?`
+    );
+    if (!confirmed) return;
+
+    const restored: RecipeData = JSON.parse(JSON.stringify(snapshot.recipe));
+    this.store.updateEditorTab(tab.id, { recipe: restored });
+    this.currentRecipe = restored;
+    this.initializeExpandedSteps();
+
+    // Goes through the normal change path so the tab is marked unsaved and the preview refreshes
+    this.onRecipeChange('Restore version');
+    this.closeHistory();
+    this.notificationService.info('Version restored. Save to keep it.');
+  }
+
+  applyLintFix(issue: LintIssue): void {
+    if (!issue.fix) return;
+    this.applyLintChange(recipe => this.lintService.applyFix(recipe, issue), `Fix: ${issue.fix.label}`);
+  }
+
+  fixAllLintIssues(): void {
+    this.applyLintChange(recipe => this.lintService.applyAllFixes(recipe) > 0, 'Fix recipe checks');
+  }
+
+  /**
+   * Fixes run on a copy that then replaces the tab's recipe, so the OnPush
+   * child editors see new references for everything a fix touched.
+   */
+  private applyLintChange(fix: (recipe: RecipeData) => boolean, label: string): void {
+    const tab = this.getCurrentTab();
+    if (!tab || !this.currentRecipe) return;
+
+    const fixed: RecipeData = JSON.parse(JSON.stringify(this.currentRecipe));
+    if (!fix(fixed)) return;
+
+    this.store.updateEditorTab(tab.id, { recipe: fixed });
+    this.currentRecipe = fixed;
+    this.onRecipeChange(label);
   }
 
   clearAllData(): void {
@@ -713,6 +1279,7 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
 
       const tabs = this.store.getEditorState().tabs;
       tabs.forEach(tab => this.store.removeEditorTab(tab.id));
+      this.undoRedoService.clearAll();
       this.createNewTab();
 
       this.listManagementService.loadRecipes();
@@ -748,6 +1315,16 @@ export class RecipeEditorComponent implements OnInit, OnDestroy {
   }
 
 
+  private updateLivePreview(): void {
+    this.previewRecipe = this.currentRecipe
+      ? this.previewCoordinatorService.buildLivePreview(this.currentRecipe, this.customStepNames)
+      : null;
+  }
+
+  private updateLintIssues(): void {
+    this.lintIssues = this.currentRecipe ? this.lintService.lint(this.currentRecipe) : [];
+  }
+
   hasUnsavedChanges(): boolean {
     return this.store.hasUnsavedChanges();
   }
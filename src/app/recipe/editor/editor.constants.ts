@@ -17,7 +17,29 @@ export const EDITOR_CONSTANTS = {
   MAX_TOOLTIP_ITEMS: 10,
   MAX_ERROR_MESSAGES_SHOWN: 3,
   MAX_TABS: 10,
+  MAX_USED_VALUE_SUGGESTIONS: 50,
+
+  // Undo/redo (per tab)
+  UNDO_HISTORY_LIMIT: 100,
+  UNDO_COALESCE_MS: 1000,
+
+  // Version history (snapshots kept per recipe)
+  HISTORY_DEFAULT_LIMIT: 20,
+  HISTORY_LIMIT_OPTIONS: [5, 10, 20, 50],
 
   // Validation
   MAX_FILE_SIZE_MB: 10,
 } as const;
+
+/**
+ * Editor element for each section of the live preview, by the section's element ID
+ */
+export const PREVIEW_SECTION_FIELDS: { [sectionId: string]: string } = {
+  'overview': '#overview',
+  'download-file': '.file-upload-section',
+  'video-demo': '.general-images-section',
+  'use-case': '#generalUseCase',
+  'direction': '#direction',
+  'pipeline': '#pipeline',
+  'walkthrough': '.walkthrough-section'
+};
@@ -2,9 +2,11 @@ import { NgModule } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 import { RouterModule, Routes } from '@angular/router';
+import { DragDropModule } from '@angular/cdk/drag-drop';
 
 import { RecipeEditorComponent } from './editor.component';
 import { SharedModule } from '../../shared/shared.module';
+import { RecipeContentModule } from '../page/recipe-content/recipe-content.module';
 
 // Editor components
 import { BasicInfoComponent } from './components/basic-info/basic-info.component';
@@ -13,6 +15,11 @@ import { FileUploadComponent } from './components/file-upload/file-upload.compon
 import { PreviewPanelComponent } from './components/preview-panel/preview-panel.component';
 import { WalkthroughEditorComponent } from './components/walkthrough-editor/walkthrough-editor.component';
 import { ImageManagerComponent } from './components/image-manager/image-manager.component';
+import { RecipeDiffComponent } from './components/recipe-diff/recipe-diff.component';
+import { VersionHistoryComponent } from './components/version-history/version-history.component';
+import { LintPanelComponent } from './components/lint-panel/lint-panel.component';
+import { MediaAnnotatorComponent } from './components/media-annotator/media-annotator.component';
+import { CheckoutExportComponent } from './components/checkout-export/checkout-export.component';
 
 // Directives
 import { AutocompleteDirective } from './directives/autocomplete.directive';
@@ -33,13 +40,20 @@ const routes: Routes = [
     PreviewPanelComponent,
     WalkthroughEditorComponent,
     ImageManagerComponent,
+    RecipeDiffComponent,
+    VersionHistoryComponent,
+    LintPanelComponent,
+    MediaAnnotatorComponent,
+    CheckoutExportComponent,
     AutocompleteDirective
   ],
   imports: [
     CommonModule,
     FormsModule,
     ReactiveFormsModule,
+    DragDropModule,
     SharedModule,
+    RecipeContentModule,
     RouterModule.forChild(routes)
   ]
 })
@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ChangeCoordinatorService } from './change-coordinator.service';
+import { UndoRedoService } from './undo-redo.service';
+import { FileStorageAdapter } from '../../core/storage';
+import { StepManagementUtil } from '../utils/step-management.util';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+describe('ChangeCoordinatorService', () => {
+  let service: ChangeCoordinatorService;
+  let undoRedo: UndoRedoService;
+  let fileStorage: jasmine.SpyObj<FileStorageAdapter>;
+
+  beforeEach(() => {
+    fileStorage = jasmine.createSpyObj<FileStorageAdapter>('FileStorageAdapter', ['getImage', 'storeImage', 'deleteImage']);
+    fileStorage.getImage.and.callFake(async key => new File([''], `${key}.png`, { type: 'image/png' }));
+    fileStorage.storeImage.and.resolveTo();
+    fileStorage.deleteImage.and.resolveTo();
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: FileStorageAdapter, useValue: fileStorage }]
+    });
+    service = TestBed.inject(ChangeCoordinatorService);
+    undoRedo = TestBed.inject(UndoRedoService);
+  });
+
+  it('should leave step media names alone when steps are reordered', async () => {
+    const recipe = createRecipe({
+      walkthrough: [
+        {
+          step: 'Create Pipeline',
+          config: [],
+          media: [
+            { type: 'image', url: 'images/batch-create-pipeline-image.png', alt: 'Pipeline' },
+            { type: 'image', url: 'images/batch-create-pipeline-image-2.png', alt: 'Pipeline settings' }
+          ]
+        },
+        {
+          step: 'Run Pipeline',
+          config: [],
+          media: [{ type: 'image', url: 'images/batch-run-pipeline-image.png', alt: 'Run' }]
+        }
+      ]
+    });
+    StepManagementUtil.moveStep(recipe.walkthrough, 0, 1, {});
+
+    await service.updateImageNamesForContentChange(recipe, 'tab-1');
+
+    expect(recipe.walkthrough.flatMap(step => step.media.map(media => media.url))).toEqual([
+      'images/batch-run-pipeline-image.png',
+      'images/batch-create-pipeline-image.png',
+      'images/batch-create-pipeline-image-2.png'
+    ]);
+    expect(fileStorage.storeImage).not.toHaveBeenCalled();
+    expect(fileStorage.deleteImage).not.toHaveBeenCalled();
+  });
+
+  it('should rename step media to follow a new category', async () => {
+    const recipe = createRecipe({
+      category: ['Trigger'],
+      walkthrough: [{
+        step: 'Run Pipeline',
+        config: [],
+        media: [{ type: 'image', url: 'images/batch-run-pipeline-image.png', alt: 'Run' }]
+      }]
+    });
+
+    await service.updateImageNamesForContentChange(recipe, 'tab-1');
+
+    expect(recipe.walkthrough[0].media[0].url).toBe('images/trigger-run-pipeline-image.png');
+    expect(fileStorage.deleteImage).toHaveBeenCalledOnceWith('batch-run-pipeline-image');
+  });
+
+  it('should record renames as a command of the tab that undoes them with their files', async () => {
+    const recipe = createRecipe({
+      category: ['Batch'],
+      walkthrough: [{
+        step: 'Run Pipeline',
+        config: [],
+        media: [{ type: 'image', url: 'images/batch-run-pipeline-image.png', alt: 'Run' }]
+      }]
+    });
+    undoRedo.track('tab-1', recipe, {});
+    undoRedo.track('tab-2', createRecipe({ id: 'other-recipe' }), {});
+    recipe.category = ['Trigger'];
+    undoRedo.record('tab-1', recipe, {}, 'Change category');
+
+    await service.updateImageNamesForContentChange(recipe, 'tab-1');
+
+    expect(undoRedo.getUndoLabel('tab-1')).toBe('Rename images');
+    expect(undoRedo.canUndo('tab-2')).toBeFalse();
+
+    const snapshot = await undoRedo.undo('tab-1');
+
+    expect(snapshot?.recipe.walkthrough[0].media[0].url).toBe('images/batch-run-pipeline-image.png');
+    expect(fileStorage.storeImage).toHaveBeenCalledWith('batch-run-pipeline-image', jasmine.any(File));
+  });
+});
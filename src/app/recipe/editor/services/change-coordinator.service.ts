@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { RecipeData, EditorTab, StepMedia } from '../../core/models/recipe.model';
 import { ImageNamingService } from './image-naming.service';
+import { RemovedFile, UndoRedoService } from './undo-redo.service';
 import { FileStorageAdapter } from '../../core/storage';
 import { Store } from '../../core/store/recipe.store';
 import { LoggerService } from '../../core/services/logger.service';
@@ -21,10 +22,11 @@ export interface TitleChangeResult {
   providedIn: 'root'
 })
 export class ChangeCoordinatorService {
-  private imageNameUpdateTimeout: ReturnType<typeof setTimeout> | null = null;
+  private imageNameUpdateTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
 
   constructor(
     private imageNamingService: ImageNamingService,
+    private undoRedoService: UndoRedoService,
     private fileStorageService: FileStorageAdapter,
     private store: Store,
     private logger: LoggerService
@@ -49,7 +51,7 @@ export class ChangeCoordinatorService {
 
     if (previousTitle && previousTitle !== recipe.title) {
       result.titleChanged = true;
-      this.handleTitleChange(recipe, previousTitle);
+      this.handleTitleChange(recipe, tab.id, previousTitle);
       this.logger.debug('Title change detected', {
         recipeId: recipe.id,
         oldTitle: previousTitle,
@@ -62,6 +64,7 @@ export class ChangeCoordinatorService {
 
   private handleTitleChange(
     recipe: RecipeData,
+    tabId: string,
     previousTitle: string
   ): TitleChangeResult {
     const result: TitleChangeResult = {
@@ -71,7 +74,7 @@ export class ChangeCoordinatorService {
     };
 
     if (result.changed) {
-      this.scheduleImageNameUpdate(recipe);
+      this.scheduleImageNameUpdate(recipe, tabId);
 
       this.logger.info('Title changed, image updates scheduled', {
         recipeId: recipe.id,
@@ -83,33 +86,45 @@ export class ChangeCoordinatorService {
     return result;
   }
 
-  scheduleImageNameUpdate(recipe: RecipeData): void {
-    if (this.imageNameUpdateTimeout) {
-      clearTimeout(this.imageNameUpdateTimeout);
+  /**
+   * Rename the step images of the tab's recipe once edits settle. Each tab has its
+   * own timer, so switching tabs does not cancel another tab's renames.
+   */
+  scheduleImageNameUpdate(recipe: RecipeData, tabId: string): void {
+    const pending = this.imageNameUpdateTimeouts.get(tabId);
+    if (pending) {
+      clearTimeout(pending);
     }
 
-    this.imageNameUpdateTimeout = setTimeout(() => {
-      this.updateImageNamesForContentChange(recipe);
-    }, 2000);
+    this.imageNameUpdateTimeouts.set(tabId, setTimeout(() => {
+      this.imageNameUpdateTimeouts.delete(tabId);
+      this.updateImageNamesForContentChange(recipe, tabId);
+    }, 2000));
 
-    this.logger.debug('Image name update scheduled', { recipeId: recipe.id });
+    this.logger.debug('Image name update scheduled', { recipeId: recipe.id, tabId });
   }
 
-  async updateImageNamesForContentChange(recipe: RecipeData): Promise<void> {
+  /**
+   * Rename step images to match the recipe. The renames are recorded as one undoable
+   * command for the tab, which holds the files deleted under their old names.
+   */
+  async updateImageNamesForContentChange(recipe: RecipeData, tabId: string): Promise<void> {
     try {
+      const removedFiles: RemovedFile[] = [];
       let updated = false;
 
       if (recipe.walkthrough && Array.isArray(recipe.walkthrough)) {
         for (let stepIndex = 0; stepIndex < recipe.walkthrough.length; stepIndex++) {
           const step = recipe.walkthrough[stepIndex];
           if (step.media && Array.isArray(step.media)) {
-            const mediaUpdated = await this.updateStepMediaNames(step.media, stepIndex, recipe);
+            const mediaUpdated = await this.updateStepMediaNames(step.media, stepIndex, recipe, removedFiles);
             updated = updated || mediaUpdated;
           }
         }
       }
 
       if (updated) {
+        this.undoRedoService.recordFileChange(tabId, recipe, 'Rename images', removedFiles);
         this.logger.info('Image names updated for recipe', { recipeId: recipe.id });
       }
     } catch (error) {
@@ -120,12 +135,13 @@ export class ChangeCoordinatorService {
   private async updateStepMediaNames(
     media: StepMedia[],
     stepIndex: number,
-    recipe: RecipeData
+    recipe: RecipeData,
+    removedFiles: RemovedFile[]
   ): Promise<boolean> {
     let updated = false;
 
     for (const mediaItem of media) {
-      const itemUpdated = await this.updateSingleMediaName(mediaItem, stepIndex, recipe);
+      const itemUpdated = await this.updateSingleMediaName(mediaItem, stepIndex, recipe, removedFiles);
       updated = updated || itemUpdated;
     }
 
@@ -135,7 +151,8 @@ export class ChangeCoordinatorService {
   private async updateSingleMediaName(
     media: StepMedia,
     stepIndex: number,
-    recipe: RecipeData
+    recipe: RecipeData,
+    removedFiles: RemovedFile[]
   ): Promise<boolean> {
     try {
       if (!media.url || !media.url.startsWith('images/')) {
@@ -150,7 +167,7 @@ export class ChangeCoordinatorService {
         return false;
       }
 
-      const newKey = this.imageNamingService.generateImageName(imageFile, recipe, stepIndex);
+      const newKey = this.imageNamingService.generateImageName(imageFile, recipe, stepIndex, currentKey);
 
       if (currentKey === newKey) {
         return false;
@@ -160,6 +177,7 @@ export class ChangeCoordinatorService {
       const newFileName = `${newKey}.${extension}`;
 
       await this.fileStorageService.storeImage(newKey, imageFile);
+      removedFiles.push({ kind: 'image', key: currentKey, file: imageFile });
       await this.fileStorageService.deleteImage(currentKey);
 
       media.url = `images/${newFileName}`;
@@ -184,9 +202,9 @@ export class ChangeCoordinatorService {
   }
 
   cancelScheduledUpdates(): void {
-    if (this.imageNameUpdateTimeout) {
-      clearTimeout(this.imageNameUpdateTimeout);
-      this.imageNameUpdateTimeout = null;
+    if (this.imageNameUpdateTimeouts.size > 0) {
+      this.imageNameUpdateTimeouts.forEach(timeout => clearTimeout(timeout));
+      this.imageNameUpdateTimeouts.clear();
       this.logger.debug('Scheduled image updates cancelled');
     }
   }
@@ -0,0 +1,141 @@
+import { Injectable } from '@angular/core';
+import { EditorTab, RecipeData } from '../../core/models/recipe.model';
+import { LoggerService } from '../../core/services/logger.service';
+import { cleanRecipeData } from '../../core/utils';
+
+export interface EditorSessionTab {
+  id: string;
+  title: string;
+  recipe: RecipeData;
+  hasChanges: boolean;
+}
+
+/**
+ * Open editor tabs as of the last autosave
+ */
+export interface EditorSession {
+  tabs: EditorSessionTab[];
+  activeTabId: string | null;
+  expandedSteps: number[];  // Of the active tab
+  customStepNames: { [index: number]: string };
+  savedAt: number;
+}
+
+/**
+ * Editor Session Service
+ *
+ * Autosaves the open editor tabs to IndexedDB so they can be recovered after a
+ * reload or crash. Only one session is kept; each save replaces the last.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EditorSessionService {
+  private dbName = 'RecipeEditorSessionDB';
+  private storeName = 'session';
+  private sessionKey = 'current';
+  private initPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private logger: LoggerService) {}
+
+  private init(): Promise<IDBDatabase> {
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+
+    this.initPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => {
+        this.logger.error('Failed to open editor session database:', request.error);
+        this.initPromise = null;
+        reject(request.error);
+      };
+
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName);
+        }
+      };
+    });
+
+    return this.initPromise;
+  }
+
+  private async performDbOperation<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const store = db.transaction([this.storeName], mode).objectStore(this.storeName);
+      const request = operation(store);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Replace the saved session with the given tabs.
+   * Blob display URLs do not survive a reload, so runtime image props are dropped.
+   *
+   * @returns Save time, or null if the session could not be written
+   */
+  async saveSession(
+    tabs: EditorTab[],
+    activeTabId: string | null,
+    expandedSteps: Set<number>,
+    customStepNames: { [index: number]: string }
+  ): Promise<Date | null> {
+    const session: EditorSession = {
+      tabs: tabs.map(tab => ({
+        id: tab.id,
+        title: tab.title,
+        recipe: cleanRecipeData(tab.recipe, { removeRuntimeProps: true }),
+        hasChanges: tab.hasChanges
+      })),
+      activeTabId,
+      expandedSteps: [...expandedSteps],
+      customStepNames: { ...customStepNames },
+      savedAt: Date.now()
+    };
+
+    try {
+      await this.performDbOperation('readwrite', store => store.put(session, this.sessionKey));
+      this.logger.debug('Editor session saved', { tabCount: session.tabs.length });
+      return new Date(session.savedAt);
+    } catch (error) {
+      this.logger.error('Failed to save editor session', error);
+      return null;
+    }
+  }
+
+  /**
+   * The last saved session, or null if there is none or it has no tabs
+   */
+  async loadSession(): Promise<EditorSession | null> {
+    try {
+      const session = await this.performDbOperation<EditorSession | undefined>(
+        'readonly',
+        store => store.get(this.sessionKey)
+      );
+      return session && session.tabs.length > 0 ? session : null;
+    } catch (error) {
+      this.logger.error('Failed to load editor session', error);
+      return null;
+    }
+  }
+
+  async clearSession(): Promise<void> {
+    try {
+      await this.performDbOperation('readwrite', store => store.delete(this.sessionKey));
+    } catch (error) {
+      this.logger.error('Failed to clear editor session', error);
+    }
+  }
+}
@@ -1,5 +1,21 @@
 import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { catchError, of } from 'rxjs';
+import { Recipe } from '../../core/models/recipe.model';
 import { LoggerService } from '../../core/services/logger.service';
+import { EDITOR_CONSTANTS } from '../editor.constants';
+
+/**
+ * Value suggestions for config fields (assets/data/field-value-catalog.json).
+ * Fields map to a named value set or an inline list; fields not listed fall back
+ * to the first matching pattern. A value written as {setName} expands to one
+ * value per entry of that set, e.g. "{objectApiName}.Triggers".
+ */
+interface FieldValueCatalog {
+  valueSets: { [name: string]: string[] };
+  fields: { [field: string]: string | string[] };
+  fieldPatterns: { pattern: string; valueSet: string }[];
+}
 
 @Injectable({
   providedIn: 'root'
@@ -180,8 +196,111 @@ export class FieldSuggestionService {
     'Variable API Name'
   ];
 
-  constructor(private logger: LoggerService) {
+  private readonly VALUE_CATALOG_URL = 'assets/data/field-value-catalog.json';
+  private valueCatalog: FieldValueCatalog = { valueSets: {}, fields: {}, fieldPatterns: [] };
+  private usedValues = new Map<string, string[]>();
+  private valueSuggestionCache = new Map<string, string[]>();
+
+  constructor(
+    private http: HttpClient,
+    private logger: LoggerService
+  ) {
     this.logger.debug('FieldSuggestionService initialized');
+    this.loadValueCatalog();
+  }
+
+  /**
+   * Suggested values for a config field: catalog values first, then values
+   * other recipes already use for the same field
+   */
+  getValueSuggestions(field: string): string[] {
+    const key = field?.trim();
+    if (!key) return [];
+
+    let suggestions = this.valueSuggestionCache.get(key);
+    if (!suggestions) {
+      suggestions = [...new Set([...this.getCatalogValues(key), ...(this.usedValues.get(key) || [])])];
+      this.valueSuggestionCache.set(key, suggestions);
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Index the config values used across the loaded recipes, most frequent first
+   */
+  indexUsedValues(recipes: Recipe[]): void {
+    const counts = new Map<string, Map<string, number>>();
+
+    recipes.forEach(recipe => {
+      recipe.walkthrough?.forEach(step => {
+        step.config?.forEach(({ field, value }) => {
+          const fieldKey = field?.trim();
+          const valueKey = typeof value === 'string' ? value.trim() : '';
+          if (!fieldKey || !valueKey || valueKey.includes('\n')) return;
+
+          const fieldCounts = counts.get(fieldKey) || new Map<string, number>();
+          fieldCounts.set(valueKey, (fieldCounts.get(valueKey) || 0) + 1);
+          counts.set(fieldKey, fieldCounts);
+        });
+      });
+    });
+
+    this.usedValues.clear();
+    counts.forEach((fieldCounts, field) => {
+      const values = [...fieldCounts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, EDITOR_CONSTANTS.MAX_USED_VALUE_SUGGESTIONS)
+        .map(([value]) => value);
+      this.usedValues.set(field, values);
+    });
+    this.valueSuggestionCache.clear();
+  }
+
+  private loadValueCatalog(): void {
+    this.http.get<FieldValueCatalog>(this.VALUE_CATALOG_URL)
+      .pipe(
+        catchError(error => {
+          this.logger.warn('Failed to load field value catalog', error);
+          return of(null);
+        })
+      )
+      .subscribe(catalog => {
+        if (!catalog) return;
+
+        this.valueCatalog = {
+          valueSets: catalog.valueSets || {},
+          fields: catalog.fields || {},
+          fieldPatterns: catalog.fieldPatterns || []
+        };
+        this.valueSuggestionCache.clear();
+      });
+  }
+
+  private getCatalogValues(field: string): string[] {
+    const entry = this.valueCatalog.fields[field] ?? this.findPatternValueSet(field);
+    if (!entry) return [];
+
+    const values = Array.isArray(entry) ? entry : this.valueCatalog.valueSets[entry] || [];
+    return values.flatMap(value => this.expandValue(value));
+  }
+
+  private findPatternValueSet(field: string): string | undefined {
+    return this.valueCatalog.fieldPatterns.find(({ pattern }) => {
+      try {
+        return new RegExp(pattern).test(field);
+      } catch {
+        return false;
+      }
+    })?.valueSet;
+  }
+
+  private expandValue(value: string): string[] {
+    const match = value.match(/\{(\w+)\}/);
+    const setValues = match ? this.valueCatalog.valueSets[match[1]] : undefined;
+    if (!match || !setValues) return [value];
+
+    return setValues.map(setValue => value.replace(match[0], setValue));
   }
 
   getFieldSuggestions(stepType: string): string[] {
@@ -7,6 +7,7 @@ import {
 import { FileStorageAdapter } from '../../core/storage';
 import { ImageNamingService } from './image-naming.service';
 import { NotificationService } from '../../../shared/services/notification.service';
+import { ImageOptimizationService } from '../../../shared/services/image-optimization.service';
 import { LoggerService } from '../../core/services/logger.service';
 
 export type ImageUploadPurpose =
@@ -37,6 +38,7 @@ export class ImageManagementService {
   constructor(
     private fileStorageService: FileStorageAdapter,
     private imageNamingService: ImageNamingService,
+    private imageOptimizationService: ImageOptimizationService,
     private notificationService: NotificationService,
     private logger: LoggerService
   ) {}
@@ -55,16 +57,18 @@ export class ImageManagementService {
     }
 
     try {
+      const image = await this.optimizeImage(file);
+
       const { baseName, fullFileName } = this.generateImageFileName(
-        file,
+        image,
         recipe,
         purpose,
         options
       );
 
-      await this.fileStorageService.storeImage(baseName, file);
+      await this.fileStorageService.storeImage(baseName, image);
 
-      const displayUrl = URL.createObjectURL(file);
+      const displayUrl = URL.createObjectURL(image);
 
       this.updateRecipeWithImage(
         recipe,
@@ -73,7 +77,7 @@ export class ImageManagementService {
         baseName,
         fullFileName,
         displayUrl,
-        file
+        image
       );
 
       if (options.targetInput) {
@@ -160,6 +164,26 @@ export class ImageManagementService {
     }
   }
 
+  /**
+   * Resize and re-encode an upload before it is stored, so large screenshots
+   * are not published as-is. The result is a single WebP (PNG where the browser
+   * cannot encode WebP); recipe media has no PNG fallback beside it.
+   */
+  async optimizeImage(file: File): Promise<File> {
+    const optimized = await this.imageOptimizationService.optimizeFile(file, {}, this.logger);
+
+    if (optimized !== file) {
+      this.logger.debug('Image optimized', {
+        name: file.name,
+        originalSize: file.size,
+        optimizedName: optimized.name,
+        optimizedSize: optimized.size
+      });
+    }
+
+    return optimized;
+  }
+
   private generateImageFileName(
     file: File,
     recipe: RecipeData,
@@ -11,7 +11,11 @@ export class ImageNamingService {
     this.logger.debug('ImageNamingService initialized');
   }
 
-  generateImageName(file: File, recipe: RecipeData, stepIndex: number): string {
+  /**
+   * Name for a step image from the recipe category and step name. When renaming an
+   * existing image, pass its current name so it does not count as taken.
+   */
+  generateImageName(file: File, recipe: RecipeData, stepIndex: number, currentName?: string): string {
     try {
       if (!recipe) {
         return this.fallbackImageName();
@@ -25,7 +29,7 @@ export class ImageNamingService {
       const extension = getFileExtension(file);
       const baseName = `${category}-${stepName}-image`;
 
-      return this.ensureUniqueImageName(baseName, extension, recipe);
+      return this.ensureUniqueImageName(baseName, extension, recipe, currentName);
     } catch (error) {
       this.logger.error('Error generating image name:', error);
       return this.fallbackImageName();
@@ -61,9 +65,13 @@ export class ImageNamingService {
   private ensureUniqueImageName(
     baseName: string,
     extension: string,
-    recipe: RecipeData
+    recipe: RecipeData,
+    currentName?: string
   ): string {
     const usedNames = this.collectUsedImageNames(recipe);
+    if (currentName) {
+      usedNames.delete(currentName);
+    }
 
     let finalName = baseName;
     let counter = 1;
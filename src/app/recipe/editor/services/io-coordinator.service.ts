@@ -1,10 +1,13 @@
 import { Injectable } from '@angular/core';
-import { RecipeData, Recipe } from '../../core/models/recipe.model';
+import { RecipeData, Recipe, RecipePublication } from '../../core/models/recipe.model';
 import { StorageService } from './storage.service';
 import { ExportService } from '../../core/services/export.service';
-import { IOProgress } from '../../core/services/io.types';
+import { ImportService } from '../../core/services/import.service';
+import { DirectoryExportPlan, IOProgress, RecipeImportReport, RecipeValidator } from '../../core/services/io.types';
 import { FileStorageAdapter } from '../../core/storage';
-import { ValidationService, ValidationResult } from './validation.service';
+import { ValidationService } from './validation.service';
+import { ValidationResult } from '../../core/validation';
+import { VersionHistoryService } from './version-history.service';
 import { LoggerService } from '../../core/services/logger.service';
 import { NotificationService } from '../../../shared/services/notification.service';
 import { cleanRecipeForExport } from '../../core/utils';
@@ -20,6 +23,7 @@ export interface ImportResult {
   recipe?: RecipeData;
   recipes?: RecipeData[];
   errors?: string[];
+  reports?: RecipeImportReport[];
   message?: string;
 }
 
@@ -27,12 +31,16 @@ export interface ImportResult {
   providedIn: 'root'
 })
 export class IOCoordinatorService {
+  private readonly recipeValidator: RecipeValidator = recipe =>
+    this.validationService.validateRecipe(recipe);
 
   constructor(
     private storageService: StorageService,
     private exportService: ExportService,
     private fileStorageService: FileStorageAdapter,
+    private importService: ImportService,
     private validationService: ValidationService,
+    private versionHistoryService: VersionHistoryService,
     private logger: LoggerService,
     private notificationService: NotificationService
   ) {}
@@ -57,6 +65,7 @@ export class IOCoordinatorService {
       const cleanedRecipe = cleanRecipeForExport(recipe, customStepNames);
       this.storageService.saveRecipe(cleanedRecipe);
       this.saveRecipeImages(cleanedRecipe);
+      this.versionHistoryService.saveSnapshot(cleanedRecipe);
 
       this.logger.info('Recipe saved successfully', { recipeId: recipe.id });
       this.notificationService.success('Recipe saved successfully!');
@@ -139,7 +148,7 @@ export class IOCoordinatorService {
     editedRecipes: RecipeData[],
     originalRecipes: Recipe[],
     progressCallback?: (progress: IOProgress) => void,
-    recipeActiveStates?: Map<string, boolean>
+    recipePublications?: Map<string, RecipePublication>
   ): Promise<void> {
     try {
       if (editedRecipes.length === 0) {
@@ -157,7 +166,7 @@ export class IOCoordinatorService {
         this.fileStorageService,
         allRecipesForIndex,
         progressCallback,
-        recipeActiveStates
+        recipePublications
       );
 
       this.logger.info('Edited recipes export completed successfully', {
@@ -177,7 +186,7 @@ export class IOCoordinatorService {
     editedRecipes: RecipeData[],
     originalRecipes: Recipe[],
     progressCallback?: (progress: IOProgress) => void,
-    recipeActiveStates?: Map<string, boolean>
+    recipePublications?: Map<string, RecipePublication>
   ): Promise<void> {
     try {
       this.logger.info('Starting full export', { editedCount: editedRecipes.length, totalCount: originalRecipes.length });
@@ -189,7 +198,7 @@ export class IOCoordinatorService {
         this.fileStorageService,
         recipesToExport,
         progressCallback,
-        recipeActiveStates
+        recipePublications
       );
 
       this.logger.info('Full export completed successfully', { count: recipesToExport.length });
@@ -202,32 +211,108 @@ export class IOCoordinatorService {
     }
   }
 
-  async importFromFile(file: File): Promise<ImportResult> {
+  /**
+   * Dry run of writing edited recipes into a local checkout's assets/recipes directory.
+   * Browsers without the File System Access API get the ZIP export instead.
+   *
+   * @returns The files that would be written, or null if nothing is left to confirm
+   */
+  async planCheckoutExport(
+    editedRecipes: RecipeData[],
+    originalRecipes: Recipe[],
+    progressCallback?: (progress: IOProgress) => void,
+    recipePublications?: Map<string, RecipePublication>
+  ): Promise<DirectoryExportPlan | null> {
+    if (editedRecipes.length === 0) {
+      this.notificationService.warning('No edited recipes to export.');
+      return null;
+    }
+
+    if (!this.exportService.isDirectoryExportSupported()) {
+      this.notificationService.info('This browser cannot write to local folders. Exporting as ZIP instead.');
+      await this.exportEditedRecipes(editedRecipes, originalRecipes, progressCallback, recipePublications);
+      return null;
+    }
+
+    try {
+      const allRecipesForIndex = this.mergeRecipeData(originalRecipes, editedRecipes);
+      const plan = await this.exportService.planDirectoryExport(
+        editedRecipes,
+        this.fileStorageService,
+        allRecipesForIndex,
+        progressCallback,
+        recipePublications
+      );
+
+      if (plan) {
+        this.logger.info('Checkout export planned', {
+          directory: plan.directory.name,
+          changedCount: plan.files.filter(file => file.status !== 'unchanged').length
+        });
+      }
+      return plan;
+    } catch (error) {
+      this.logger.error('Failed to plan checkout export', error);
+      this.notificationService.error('Failed to read the selected folder. Please try again.');
+      throw error;
+    }
+  }
+
+  async writeCheckoutExport(
+    plan: DirectoryExportPlan,
+    progressCallback?: (progress: IOProgress) => void
+  ): Promise<number> {
+    const writtenCount = await this.exportService.writeDirectoryExport(plan, progressCallback);
+    this.logger.info('Checkout export completed', { directory: plan.directory.name, writtenCount });
+    return writtenCount;
+  }
+
+  async importFromFile(
+    file: File,
+    progressCallback?: (progress: IOProgress) => void
+  ): Promise<ImportResult> {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      return this.importFromZip(file, progressCallback);
+    }
+
     try {
       this.logger.info('Starting import from file', { fileName: file.name });
 
       const content = await this.readFileAsText(file);
-      const recipe = JSON.parse(content) as RecipeData;
+      const { recipe, report } = this.importService.evaluateRecipe(
+        JSON.parse(content),
+        file.name,
+        this.recipeValidator
+      );
 
-      const validationResult: ValidationResult = this.validationService.validateRecipe(recipe);
-      if (validationResult.errors.length > 0) {
-        this.logger.warn('Imported recipe has validation issues', { errors: validationResult.errors });
-        this.notificationService.warning(
-          `Recipe imported with ${validationResult.errors.length} validation warning(s).`
+      if (!recipe) {
+        this.logger.warn('Imported recipe was rejected', { fileName: file.name, reasons: report.reasons });
+        this.notificationService.error(
+          `Recipe rejected with ${report.reasons.length} validation error(s).`
         );
+        return {
+          success: false,
+          errors: report.reasons,
+          reports: [report],
+          message: 'Recipe rejected'
+        };
       }
 
       this.storageService.saveRecipe(recipe);
 
       this.logger.info('Recipe imported successfully', { recipeId: recipe.id });
-      this.notificationService.success('Recipe imported successfully!');
+      if (report.warnings.length > 0) {
+        this.notificationService.warning(
+          `Recipe imported with ${report.warnings.length} warning(s).`
+        );
+      } else {
+        this.notificationService.success('Recipe imported successfully!');
+      }
 
       return {
         success: true,
         recipe,
-        errors: validationResult.errors.length > 0
-          ? validationResult.errors.map(e => `${e.field}: ${e.message}`)
-          : undefined,
+        reports: [report],
         message: 'Recipe imported successfully'
       };
 
@@ -238,11 +323,40 @@ export class IOCoordinatorService {
       return {
         success: false,
         errors: [(error as Error).message],
+        reports: [
+          this.importService.createReport(file.name, undefined, ['File is not valid recipe JSON'], [])
+        ],
         message: 'Failed to import recipe'
       };
     }
   }
 
+  private async importFromZip(
+    file: File,
+    progressCallback?: (progress: IOProgress) => void
+  ): Promise<ImportResult> {
+    this.logger.info('Starting import from ZIP', { fileName: file.name });
+
+    const summary = await this.importService.importFromZip(
+      file,
+      this.fileStorageService,
+      this.recipeValidator,
+      progressCallback
+    );
+
+    summary.recipes.forEach(recipe => this.storageService.saveRecipe(recipe));
+    summary.publications.forEach((publication, recipeId) =>
+      this.storageService.saveRecipePublication(recipeId, publication)
+    );
+
+    return {
+      success: summary.recipes.length > 0,
+      recipes: summary.recipes,
+      reports: summary.reports,
+      message: `Imported ${summary.recipes.length} of ${summary.reports.length} recipe(s)`
+    };
+  }
+
   mergeRecipeData(
     originalRecipes: Recipe[],
     editedRecipes: RecipeData[]
@@ -313,9 +427,10 @@ export class IOCoordinatorService {
       }
 
       this.fileStorageService.clearAll();
+      this.versionHistoryService.clearAll();
 
-      // Clear all active states
-      this.storageService.clearAllActiveStates();
+      // Clear all publication states
+      this.storageService.clearAllPublications();
 
       this.logger.info('All edited data cleared', { count: editedCount });
       this.notificationService.success(`Cleared ${editedCount} edited recipe(s).`);
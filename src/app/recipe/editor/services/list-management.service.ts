@@ -1,9 +1,17 @@
 import { Injectable, OnDestroy } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { BehaviorSubject, Observable, Subject } from 'rxjs';
-import { takeUntil, map } from 'rxjs/operators';
-import { Recipe, RecipeData } from '../../core/models/recipe.model';
-import { CacheService } from '../../core/services/cache.service';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { Recipe, RecipeData, RecipeIndexItem, RecipePublication } from '../../core/models/recipe.model';
+import {
+  DEFAULT_PUBLICATION,
+  PublicationStatus,
+  getIndexPublication,
+  getPublicationStatus
+} from '../../core/publication';
+import { DataService } from '../../core/services/data.service';
+import { TransformService } from '../../core/services/transform.service';
+import { GraphService } from '../../core/services/graph.service';
+import { RecipeDataWithMetadata } from '../../core/services/file-resolver.service';
 import { StorageService } from './storage.service';
 import { LoggerService } from '../../core/services/logger.service';
 import { sortRecipesByCategoryAndTitle } from '../../core/utils';
@@ -29,11 +37,12 @@ export class ListManagementService implements OnDestroy {
   private editedRecipeIdsSubject = new BehaviorSubject<Set<string>>(new Set());
   public readonly editedRecipeIds$ = this.editedRecipeIdsSubject.asObservable();
 
-  private recipeActiveStatesSubject = new BehaviorSubject<Map<string, boolean>>(new Map());
+  private recipePublicationsSubject = new BehaviorSubject<Map<string, RecipePublication>>(new Map());
 
   constructor(
-    private http: HttpClient,
-    private cacheService: CacheService,
+    private dataService: DataService,
+    private transformService: TransformService,
+    private graphService: GraphService,
     private storageService: StorageService,
     private logger: LoggerService
   ) {
@@ -47,15 +56,23 @@ export class ListManagementService implements OnDestroy {
 
   private initialize(): void {
     this.loadRecipes();
-    this.loadRecipeActiveStates();
     this.loadEditedRecipes();
   }
 
+  /**
+   * Every recipe in index.json, not just the live ones the site shows, so drafts and
+   * scheduled recipes can be edited
+   */
   loadRecipes(): void {
-    this.cacheService.getRecipes$()
+    this.dataService.loadIndexedRecipes()
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (recipes) => {
+        next: ({ indexItems, recipes: records }) => {
+          const recipes = this.transformService.transformRecipeRecords(records);
+          this.loadRecipePublications(indexItems, records);
+
+          this.graphService.setReferenceRecipes(recipes);
+
           this.recipesSubject.next(recipes);
           this.filteredRecipesSubject.next(sortRecipesByCategoryAndTitle(recipes));
           this.logger.debug('Recipes loaded for editor', { count: recipes.length });
@@ -66,31 +83,30 @@ export class ListManagementService implements OnDestroy {
       });
   }
 
-  loadRecipeActiveStates(): void {
-    this.http.get<{recipes: {folderId: string, active: boolean}[]}>('assets/recipes/index.json')
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (indexData) => {
-          const stateMap = new Map<string, boolean>();
-
-          // First, load the original active states from index.json
-          indexData.recipes.forEach(item => {
-            stateMap.set(item.folderId, item.active);
-          });
-
-          // Then, override with any saved states from localStorage
-          const savedStates = this.storageService.getAllActiveStates();
-          Object.keys(savedStates).forEach(recipeId => {
-            stateMap.set(recipeId, savedStates[recipeId]);
-          });
-
-          this.recipeActiveStatesSubject.next(stateMap);
-          this.logger.debug('Recipe active states loaded', { count: stateMap.size });
-        },
-        error: (error) => {
-          this.logger.error('Failed to load recipe active states', error);
-        }
-      });
+  /**
+   * index.json is keyed by folder while the editor works with recipe IDs, so each
+   * entry is matched to the recipe loaded from its folder
+   */
+  private loadRecipePublications(indexItems: RecipeIndexItem[], records: RecipeDataWithMetadata[]): void {
+    const folderPublications = new Map(indexItems.map(item => [item.folderId, getIndexPublication(item)]));
+    const publicationMap = new Map<string, RecipePublication>();
+
+    // First, load the publications from index.json
+    records.forEach(record => {
+      const publication = record.__folderId ? folderPublications.get(record.__folderId) : undefined;
+      if (record.id && publication) {
+        publicationMap.set(record.id, publication);
+      }
+    });
+
+    // Then, override with any publications changed in the editor
+    const savedPublications = this.storageService.getAllPublications();
+    Object.keys(savedPublications).forEach(recipeId => {
+      publicationMap.set(recipeId, savedPublications[recipeId]);
+    });
+
+    this.recipePublicationsSubject.next(publicationMap);
+    this.logger.debug('Recipe publications loaded', { count: publicationMap.size });
   }
 
   loadEditedRecipes(): void {
@@ -99,7 +115,7 @@ export class ListManagementService implements OnDestroy {
     this.logger.debug('Edited recipes loaded', { count: editedIds.length });
   }
 
-  filterRecipes(searchQuery: string, selectedCategory: string): void {
+  filterRecipes(searchQuery: string, selectedCategory: string, selectedStatus: PublicationStatus | '' = ''): void {
     const recipes = this.recipesSubject.value;
 
     const filtered = recipes.filter(recipe => {
@@ -110,7 +126,10 @@ export class ListManagementService implements OnDestroy {
       const matchesCategory = !selectedCategory ||
         recipe.category.includes(selectedCategory);
 
-      return matchesSearch && matchesCategory;
+      const matchesStatus = !selectedStatus ||
+        this.getRecipeStatus(recipe.id) === selectedStatus;
+
+      return matchesSearch && matchesCategory && matchesStatus;
     });
 
     this.filteredRecipesSubject.next(sortRecipesByCategoryAndTitle(filtered));
@@ -120,21 +139,25 @@ export class ListManagementService implements OnDestroy {
     return this.editedRecipeIdsSubject.value.has(recipeId);
   }
 
-  isRecipeActive(recipeId: string): boolean {
-    return this.recipeActiveStatesSubject.value.get(recipeId) ?? true;
+  getRecipePublication(recipeId: string): RecipePublication {
+    return this.recipePublicationsSubject.value.get(recipeId) ?? DEFAULT_PUBLICATION;
+  }
+
+  getRecipeStatus(recipeId: string): PublicationStatus {
+    return getPublicationStatus(this.getRecipePublication(recipeId));
   }
 
-  setRecipeActiveState(recipeId: string, isActive: boolean): void {
-    const currentStates = new Map(this.recipeActiveStatesSubject.value);
-    currentStates.set(recipeId, isActive);
-    this.recipeActiveStatesSubject.next(currentStates);
+  setRecipePublication(recipeId: string, publication: RecipePublication): void {
+    const currentPublications = new Map(this.recipePublicationsSubject.value);
+    currentPublications.set(recipeId, publication);
+    this.recipePublicationsSubject.next(currentPublications);
 
     // Persist to localStorage
-    this.storageService.saveRecipeActiveState(recipeId, isActive);
+    this.storageService.saveRecipePublication(recipeId, publication);
   }
 
-  getAllRecipeActiveStates(): Map<string, boolean> {
-    return new Map(this.recipeActiveStatesSubject.value);
+  getAllRecipePublications(): Map<string, RecipePublication> {
+    return new Map(this.recipePublicationsSubject.value);
   }
 
   getFilteredEditedRecipes(isCreated?: boolean): RecipeData[] {
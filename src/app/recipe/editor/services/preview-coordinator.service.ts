@@ -1,10 +1,10 @@
 import { Injectable } from '@angular/core';
-import { Subject } from 'rxjs';
-import { debounceTime } from 'rxjs/operators';
-import { RecipeData, normalizeCategory } from '../../core/models/recipe.model';
+import { Observable, Subject } from 'rxjs';
+import { debounceTime, map, share } from 'rxjs/operators';
+import { Recipe, RecipeData, normalizeCategory } from '../../core/models/recipe.model';
 import { PreviewService } from '../../core/services/preview.service';
 import { LoggerService } from '../../core/services/logger.service';
-import { cleanRecipeForExport } from '../../core/utils';
+import { cleanRecipeData, cleanRecipeForExport } from '../../core/utils';
 
 /**
  * Recipe Preview Coordinator Service
@@ -14,9 +14,11 @@ import { cleanRecipeForExport } from '../../core/utils';
  * Responsibilities:
  * - Trigger preview updates (debounced)
  * - Generate JSON preview for display
+ * - Build the recipe rendered by the embedded live preview
  * - Open preview in new tab
  * - Cross-tab preview synchronization
  * - External preview window updates
+ * - Scroll open previews to the focused walkthrough step
  */
 @Injectable({
   providedIn: 'root'
@@ -31,6 +33,27 @@ export class PreviewCoordinatorService {
     customStepNames: {[index: number]: string};
   }>();
 
+  private debouncedPreviewUpdate$ = this.previewUpdateSubject.pipe(
+    debounceTime(500),
+    share()
+  );
+
+  /**
+   * Live preview pane content, rebuilt with the same debounce as preview windows.
+   * `source` is the edited recipe it was built from.
+   */
+  readonly livePreview$: Observable<{ source: RecipeData; preview: Recipe }> = this.debouncedPreviewUpdate$.pipe(
+    map(({ recipe, customStepNames }) => ({
+      source: recipe,
+      preview: this.buildLivePreview(recipe, customStepNames)
+    }))
+  );
+
+  /**
+   * Last step sent to preview windows, so repeated focus events within a step are not re-sent
+   */
+  private focusedStep: { recipeId: string; stepIndex: number } | null = null;
+
   constructor(
     private previewService: PreviewService,
     private logger: LoggerService
@@ -45,8 +68,7 @@ export class PreviewCoordinatorService {
    * Updates are debounced by 500ms to avoid excessive updates
    */
   private setupPreviewUpdate(): void {
-    this.previewUpdateSubject
-      .pipe(debounceTime(500))
+    this.debouncedPreviewUpdate$
       .subscribe(({ recipe, customStepNames }) => {
         this.updatePreview(recipe, customStepNames);
       });
@@ -81,7 +103,7 @@ export class PreviewCoordinatorService {
       const cleanedRecipe = cleanRecipeForExport(recipe, customStepNames);
 
       // Update preview service with RecipePreviewData
-      this.previewService.updatePreviewData({
+      this.previewService.publishPreviewData({
         recipeId: recipe.id,
         title: recipe.title,
         category: normalizeCategory(recipe.category),
@@ -118,6 +140,31 @@ export class PreviewCoordinatorService {
     }
   }
 
+  // ==================== Embedded Preview ====================
+
+  /**
+   * Build the recipe rendered by the editor's live preview pane.
+   * Unlike exports, runtime display URLs are kept so unsaved images still show.
+   *
+   * @param recipe - Recipe being edited
+   * @param customStepNames - Custom step names mapping
+   * @returns Recipe in its runtime shape
+   */
+  buildLivePreview(
+    recipe: RecipeData,
+    customStepNames: {[index: number]: string}
+  ): Recipe {
+    const cleanedRecipe = cleanRecipeData(recipe, {
+      removeInternalProps: true,
+      customStepNames
+    });
+
+    return {
+      ...cleanedRecipe,
+      category: normalizeCategory(cleanedRecipe.category)
+    };
+  }
+
   // ==================== Cross-Tab Preview ====================
 
   /**
@@ -136,7 +183,7 @@ export class PreviewCoordinatorService {
       const cleanedRecipe = cleanRecipeForExport(recipe, customStepNames);
 
       // Store in preview service (accessible across tabs)
-      this.previewService.updatePreviewData({
+      this.previewService.publishPreviewData({
         recipeId: recipe.id,
         title: recipe.title,
         category: normalizeCategory(recipe.category),
@@ -150,6 +197,21 @@ export class PreviewCoordinatorService {
     }
   }
 
+  /**
+   * Scroll open preview windows to a walkthrough step
+   *
+   * @param recipeId - Recipe being edited
+   * @param stepIndex - Zero-based index of the focused step
+   */
+  focusPreviewStep(recipeId: string, stepIndex: number): void {
+    if (this.focusedStep?.recipeId === recipeId && this.focusedStep.stepIndex === stepIndex) {
+      return;
+    }
+
+    this.focusedStep = { recipeId, stepIndex };
+    this.previewService.focusPreviewStep(recipeId, stepIndex);
+  }
+
   // ==================== External Preview Window ====================
 
   /**
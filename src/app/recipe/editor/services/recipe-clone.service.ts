@@ -0,0 +1,151 @@
+import { Injectable } from '@angular/core';
+import { RecipeData, StepMedia, GeneralImage, DownloadableExecutable } from '../../core/models/recipe.model';
+import { FileResolverService, RecipeDataWithMetadata } from '../../core/services/file-resolver.service';
+import { LoggerService } from '../../core/services/logger.service';
+import { RECIPE_PATHS } from '../../core/constants/recipe.constants';
+import { FileStorageAdapter } from '../../core/storage';
+import { cleanRecipeData } from '../../core/utils';
+import { EditorUtils } from '../utils/editor.utils';
+
+export interface RecipeCloneResult {
+  recipe: RecipeData;
+  missingFiles: string[];  // Files referenced by the source that could not be copied
+}
+
+/**
+ * Recipe Clone Service
+ *
+ * Duplicates a recipe under a new ID. Images and downloadable executables are
+ * copied into FileStorageAdapter under new keys, so editing or deleting files
+ * in the clone never touches the source recipe's files. Files the source only
+ * has as published assets are fetched and stored the same way.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RecipeCloneService {
+  constructor(
+    private fileStorageService: FileStorageAdapter,
+    private fileResolver: FileResolverService,
+    private logger: LoggerService
+  ) {}
+
+  async cloneRecipe(source: RecipeData): Promise<RecipeCloneResult> {
+    const clone: RecipeDataWithMetadata = cleanRecipeData(source, {
+      removeRuntimeProps: true,
+      removeInternalProps: true,
+      normalizeImagePaths: true
+    });
+    delete clone.__folderId;
+
+    clone.title = `${source.title} (Copy)`;
+    clone.id = EditorUtils.generateRecipeId(clone.title);
+
+    const missingFiles: string[] = [];
+    const copiedImages = new Map<string, string>();
+
+    for (const step of clone.walkthrough || []) {
+      for (const media of step.media || []) {
+        await this.copyImage(media, source, copiedImages, missingFiles);
+      }
+    }
+
+    for (const image of clone.generalImages || []) {
+      await this.copyImage(image, source, copiedImages, missingFiles);
+    }
+
+    for (const executable of clone.downloadableExecutables || []) {
+      await this.copyExecutable(executable, source, missingFiles);
+    }
+
+    this.logger.info('Recipe cloned', {
+      sourceId: source.id,
+      cloneId: clone.id,
+      images: copiedImages.size,
+      missingFiles: missingFiles.length
+    });
+
+    return { recipe: clone, missingFiles };
+  }
+
+  /**
+   * Copy the image behind a media item and point the item at the copy.
+   * Media sharing one source image share one copy.
+   */
+  private async copyImage(
+    item: StepMedia | GeneralImage,
+    source: RecipeData,
+    copiedImages: Map<string, string>,
+    missingFiles: string[]
+  ): Promise<void> {
+    if (!item.url || !item.url.startsWith('images/')) return;
+
+    const fileName = item.url.replace('images/', '');
+    const extension = fileName.includes('.') ? fileName.split('.').pop() : '';
+    const key = fileName.replace(/\.[^/.]+$/, '');
+
+    let newKey = copiedImages.get(key);
+    if (!newKey) {
+      const file = await this.fileResolver.getFileWithFallback(
+        this.fileStorageService, key, source, item.url, true
+      );
+      if (!file) {
+        missingFiles.push(item.url);
+        return;
+      }
+
+      newKey = await this.getUnusedKey(key, id => this.fileStorageService.imageExists(id));
+      await this.fileStorageService.storeImage(newKey, file);
+      copiedImages.set(key, newKey);
+    }
+
+    item.url = extension ? `images/${newKey}.${extension}` : `images/${newKey}`;
+    if ('imageId' in item && item.imageId) {
+      item.imageId = newKey;
+    }
+  }
+
+  private async copyExecutable(
+    executable: DownloadableExecutable,
+    source: RecipeData,
+    missingFiles: string[]
+  ): Promise<void> {
+    if (!executable.filePath || !executable.filePath.startsWith('downloadExecutables/')) return;
+
+    const fileName = executable.filePath.replace('downloadExecutables/', '');
+    const file = await this.fileResolver.getFileWithFallback(
+      this.fileStorageService, fileName, source, executable.filePath, false
+    );
+    if (!file) {
+      missingFiles.push(executable.filePath);
+      return;
+    }
+
+    const extension = fileName.match(/\.[^/.]+$/)?.[0] || '';
+    const baseName = fileName.slice(0, fileName.length - extension.length);
+    const newBaseName = await this.getUnusedKey(
+      baseName,
+      async id => !!(await this.fileStorageService.getJsonFile(`${id}${extension}`))
+    );
+    const newFileName = `${newBaseName}${extension}`;
+
+    await this.fileStorageService.storeJsonFile(newFileName, file);
+    executable.filePath = `downloadExecutables/${newFileName}`;
+
+    // The published url pointed at the source recipe's asset folder
+    if (executable.url?.includes(RECIPE_PATHS.RECIPE_FOLDERS_BASE)) {
+      delete executable.url;
+    }
+  }
+
+  private async getUnusedKey(baseKey: string, exists: (key: string) => Promise<boolean>): Promise<string> {
+    let key = `${baseKey}-copy`;
+    let counter = 1;
+
+    while (await exists(key)) {
+      key = `${baseKey}-copy-${++counter}`;
+    }
+
+    return key;
+  }
+}
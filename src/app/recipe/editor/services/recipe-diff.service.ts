@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { RecipeData } from '../../core/models/recipe.model';
+import { DataService } from '../../core/services/data.service';
+import { FileResolverService } from '../../core/services/file-resolver.service';
+import { LoggerService } from '../../core/services/logger.service';
+import { RECIPE_PATHS } from '../../core/constants/recipe.constants';
+import { cleanRecipeData } from '../../core/utils';
+import { ImageLoaderService } from './image-loader.service';
+import { MediaChange, RecipeDiff, RecipeDiffUtil } from '../utils/recipe-diff.util';
+
+export interface RecipeDiffResult {
+  recipeId: string;
+  folderId: string;
+  diff: RecipeDiff | null;  // null when the recipe has no published version
+}
+
+/**
+ * Recipe Diff Service
+ *
+ * Compares the recipe being edited with the published recipe.json it was
+ * loaded from and resolves thumbnails for the media that changed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RecipeDiffService {
+  constructor(
+    private dataService: DataService,
+    private fileResolver: FileResolverService,
+    private imageLoader: ImageLoaderService,
+    private logger: LoggerService
+  ) {}
+
+  async compareWithPublished(
+    recipe: RecipeData,
+    customStepNames: { [index: number]: string } = {}
+  ): Promise<RecipeDiffResult> {
+    const folderId = this.fileResolver.getFolderIdForRecipe(recipe);
+    const published = await firstValueFrom(this.dataService.loadSingleRecipe(folderId));
+
+    if (!published) {
+      this.logger.debug(`No published version found for recipe ${recipe.id}`);
+      return { recipeId: recipe.id, folderId, diff: null };
+    }
+
+    const diff = await this.compareRecipes(published, recipe, customStepNames);
+    return { recipeId: recipe.id, folderId, diff };
+  }
+
+  /**
+   * Diff any two versions of a recipe, e.g. a history snapshot against the recipe being edited
+   */
+  async compareRecipes(
+    original: RecipeData,
+    edited: RecipeData,
+    customStepNames: { [index: number]: string } = {}
+  ): Promise<RecipeDiff> {
+    const folderId = this.fileResolver.getFolderIdForRecipe(edited);
+    const cleanOptions = { removeRuntimeProps: true, removeInternalProps: true, normalizeImagePaths: true };
+    const diff = RecipeDiffUtil.diffRecipes(
+      cleanRecipeData(original, cleanOptions),
+      cleanRecipeData(edited, { ...cleanOptions, customStepNames })
+    );
+
+    await this.resolveThumbnails(diff, folderId);
+    return diff;
+  }
+
+  private async resolveThumbnails(diff: RecipeDiff, folderId: string): Promise<void> {
+    const mediaChanges = [
+      ...diff.generalImages,
+      ...diff.steps.flatMap(step => step.mediaChanges)
+    ];
+
+    await Promise.all(mediaChanges.map(async change => {
+      change.thumbnailUrl = await this.getThumbnailUrl(change, folderId);
+    }));
+  }
+
+  /**
+   * Edited images live in IndexedDB until exported; anything not found there
+   * is still the published asset.
+   */
+  private async getThumbnailUrl(change: MediaChange, folderId: string): Promise<string> {
+    const result = await this.imageLoader.loadImageForMedia({
+      type: change.mediaType,
+      url: change.url,
+      alt: change.alt
+    });
+
+    return result.success && result.displayUrl
+      ? result.displayUrl
+      : this.getPublishedUrl(change.url, folderId);
+  }
+
+  private getPublishedUrl(url: string, folderId: string): string {
+    if (/^(assets\/|https?:|data:|blob:)/.test(url)) {
+      return url;
+    }
+    return `${RECIPE_PATHS.RECIPE_FOLDERS_BASE}${folderId}/${url}`;
+  }
+}
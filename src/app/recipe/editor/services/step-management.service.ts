@@ -173,6 +173,10 @@ export class StepManagementService {
     this.expandedStepsSubject.next(expanded);
   }
 
+  setExpandedSteps(stepIndexes: number[]): void {
+    this.expandedStepsSubject.next(new Set(stepIndexes));
+  }
+
   toggleStep(stepIndex: number): void {
     const currentExpanded = new Set(this.expandedStepsSubject.value);
 
@@ -220,6 +224,10 @@ export class StepManagementService {
     this.logger.debug('Custom step name changed', { stepIndex, customName });
   }
 
+  setCustomStepNames(names: {[index: number]: string}): void {
+    this.customStepNamesSubject.next({ ...names });
+  }
+
   reindexCustomStepNames(steps: WalkthroughStep[]): void {
     const currentNames = this.customStepNamesSubject.value;
     const newNames: {[index: number]: string} = {};
@@ -1,8 +1,9 @@
 import { Injectable } from '@angular/core';
-import { RecipeData } from '../../core/models/recipe.model';
+import { RecipeData, RecipePublication } from '../../core/models/recipe.model';
 import { LoggerService } from '../../core/services/logger.service';
 import { LocalStorageService } from '../../core/services/local-storage.service';
 import { cleanRecipeForStorage } from '../../core/utils';
+import { EDITOR_CONSTANTS } from '../editor.constants';
 
 @Injectable({
   providedIn: 'root'
@@ -11,7 +12,9 @@ export class StorageService {
   private readonly STORAGE_KEY_PREFIX = 'recipe_editor_';
   private readonly EDITED_RECIPES_KEY = this.STORAGE_KEY_PREFIX + 'edited_recipes';
   private readonly EDITED_IDS_KEY = this.STORAGE_KEY_PREFIX + 'edited_ids';
-  private readonly ACTIVE_STATES_KEY = this.STORAGE_KEY_PREFIX + 'active_states';
+  private readonly ACTIVE_STATES_KEY = this.STORAGE_KEY_PREFIX + 'active_states';  // Before publication states
+  private readonly PUBLICATIONS_KEY = this.STORAGE_KEY_PREFIX + 'publications';
+  private readonly HISTORY_LIMIT_KEY = this.STORAGE_KEY_PREFIX + 'history_limit';
 
   constructor(
     private logger: LoggerService,
@@ -91,36 +94,64 @@ export class StorageService {
     return this.deleteEditedRecipe(recipeId);
   }
 
-  saveRecipeActiveState(recipeId: string, isActive: boolean): void {
+  saveRecipePublication(recipeId: string, publication: RecipePublication): void {
     try {
-      const activeStates = this.getAllActiveStates();
-      activeStates[recipeId] = isActive;
-      this.storage.setItem(this.ACTIVE_STATES_KEY, activeStates);
+      const publications = this.getSavedPublications();
+      publications[recipeId] = publication;
+      this.storage.setItem(this.PUBLICATIONS_KEY, publications);
     } catch (error) {
-      this.logger.error('Error saving recipe active state:', error);
+      this.logger.error('Error saving recipe publication:', error);
     }
   }
 
-  getAllActiveStates(): { [recipeId: string]: boolean } {
-    return this.storage.getItem<{ [recipeId: string]: boolean }>(this.ACTIVE_STATES_KEY, {}) || {};
+  /**
+   * Publications set in the editor. Active flags saved before publication states
+   * read as published or draft.
+   */
+  getAllPublications(): { [recipeId: string]: RecipePublication } {
+    const legacyStates = this.storage.getItem<{ [recipeId: string]: boolean }>(this.ACTIVE_STATES_KEY, {}) || {};
+    const publications: { [recipeId: string]: RecipePublication } = {};
+
+    Object.keys(legacyStates).forEach(recipeId => {
+      publications[recipeId] = { state: legacyStates[recipeId] ? 'published' : 'draft' };
+    });
+
+    return { ...publications, ...this.getSavedPublications() };
   }
 
-  clearActiveState(recipeId: string): void {
+  clearPublication(recipeId: string): void {
     try {
-      const activeStates = this.getAllActiveStates();
-      delete activeStates[recipeId];
-      this.storage.setItem(this.ACTIVE_STATES_KEY, activeStates);
+      const publications = this.getSavedPublications();
+      delete publications[recipeId];
+      this.storage.setItem(this.PUBLICATIONS_KEY, publications);
+
+      const legacyStates = this.storage.getItem<{ [recipeId: string]: boolean }>(this.ACTIVE_STATES_KEY, {}) || {};
+      delete legacyStates[recipeId];
+      this.storage.setItem(this.ACTIVE_STATES_KEY, legacyStates);
     } catch (error) {
-      this.logger.error('Error clearing recipe active state:', error);
+      this.logger.error('Error clearing recipe publication:', error);
     }
   }
 
-  clearAllActiveStates(): void {
+  clearAllPublications(): void {
     try {
+      this.storage.setItem(this.PUBLICATIONS_KEY, {});
       this.storage.setItem(this.ACTIVE_STATES_KEY, {});
     } catch (error) {
-      this.logger.error('Error clearing all active states:', error);
+      this.logger.error('Error clearing all publications:', error);
     }
   }
 
-}
\ No newline at end of file
+  private getSavedPublications(): { [recipeId: string]: RecipePublication } {
+    return this.storage.getItem<{ [recipeId: string]: RecipePublication }>(this.PUBLICATIONS_KEY, {}) || {};
+  }
+
+  getHistoryLimit(): number {
+    const limit = this.storage.getItem<number>(this.HISTORY_LIMIT_KEY, EDITOR_CONSTANTS.HISTORY_DEFAULT_LIMIT);
+    return typeof limit === 'number' && limit > 0 ? limit : EDITOR_CONSTANTS.HISTORY_DEFAULT_LIMIT;
+  }
+
+  saveHistoryLimit(limit: number): void {
+    this.storage.setItem(this.HISTORY_LIMIT_KEY, limit);
+  }
+}
@@ -0,0 +1,272 @@
+import { Injectable } from '@angular/core';
+import { RecipeData } from '../../core/models/recipe.model';
+import { LoggerService } from '../../core/services/logger.service';
+import { FileStorageAdapter } from '../../core/storage';
+import { cleanRecipeData } from '../../core/utils';
+import { EDITOR_CONSTANTS } from '../editor.constants';
+
+export interface EditorSnapshot {
+  recipe: RecipeData;
+  customStepNames: { [index: number]: string };
+}
+
+/**
+ * One undoable change: the editor state before and after it
+ */
+export interface EditorCommand {
+  label: string;
+  before: EditorSnapshot;
+  after: EditorSnapshot;
+  timestamp: number;
+  coalescable: boolean;  // Unlabelled field edits merge into one command while typing
+  removedFiles: RemovedFile[];  // Deleted from IndexedDB by this command
+}
+
+/**
+ * A file deleted from IndexedDB, kept in memory so its removal can be undone
+ */
+export interface RemovedFile {
+  kind: 'image' | 'json';
+  key: string;
+  file: File;
+}
+
+interface TabHistory {
+  current: EditorSnapshot;
+  undoStack: EditorCommand[];
+  redoStack: EditorCommand[];
+}
+
+const FIELD_EDIT_LABEL = 'Edit';
+
+/**
+ * Undo/Redo Service
+ *
+ * Keeps a separate command history for each editor tab. Every change reported
+ * through the editor's onRecipeChange is recorded as a command holding the state
+ * before and after it. Files deleted from IndexedDB by a removal are kept with
+ * the command that removed them: undoing it puts them back, redoing it deletes
+ * them again.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UndoRedoService {
+  private histories = new Map<string, TabHistory>();
+
+  // Removals report their files before the change itself is recorded
+  private pendingRemovedFiles: RemovedFile[] = [];
+
+  constructor(
+    private fileStorageService: FileStorageAdapter,
+    private logger: LoggerService
+  ) {}
+
+  /**
+   * Start (or restart) a tab's history from its current state
+   */
+  track(tabId: string, recipe: RecipeData, customStepNames: { [index: number]: string }): void {
+    this.histories.set(tabId, {
+      current: this.createSnapshot(recipe, customStepNames),
+      undoStack: [],
+      redoStack: []
+    });
+  }
+
+  /**
+   * Record the tab's new state. Changes without a label are field edits and are
+   * merged with the previous field edit if it happened moments ago.
+   */
+  record(
+    tabId: string,
+    recipe: RecipeData,
+    customStepNames: { [index: number]: string },
+    label?: string
+  ): boolean {
+    const removedFiles = this.pendingRemovedFiles;
+    this.pendingRemovedFiles = [];
+
+    const history = this.histories.get(tabId);
+    if (!history) {
+      this.track(tabId, recipe, customStepNames);
+      return false;
+    }
+
+    const snapshot = this.createSnapshot(recipe, customStepNames);
+    if (this.isSameSnapshot(snapshot, history.current)) {
+      return false;
+    }
+
+    const now = Date.now();
+    const last = history.undoStack[history.undoStack.length - 1];
+    const coalesce = !label && !!last && last.coalescable && history.redoStack.length === 0 &&
+      now - last.timestamp < EDITOR_CONSTANTS.UNDO_COALESCE_MS;
+
+    if (coalesce) {
+      last.after = snapshot;
+      last.timestamp = now;
+      last.removedFiles.push(...removedFiles);
+      history.current = snapshot;
+    } else {
+      this.pushCommand(history, label || FIELD_EDIT_LABEL, snapshot, !label, removedFiles);
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a change made outside the editor's onRecipeChange, such as step images
+   * renamed after a delay, as its own command. The files it deleted go with it
+   * rather than with whatever the next recorded change is.
+   */
+  recordFileChange(tabId: string, recipe: RecipeData, label: string, removedFiles: RemovedFile[]): boolean {
+    const history = this.histories.get(tabId);
+    if (!history) return false;
+
+    const snapshot = this.createSnapshot(recipe, history.current.customStepNames);
+    if (this.isSameSnapshot(snapshot, history.current)) {
+      return false;
+    }
+
+    this.pushCommand(history, label, snapshot, false, removedFiles);
+    return true;
+  }
+
+  /**
+   * Step back one command. Returns the state to load into the tab.
+   */
+  async undo(tabId: string): Promise<EditorSnapshot | null> {
+    const history = this.histories.get(tabId);
+    const command = history?.undoStack.pop();
+    if (!history || !command) return null;
+
+    history.redoStack.push(command);
+    history.current = command.before;
+    await this.restoreRemovedFiles(command.removedFiles);
+
+    this.logger.debug('Undo', { tabId, label: command.label });
+    return this.cloneSnapshot(command.before);
+  }
+
+  /**
+   * Re-apply the last undone command. Returns the state to load into the tab.
+   */
+  async redo(tabId: string): Promise<EditorSnapshot | null> {
+    const history = this.histories.get(tabId);
+    const command = history?.redoStack.pop();
+    if (!history || !command) return null;
+
+    history.undoStack.push(command);
+    history.current = command.after;
+    await this.deleteRemovedFiles(command.removedFiles);
+
+    this.logger.debug('Redo', { tabId, label: command.label });
+    return this.cloneSnapshot(command.after);
+  }
+
+  canUndo(tabId: string): boolean {
+    return (this.histories.get(tabId)?.undoStack.length || 0) > 0;
+  }
+
+  canRedo(tabId: string): boolean {
+    return (this.histories.get(tabId)?.redoStack.length || 0) > 0;
+  }
+
+  getUndoLabel(tabId: string): string | null {
+    const stack = this.histories.get(tabId)?.undoStack;
+    return stack?.length ? stack[stack.length - 1].label : null;
+  }
+
+  getRedoLabel(tabId: string): string | null {
+    const stack = this.histories.get(tabId)?.redoStack;
+    return stack?.length ? stack[stack.length - 1].label : null;
+  }
+
+  dispose(tabId: string): void {
+    this.histories.delete(tabId);
+  }
+
+  clearAll(): void {
+    this.histories.clear();
+    this.pendingRemovedFiles = [];
+  }
+
+  /**
+   * Hold on to a file that is being deleted from IndexedDB. It is attached to the
+   * next recorded change, which is the removal itself.
+   */
+  keepRemovedFile(kind: RemovedFile['kind'], key: string, file: File | null): void {
+    if (!key || !file) return;
+    this.pendingRemovedFiles.push({ kind, key, file });
+  }
+
+  private pushCommand(
+    history: TabHistory,
+    label: string,
+    snapshot: EditorSnapshot,
+    coalescable: boolean,
+    removedFiles: RemovedFile[]
+  ): void {
+    history.undoStack.push({
+      label,
+      before: history.current,
+      after: snapshot,
+      timestamp: Date.now(),
+      coalescable,
+      removedFiles
+    });
+
+    if (history.undoStack.length > EDITOR_CONSTANTS.UNDO_HISTORY_LIMIT) {
+      history.undoStack.shift();
+    }
+
+    history.current = snapshot;
+    history.redoStack = [];
+  }
+
+  private async restoreRemovedFiles(files: RemovedFile[]): Promise<void> {
+    for (const { kind, key, file } of files) {
+      try {
+        if (kind === 'image') {
+          await this.fileStorageService.storeImage(key, file);
+        } else {
+          await this.fileStorageService.storeJsonFile(key, file);
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to restore removed ${kind} file ${key}`, error);
+      }
+    }
+  }
+
+  private async deleteRemovedFiles(files: RemovedFile[]): Promise<void> {
+    for (const { kind, key } of files) {
+      try {
+        if (kind === 'image') {
+          await this.fileStorageService.deleteImage(key);
+        } else {
+          await this.fileStorageService.deleteJsonFile(key);
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to delete removed ${kind} file ${key} again`, error);
+      }
+    }
+  }
+
+  private createSnapshot(recipe: RecipeData, customStepNames: { [index: number]: string }): EditorSnapshot {
+    return {
+      recipe: cleanRecipeData(recipe, { removeRuntimeProps: true }),
+      customStepNames: { ...customStepNames }
+    };
+  }
+
+  private cloneSnapshot(snapshot: EditorSnapshot): EditorSnapshot {
+    return {
+      recipe: cleanRecipeData(snapshot.recipe),
+      customStepNames: { ...snapshot.customStepNames }
+    };
+  }
+
+  private isSameSnapshot(a: EditorSnapshot, b: EditorSnapshot): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
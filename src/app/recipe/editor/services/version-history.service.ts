@@ -0,0 +1,167 @@
+import { Injectable } from '@angular/core';
+import { RecipeData } from '../../core/models/recipe.model';
+import { LoggerService } from '../../core/services/logger.service';
+import { StorageService } from './storage.service';
+
+export interface RecipeSnapshot {
+  id: string;
+  recipeId: string;
+  title: string;
+  timestamp: number;
+  recipe: RecipeData;  // Recipe as saved (storage form)
+}
+
+/**
+ * Version History Service
+ *
+ * Keeps a timestamped snapshot of each recipe save in IndexedDB so earlier
+ * versions can be browsed, compared and restored. The number of snapshots kept
+ * per recipe is a user setting (see StorageService.getHistoryLimit).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VersionHistoryService {
+  private dbName = 'RecipeHistoryDB';
+  private storeName = 'snapshots';
+  private initPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private storageService: StorageService,
+    private logger: LoggerService
+  ) {}
+
+  private init(): Promise<IDBDatabase> {
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+
+    this.initPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => {
+        this.logger.error('Failed to open history database:', request.error);
+        this.initPromise = null;
+        reject(request.error);
+      };
+
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
+          store.createIndex('recipeId', 'recipeId', { unique: false });
+          store.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+      };
+    });
+
+    return this.initPromise;
+  }
+
+  private async performDbOperation<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const store = db.transaction([this.storeName], mode).objectStore(this.storeName);
+      const request = operation(store);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Record a snapshot of a saved recipe. Saves identical to the latest snapshot
+   * (e.g. repeated auto-saves) are skipped.
+   */
+  async saveSnapshot(recipe: RecipeData): Promise<RecipeSnapshot | null> {
+    if (!recipe.id) return null;
+
+    try {
+      const history = await this.getHistory(recipe.id);
+      if (history.length > 0 && JSON.stringify(history[0].recipe) === JSON.stringify(recipe)) {
+        return null;
+      }
+
+      const timestamp = Date.now();
+      const snapshot: RecipeSnapshot = {
+        id: `${recipe.id}_${timestamp}`,
+        recipeId: recipe.id,
+        title: recipe.title,
+        timestamp,
+        recipe: JSON.parse(JSON.stringify(recipe))
+      };
+
+      await this.performDbOperation('readwrite', store => store.put(snapshot));
+      await this.prune(recipe.id, this.storageService.getHistoryLimit());
+
+      this.logger.debug('Recipe snapshot saved', { recipeId: recipe.id, snapshotId: snapshot.id });
+      return snapshot;
+    } catch (error) {
+      this.logger.error('Failed to save recipe snapshot', error);
+      return null;
+    }
+  }
+
+  /**
+   * Snapshots for a recipe, newest first
+   */
+  async getHistory(recipeId: string): Promise<RecipeSnapshot[]> {
+    try {
+      const snapshots = await this.performDbOperation<RecipeSnapshot[]>(
+        'readonly',
+        store => store.index('recipeId').getAll(recipeId)
+      );
+      return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+    } catch (error) {
+      this.logger.error('Failed to load recipe history', error);
+      return [];
+    }
+  }
+
+  getRetentionLimit(): number {
+    return this.storageService.getHistoryLimit();
+  }
+
+  /**
+   * Change how many snapshots are kept per recipe and prune every recipe's history to match
+   */
+  async setRetentionLimit(limit: number): Promise<void> {
+    this.storageService.saveHistoryLimit(limit);
+
+    try {
+      const snapshots = await this.performDbOperation<RecipeSnapshot[]>('readonly', store => store.getAll());
+      const recipeIds = new Set(snapshots.map(snapshot => snapshot.recipeId));
+      for (const recipeId of recipeIds) {
+        await this.prune(recipeId, limit);
+      }
+    } catch (error) {
+      this.logger.error('Failed to apply history retention limit', error);
+    }
+  }
+
+  async clearAll(): Promise<boolean> {
+    try {
+      await this.performDbOperation('readwrite', store => store.clear());
+      this.logger.debug('Recipe history cleared');
+      return true;
+    } catch (error) {
+      this.logger.error('Failed to clear recipe history', error);
+      return false;
+    }
+  }
+
+  private async prune(recipeId: string, limit: number): Promise<void> {
+    const history = await this.getHistory(recipeId);
+    const toDelete = history.slice(limit);
+
+    for (const snapshot of toDelete) {
+      await this.performDbOperation('readwrite', store => store.delete(snapshot.id));
+    }
+  }
+}
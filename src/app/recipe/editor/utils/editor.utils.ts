@@ -1,4 +1,6 @@
 import { RecipeData, Recipe } from '../../core/models/recipe.model';
+import { RECIPE_SCHEMA_VERSION } from '../../core/constants/recipe.constants';
+import { RecipeTemplate } from './recipe-templates';
 
 export class EditorUtils {
 
@@ -34,9 +36,10 @@ export class EditorUtils {
 
   static createEmptyRecipe(): RecipeData {
     return {
+      schemaVersion: RECIPE_SCHEMA_VERSION,
       id: this.generateRecipeId(),
       title: 'New Recipe',
-      category: 'General',
+      category: ['General'],
       DSPVersions: [],
       overview: '',
       generalUseCase: '',
@@ -53,6 +56,20 @@ export class EditorUtils {
     };
   }
 
+  static createRecipeFromTemplate(template: RecipeTemplate): RecipeData {
+    const recipe = this.createEmptyRecipe();
+
+    recipe.title = `New ${template.name} Recipe`;
+    recipe.category = [template.category];
+    recipe.walkthrough = template.steps.map(({ step, fields = [] }) => ({
+      step,
+      config: fields.map(field => ({ field, value: '' })),
+      media: []
+    }));
+
+    return recipe;
+  }
+
   static convertToSourceRecord(recipe: Recipe): RecipeData {
     const result: RecipeData = {
       id: recipe.id,
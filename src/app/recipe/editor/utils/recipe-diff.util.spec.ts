@@ -0,0 +1,117 @@
+import { WalkthroughStep } from '../../core/models/recipe.model';
+import { RecipeDiffUtil } from './recipe-diff.util';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+function step(name: string, config: [string, string][] = []): WalkthroughStep {
+  return { step: name, config: config.map(([field, value]) => ({ field, value })), media: [] };
+}
+
+describe('RecipeDiffUtil', () => {
+  describe('diffRecipes', () => {
+    it('should report no changes for an identical recipe', () => {
+      const recipe = createRecipe({ walkthrough: [step('Create'), step('Run')] });
+
+      expect(RecipeDiffUtil.diffRecipes(recipe, createRecipe({ walkthrough: [step('Create'), step('Run')] })).hasChanges)
+        .toBeFalse();
+    });
+
+    it('should report changed text fields and list items', () => {
+      const diff = RecipeDiffUtil.diffRecipes(
+        createRecipe({ keywords: ['soql', 'batch'] }),
+        createRecipe({ overview: 'New overview', keywords: ['batch', 'apex'] })
+      );
+
+      expect(diff.hasChanges).toBeTrue();
+      expect(diff.fields).toEqual([
+        { field: 'overview', label: 'Overview', before: 'Overview', after: 'New overview' }
+      ]);
+      expect(diff.lists).toEqual([
+        { field: 'keywords', label: 'Keywords', added: ['apex'], removed: ['soql'] }
+      ]);
+    });
+
+    it('should report general images by URL', () => {
+      const diff = RecipeDiffUtil.diffRecipes(
+        createRecipe({ generalImages: [
+          { type: 'image', url: 'images/a.png', alt: 'A' },
+          { type: 'image', url: 'images/b.png', alt: 'B' }
+        ] }),
+        createRecipe({ generalImages: [
+          { type: 'image', url: 'images/a.png', alt: 'A, described' },
+          { type: 'image', url: 'images/c.png', alt: 'C' }
+        ] })
+      );
+
+      expect(diff.generalImages.map(change => [change.type, change.url])).toEqual([
+        ['modified', 'images/a.png'],
+        ['added', 'images/c.png'],
+        ['removed', 'images/b.png']
+      ]);
+      expect(diff.generalImages[0].previousAlt).toBe('A');
+    });
+  });
+
+  describe('diffSteps', () => {
+    it('should report added and removed steps in walkthrough order', () => {
+      const changes = RecipeDiffUtil.diffSteps(
+        [step('Create'), step('Old step'), step('Run')],
+        [step('Create'), step('Run'), step('Verify')]
+      );
+
+      expect(changes.map(change => [change.type, change.title])).toEqual([
+        ['unchanged', 'Create'],
+        ['removed', 'Old step'],
+        ['unchanged', 'Run'],
+        ['added', 'Verify']
+      ]);
+    });
+
+    it('should treat a step renamed in place as modified', () => {
+      const changes = RecipeDiffUtil.diffSteps([step('Create'), step('Run')], [step('Create'), step('Run it')]);
+
+      expect(changes[1]).toEqual(jasmine.objectContaining({ type: 'modified', title: 'Run it', previousTitle: 'Run' }));
+    });
+
+    it('should mark only the step that left the original order as moved', () => {
+      const changes = RecipeDiffUtil.diffSteps(
+        [step('A'), step('B'), step('C'), step('D')],
+        [step('D'), step('A'), step('B'), step('C')]
+      );
+
+      expect(changes.map(change => [change.type, change.title])).toEqual([
+        ['moved', 'D'],
+        ['unchanged', 'A'],
+        ['unchanged', 'B'],
+        ['unchanged', 'C']
+      ]);
+    });
+
+    it('should mark a step with changed config as modified', () => {
+      const changes = RecipeDiffUtil.diffSteps(
+        [step('Configure', [['Object', 'Lead']])],
+        [step('Configure', [['Object', 'Contact']])]
+      );
+
+      expect(changes[0].type).toBe('modified');
+      expect(changes[0].configChanges).toEqual([
+        { type: 'modified', field: 'Object', before: 'Lead', after: 'Contact' }
+      ]);
+    });
+  });
+
+  describe('diffConfig', () => {
+    it('should pair rows by field name and place removed rows where they were', () => {
+      const changes = RecipeDiffUtil.diffConfig(
+        [{ field: 'Object', value: 'Lead' }, { field: 'Batch Size', value: '200' }, { field: 'Filter', value: '' }],
+        [{ field: 'object', value: 'Lead' }, { field: 'Filter', value: 'Active' }, { field: 'Schedule', value: 'Daily' }]
+      );
+
+      expect(changes.map(change => [change.type, change.field])).toEqual([
+        ['unchanged', 'object'],
+        ['removed', 'Batch Size'],
+        ['modified', 'Filter'],
+        ['added', 'Schedule']
+      ]);
+    });
+  });
+});
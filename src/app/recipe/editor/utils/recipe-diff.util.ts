@@ -0,0 +1,333 @@
+import {
+  RecipeData,
+  WalkthroughStep,
+  StepConfig,
+  StepMedia,
+  GeneralImage,
+  normalizeCategory
+} from '../../core/models/recipe.model';
+
+export type DiffChangeType = 'added' | 'removed' | 'modified' | 'moved' | 'unchanged';
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ListChange {
+  field: string;
+  label: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface MediaChange {
+  type: 'added' | 'removed' | 'modified';
+  mediaType: string;
+  url: string;
+  alt: string;
+  previousAlt?: string;
+  thumbnailUrl?: string;  // Filled in by RecipeDiffService
+}
+
+export interface ConfigChange {
+  type: DiffChangeType;
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface StepChange {
+  type: DiffChangeType;
+  title: string;
+  previousTitle?: string;
+  fromIndex?: number;  // Position in the original walkthrough
+  toIndex?: number;    // Position in the edited walkthrough
+  configChanges: ConfigChange[];
+  mediaChanges: MediaChange[];
+}
+
+export interface RecipeDiff {
+  fields: FieldChange[];
+  lists: ListChange[];
+  generalImages: MediaChange[];
+  steps: StepChange[];
+  hasChanges: boolean;
+}
+
+interface Match {
+  from: number;
+  to: number;
+}
+
+const TEXT_FIELDS: { field: keyof RecipeData; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'overview', label: 'Overview' },
+  { field: 'generalUseCase', label: 'General Use Case' },
+  { field: 'pipeline', label: 'Pipeline' },
+  { field: 'direction', label: 'Direction' },
+  { field: 'connection', label: 'Connection' }
+];
+
+export class RecipeDiffUtil {
+  /**
+   * Structured diff from the original recipe to the edited one. Both sides are
+   * expected in storage form (relative image paths, no runtime props).
+   */
+  static diffRecipes(original: RecipeData, edited: RecipeData): RecipeDiff {
+    const fields = TEXT_FIELDS
+      .map(({ field, label }) => ({
+        field: field as string,
+        label,
+        before: String(original[field] ?? ''),
+        after: String(edited[field] ?? '')
+      }))
+      .filter(change => change.before !== change.after);
+
+    const lists = [
+      this.diffList('category', 'Categories', normalizeCategory(original.category), normalizeCategory(edited.category)),
+      this.diffList('DSPVersions', 'DSP Versions', original.DSPVersions || [], edited.DSPVersions || []),
+      this.diffList('keywords', 'Keywords', original.keywords || [], edited.keywords || []),
+      this.diffList(
+        'prerequisites',
+        'Prerequisites',
+        (original.prerequisites || []).map(prereq => this.describePrerequisite(prereq)),
+        (edited.prerequisites || []).map(prereq => this.describePrerequisite(prereq))
+      ),
+      this.diffList(
+        'relatedRecipes',
+        'Related Recipes',
+        (original.relatedRecipes || []).map(link => this.describeLink(link.title, link.url)),
+        (edited.relatedRecipes || []).map(link => this.describeLink(link.title, link.url))
+      ),
+      this.diffList(
+        'downloadableExecutables',
+        'Downloadable Executables',
+        (original.downloadableExecutables || []).map(file => this.describeLink(file.title || '', file.filePath || file.url || '')),
+        (edited.downloadableExecutables || []).map(file => this.describeLink(file.title || '', file.filePath || file.url || ''))
+      )
+    ].filter(change => change.added.length > 0 || change.removed.length > 0);
+
+    const generalImages = this.diffMedia(original.generalImages || [], edited.generalImages || []);
+    const steps = this.diffSteps(original.walkthrough || [], edited.walkthrough || []);
+
+    return {
+      fields,
+      lists,
+      generalImages,
+      steps,
+      hasChanges: fields.length > 0 || lists.length > 0 || generalImages.length > 0 ||
+        steps.some(step => step.type !== 'unchanged')
+    };
+  }
+
+  /**
+   * Steps are paired by name (in order of occurrence). Leftover steps at the same
+   * position are treated as renamed; pairs that break the original order are moved.
+   */
+  static diffSteps(original: WalkthroughStep[], edited: WalkthroughStep[]): StepChange[] {
+    const matches = this.matchByKey(original, edited, step => step.step.trim().toLowerCase());
+    const matchedFrom = new Set(matches.map(match => match.from));
+    const matchedTo = new Set(matches.map(match => match.to));
+
+    original.forEach((_, index) => {
+      if (!matchedFrom.has(index) && index < edited.length && !matchedTo.has(index)) {
+        matches.push({ from: index, to: index });
+        matchedFrom.add(index);
+        matchedTo.add(index);
+      }
+    });
+
+    const moved = this.findMoved(matches);
+    const changes: StepChange[] = matches.map(match => {
+      const before = original[match.from];
+      const after = edited[match.to];
+      const configChanges = this.diffConfig(before.config || [], after.config || []);
+      const mediaChanges = this.diffMedia(before.media || [], after.media || []);
+      const renamed = before.step !== after.step;
+      const contentChanged = renamed ||
+        configChanges.some(change => change.type !== 'unchanged') ||
+        mediaChanges.length > 0;
+
+      return {
+        type: moved.has(match) ? 'moved' : contentChanged ? 'modified' : 'unchanged',
+        title: after.step,
+        previousTitle: renamed ? before.step : undefined,
+        fromIndex: match.from,
+        toIndex: match.to,
+        configChanges,
+        mediaChanges
+      };
+    });
+
+    edited.forEach((step, index) => {
+      if (!matchedTo.has(index)) {
+        changes.push({
+          type: 'added',
+          title: step.step,
+          toIndex: index,
+          configChanges: (step.config || []).map(row => ({ type: 'added' as const, field: row.field, after: row.value })),
+          mediaChanges: (step.media || []).map(media => this.toMediaChange('added', media))
+        });
+      }
+    });
+
+    original.forEach((step, index) => {
+      if (!matchedFrom.has(index)) {
+        changes.push({
+          type: 'removed',
+          title: step.step,
+          fromIndex: index,
+          configChanges: [],
+          mediaChanges: []
+        });
+      }
+    });
+
+    // Edited order first; removed steps sit where they used to be
+    return changes.sort((a, b) => this.stepSortKey(a) - this.stepSortKey(b));
+  }
+
+  static diffConfig(original: StepConfig[], edited: StepConfig[]): ConfigChange[] {
+    const matches = this.matchByKey(original, edited, row => (row.field || '').trim().toLowerCase());
+    const moved = this.findMoved(matches);
+    const matchedFrom = new Set(matches.map(match => match.from));
+    const matchedTo = new Set(matches.map(match => match.to));
+
+    const rows: { order: number; change: ConfigChange }[] = matches.map(match => {
+      const before = original[match.from];
+      const after = edited[match.to];
+      const valueChanged = (before.value ?? '') !== (after.value ?? '');
+
+      return {
+        order: match.to,
+        change: {
+          type: valueChanged ? 'modified' : moved.has(match) ? 'moved' : 'unchanged',
+          field: after.field,
+          before: before.value,
+          after: after.value
+        }
+      };
+    });
+
+    edited.forEach((row, index) => {
+      if (!matchedTo.has(index)) {
+        rows.push({ order: index, change: { type: 'added', field: row.field, after: row.value } });
+      }
+    });
+
+    original.forEach((row, index) => {
+      if (!matchedFrom.has(index)) {
+        rows.push({ order: index - 0.5, change: { type: 'removed', field: row.field, before: row.value } });
+      }
+    });
+
+    return rows.sort((a, b) => a.order - b.order).map(row => row.change);
+  }
+
+  static diffMedia(original: (StepMedia | GeneralImage)[], edited: (StepMedia | GeneralImage)[]): MediaChange[] {
+    const originalByUrl = new Map(original.map(media => [media.url, media]));
+    const editedByUrl = new Map(edited.map(media => [media.url, media]));
+    const changes: MediaChange[] = [];
+
+    edited.forEach(media => {
+      const before = originalByUrl.get(media.url);
+      if (!before) {
+        changes.push(this.toMediaChange('added', media));
+      } else if ((before.alt || '') !== (media.alt || '')) {
+        changes.push({ ...this.toMediaChange('modified', media), previousAlt: before.alt || '' });
+      }
+    });
+
+    original.forEach(media => {
+      if (!editedByUrl.has(media.url)) {
+        changes.push(this.toMediaChange('removed', media));
+      }
+    });
+
+    return changes;
+  }
+
+  private static diffList(field: string, label: string, original: string[], edited: string[]): ListChange {
+    const remaining = [...original];
+    const added: string[] = [];
+
+    edited.forEach(item => {
+      const index = remaining.indexOf(item);
+      if (index >= 0) {
+        remaining.splice(index, 1);
+      } else {
+        added.push(item);
+      }
+    });
+
+    return { field, label, added, removed: remaining };
+  }
+
+  /**
+   * Pair items with equal keys, taking the n-th occurrence on each side together
+   */
+  private static matchByKey<T>(original: T[], edited: T[], keyOf: (item: T) => string): Match[] {
+    const pending = new Map<string, number[]>();
+    original.forEach((item, index) => {
+      const key = keyOf(item);
+      pending.set(key, [...(pending.get(key) || []), index]);
+    });
+
+    const matches: Match[] = [];
+    edited.forEach((item, index) => {
+      const candidates = pending.get(keyOf(item));
+      if (candidates && candidates.length > 0) {
+        matches.push({ from: candidates.shift()!, to: index });
+      }
+    });
+
+    return matches;
+  }
+
+  /**
+   * Matches outside the longest run that keeps the original order
+   */
+  private static findMoved(matches: Match[]): Set<Match> {
+    const ordered = [...matches].sort((a, b) => a.to - b.to);
+    const lengths = ordered.map(() => 1);
+    const previous = ordered.map(() => -1);
+
+    ordered.forEach((match, i) => {
+      for (let j = 0; j < i; j++) {
+        if (ordered[j].from < match.from && lengths[j] + 1 > lengths[i]) {
+          lengths[i] = lengths[j] + 1;
+          previous[i] = j;
+        }
+      }
+    });
+
+    const inOrder = new Set<Match>();
+    let index = lengths.length > 0 ? lengths.indexOf(Math.max(...lengths)) : -1;
+    while (index >= 0) {
+      inOrder.add(ordered[index]);
+      index = previous[index];
+    }
+
+    return new Set(ordered.filter(match => !inOrder.has(match)));
+  }
+
+  private static stepSortKey(change: StepChange): number {
+    return change.toIndex !== undefined ? change.toIndex : (change.fromIndex ?? 0) - 0.5;
+  }
+
+  private static toMediaChange(type: MediaChange['type'], media: StepMedia | GeneralImage): MediaChange {
+    return { type, mediaType: media.type, url: media.url, alt: media.alt || '' };
+  }
+
+  private static describePrerequisite(prereq: { description: string; quickLinks: { title: string; url: string }[] }): string {
+    const links = (prereq.quickLinks || []).map(link => this.describeLink(link.title, link.url));
+    return links.length > 0 ? `${prereq.description} (${links.join(', ')})` : prereq.description;
+  }
+
+  private static describeLink(title: string, url: string): string {
+    return title && url ? `${title} → ${url}` : title || url;
+  }
+}
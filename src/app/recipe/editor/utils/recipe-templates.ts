@@ -0,0 +1,117 @@
+/**
+ * Starter templates for new recipes, one per recipe category.
+ * Each template lays out the walkthrough steps usually written for that
+ * category, with the config fields most recipes fill in left empty.
+ */
+
+export interface RecipeTemplateStep {
+  step: string;
+  fields?: string[];
+}
+
+export interface RecipeTemplate {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  steps: RecipeTemplateStep[];
+}
+
+const CREATE_EXECUTABLE: RecipeTemplateStep = {
+  step: 'Create Executable',
+  fields: ['Executable Name', 'Source Object API Name', 'Target Object API Name']
+};
+
+export const RECIPE_TEMPLATES: RecipeTemplate[] = [
+  {
+    id: 'trigger',
+    name: 'Trigger',
+    description: 'Create Executable → Trigger Settings → Preview → Scoping → Mapping',
+    category: 'Trigger',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Trigger Settings', fields: ['After Insert Trigger?', 'After Update Trigger?'] },
+      { step: 'Preview' },
+      { step: 'Scoping', fields: ['Scope Filter'] },
+      { step: 'Mapping' }
+    ]
+  },
+  {
+    id: 'batch',
+    name: 'Batch',
+    description: 'Create Executable → Batch Settings → Retrieve → Scoping → Match → Mapping → Action → Verify',
+    category: 'Batch',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Batch Settings' },
+      { step: 'Retrieve' },
+      { step: 'Scoping', fields: ['Scope Filter'] },
+      { step: 'Match', fields: ['Target Matching Field'] },
+      { step: 'Mapping' },
+      { step: 'Action', fields: ['Action'] },
+      { step: 'Verify' }
+    ]
+  },
+  {
+    id: 'data-list',
+    name: 'Data List',
+    description: 'Create Executable → Retrieve → Data List Settings → Preview',
+    category: 'Data List',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Retrieve' },
+      { step: 'Data List Settings' },
+      { step: 'Preview' }
+    ]
+  },
+  {
+    id: 'action-button',
+    name: 'Action Button',
+    description: 'Create Executable → Action Button Settings → Scoping → Mapping → Action',
+    category: 'Action Button',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Action Button Settings' },
+      { step: 'Scoping', fields: ['Scope Filter'] },
+      { step: 'Mapping' },
+      { step: 'Action', fields: ['Action'] }
+    ]
+  },
+  {
+    id: 'data-loader',
+    name: 'Data Loader',
+    description: 'Create Executable → Data Loader Settings → Input → Mapping → Action → Verify',
+    category: 'Data Loader',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Data Loader Settings' },
+      { step: 'Input' },
+      { step: 'Mapping' },
+      { step: 'Action', fields: ['Action'] },
+      { step: 'Verify' }
+    ]
+  },
+  {
+    id: 'transformation',
+    name: 'Transformation',
+    description: 'Create Executable → Retrieve → Preview Transformed → Mapping',
+    category: 'Transformation',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Retrieve' },
+      { step: 'Preview Transformed' },
+      { step: 'Mapping' }
+    ]
+  },
+  {
+    id: 'query',
+    name: 'Query',
+    description: 'Create Executable → Retrieve → Preview',
+    category: 'Query',
+    steps: [
+      CREATE_EXECUTABLE,
+      { step: 'Retrieve' },
+      { step: 'Preview' }
+    ]
+  }
+];
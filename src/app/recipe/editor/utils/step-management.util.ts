@@ -1,3 +1,4 @@
+import { moveItemInArray } from '@angular/cdk/drag-drop';
 import { WalkthroughStep } from '../../core/models/recipe.model';
 
 export class StepManagementUtil {
@@ -38,6 +39,37 @@ export class StepManagementUtil {
     return true;
   }
 
+  /**
+   * Move a step to a new position (e.g. after a drag and drop), carrying its
+   * custom name along and shifting the names of the steps in between
+   */
+  static moveStep(
+    steps: WalkthroughStep[],
+    fromIndex: number,
+    toIndex: number,
+    customStepNames?: { [index: number]: string }
+  ): boolean {
+    if (!steps || fromIndex === toIndex ||
+        fromIndex < 0 || toIndex < 0 || fromIndex >= steps.length || toIndex >= steps.length) {
+      return false;
+    }
+
+    const names = steps.map((_, index) => customStepNames?.[index]);
+    moveItemInArray(steps, fromIndex, toIndex);
+    moveItemInArray(names, fromIndex, toIndex);
+
+    if (customStepNames) {
+      Object.keys(customStepNames).forEach(key => delete customStepNames[Number(key)]);
+      names.forEach((name, index) => {
+        if (name !== undefined) {
+          customStepNames[index] = name;
+        }
+      });
+    }
+
+    return true;
+  }
+
   static swapCustomStepNames(
     customStepNames: { [index: number]: string },
     index1: number,
@@ -9,16 +9,20 @@ import {
   HostListener
 } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
-import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
 import { HttpClient } from '@angular/common/http';
 import { Subject, combineLatest, fromEvent, firstValueFrom } from 'rxjs';
 import { takeUntil, throttleTime } from 'rxjs/operators';
 import JSZip from 'jszip';
 
-import { Recipe, Category } from '../../core/models/recipe.model';
+import { Recipe, Category, MediaAnnotation } from '../../core/models/recipe.model';
 import { CacheService } from '../../core/services/cache.service';
 import { SearchService } from '../../core/services/search.service';
 import { BreadcrumbItem } from '../detail-banner/detail-banner.component';
+import { getGeneralUseCaseItems, getYouTubeVideos } from '../recipe-content/recipe-content.utils';
+import { GlobalSearchService } from '../../../search-overlay/global-search.service';
+import { StructuredDataService } from '../../../shared/services/structured-data.service';
+
+const RECIPE_STRUCTURED_DATA_KEY = 'recipe';
 
 interface CategoryGroup {
   category: Category;
@@ -29,6 +33,7 @@ interface CategoryGroup {
 interface TocItem {
   id: string;
   label: string;
+  stepIndex?: number;  // Walkthrough step entries only
   children?: TocItem[];
 }
 
@@ -55,15 +60,12 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
   private isScrollingToSection: boolean = false;
   tocItems: TocItem[] = [];
 
+  // Walkthrough progress (zero-based step indexes)
+  completedSteps = new Set<number>();
+
   // Media preview modal
   isMediaModalOpen: boolean = false;
-  previewMedia: { type: string; url: string; alt: string } | null = null;
-
-  // Search overlay
-  isSearchOverlayOpen: boolean = false;
-
-  // YouTube URL cache to prevent flickering on scroll
-  private youtubeUrlCache = new Map<string, SafeResourceUrl>();
+  previewMedia: { type: string; url: string; alt: string; annotations?: MediaAnnotation[] } | null = null;
 
   // Cached YouTube videos from generalImages to prevent re-rendering on scroll
   private cachedYouTubeVideos: { url: string; alt: string }[] = [];
@@ -77,7 +79,8 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
     private cacheService: CacheService,
     private searchService: SearchService,
     private cdr: ChangeDetectorRef,
-    private sanitizer: DomSanitizer
+    private globalSearch: GlobalSearchService,
+    private structuredData: StructuredDataService
   ) {}
 
   ngOnInit(): void {
@@ -104,6 +107,9 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
         );
 
         if (recipe) {
+          if (this.currentRecipe?.id !== recipe.id) {
+            this.loadProgress(recipe);
+          }
           this.currentRecipe = recipe;
 
           // Build breadcrumb path (use first category or matched category)
@@ -122,10 +128,20 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
           // Build TOC items dynamically
           this.buildTocItems();
 
+          this.updateStructuredData(recipe, breadcrumbCategory);
+
           this.cdr.markForCheck();
 
           // Setup scroll listener for TOC after a short delay to ensure DOM is ready
-          setTimeout(() => this.setupScrollListener(), 100);
+          setTimeout(() => {
+            this.setupScrollListener();
+
+            // Resume at a step linked from "continue where you left off"
+            const fragment = this.route.snapshot.fragment;
+            if (fragment) {
+              this.scrollToSectionId(fragment);
+            }
+          }, 100);
         } else {
           // Recipe not found, redirect to recipes list
           this.router.navigate(['/recipes']);
@@ -134,6 +150,89 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
     });
   }
 
+  private async loadProgress(recipe: Recipe): Promise<void> {
+    this.completedSteps = new Set();
+    const progress = await this.cacheService.getProgress(recipe.id);
+
+    // Ignore a late response after navigating to another recipe
+    if (!progress || this.currentRecipe?.id !== recipe.id) return;
+
+    this.completedSteps = new Set(
+      progress.completedSteps.filter(index => index < recipe.walkthrough.length)
+    );
+    this.cdr.markForCheck();
+  }
+
+  isStepCompleted(index: number): boolean {
+    return this.completedSteps.has(index);
+  }
+
+  toggleStepCompleted(index: number): void {
+    if (!this.currentRecipe) return;
+
+    const completedSteps = new Set(this.completedSteps);
+    completedSteps.has(index) ? completedSteps.delete(index) : completedSteps.add(index);
+    this.completedSteps = completedSteps;
+    this.cdr.markForCheck();
+
+    this.cacheService.saveProgress(this.currentRecipe.id, {
+      completedSteps: [...completedSteps],
+      totalSteps: this.currentRecipe.walkthrough.length
+    });
+  }
+
+  resetProgress(): void {
+    if (!this.currentRecipe) return;
+
+    this.completedSteps = new Set();
+    this.cdr.markForCheck();
+    this.cacheService.saveProgress(this.currentRecipe.id, {
+      completedSteps: [],
+      totalSteps: this.currentRecipe.walkthrough.length
+    });
+  }
+
+  get progressPercent(): number {
+    const totalSteps = this.currentRecipe?.walkthrough.length || 0;
+    return totalSteps > 0 ? Math.round((this.completedSteps.size / totalSteps) * 100) : 0;
+  }
+
+  /**
+   * Publish HowTo JSON-LD built from the recipe's walkthrough steps
+   */
+  private updateStructuredData(recipe: Recipe, category: string): void {
+    const steps = recipe.walkthrough.filter(step => step.step?.trim());
+    if (steps.length === 0) {
+      this.structuredData.remove(RECIPE_STRUCTURED_DATA_KEY);
+      return;
+    }
+
+    const cover = recipe.generalImages.find(image => image.type !== 'video');
+
+    this.structuredData.set(RECIPE_STRUCTURED_DATA_KEY, {
+      '@context': 'https://schema.org',
+      '@type': 'HowTo',
+      name: recipe.title,
+      description: recipe.overview,
+      url: this.structuredData.toAbsoluteUrl(`recipes/${encodeURIComponent(category)}/${recipe.slug}`),
+      ...(cover ? { image: this.structuredData.toAbsoluteUrl(cover.displayUrl || cover.url) } : {}),
+      step: steps.map((step, index) => {
+        const image = step.media.find(media => media.type !== 'video');
+        const config = step.config
+          .filter(item => item.field)
+          .map(item => `${item.field}: ${item.value}`);
+
+        return {
+          '@type': 'HowToStep',
+          position: index + 1,
+          name: step.step,
+          text: [step.step, ...config].join('\n'),
+          ...(image ? { image: this.structuredData.toAbsoluteUrl(image.displayUrl || image.url) } : {})
+        };
+      })
+    });
+  }
+
   private buildCategoryGroups(): void {
     this.categoryGroups = this.allCategories.map(category => ({
       category,
@@ -180,33 +279,16 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
     this.cdr.markForCheck();
   }
 
-  @HostListener('document:keydown./', ['$event'])
-  onSlashKey(event: Event) {
-    event.preventDefault();
-    this.openSearchOverlay();
-  }
-
   openSearchOverlay(): void {
-    this.isSearchOverlayOpen = true;
-    this.cdr.markForCheck();
-  }
-
-  closeSearchOverlay(): void {
-    this.isSearchOverlayOpen = false;
-    this.cdr.markForCheck();
-  }
-
-  handleSearchSelect(selectedItem: any): void {
-    this.closeSearchOverlay();
-    // Navigate using the route provided by the search overlay
-    if (selectedItem.slug && selectedItem.category) {
-      this.router.navigate(['/recipes', selectedItem.category, selectedItem.slug]);
-    }
+    this.globalSearch.open();
   }
 
   scrollToSection(event: Event, sectionId: string): void {
     event.preventDefault();
+    this.scrollToSectionId(sectionId);
+  }
 
+  private scrollToSectionId(sectionId: string): void {
     // Set the active section immediately
     this.activeTocSection = sectionId;
     this.cdr.markForCheck();
@@ -282,14 +364,7 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
   }
 
   getGeneralUseCaseItems(): string[] {
-    if (!this.currentRecipe?.generalUseCase) {
-      return [];
-    }
-    // Split by \n and filter out empty strings
-    return this.currentRecipe.generalUseCase
-      .split('\n')
-      .map(item => item.trim())
-      .filter(item => item.length > 0);
+    return getGeneralUseCaseItems(this.currentRecipe);
   }
 
   // shouldShowRulesEngine(): boolean {
@@ -345,7 +420,8 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
         const stepLabel = step.step.includes(' - ') ? step.step.split(' - ')[0] : step.step;
         return {
           id: `walkthrough-step-${index + 1}`,
-          label: `${index + 1}. ${stepLabel}`
+          label: `${index + 1}. ${stepLabel}`,
+          stepIndex: index
         };
       });
       items.push({ id: 'walkthrough', label: 'Walkthrough', children: walkthroughChildren });
@@ -437,7 +513,8 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
     this.previewMedia = {
       type: media.type,
       url: media.displayUrl || media.url,
-      alt: media.alt || ''
+      alt: media.alt || '',
+      annotations: media.annotations
     };
     this.isMediaModalOpen = true;
     this.cdr.markForCheck();
@@ -456,60 +533,13 @@ export class RecipeDetailPageComponent implements OnInit, OnDestroy {
     }
   }
 
-  isYouTubeUrl(url: string): boolean {
-    return url?.includes('youtu.be') || url?.includes('youtube.com');
-  }
-
-  hasNonYouTubeGeneralImages(): boolean {
-    if (!this.currentRecipe?.generalImages?.length) return false;
-    return this.currentRecipe.generalImages.some(
-      media => !(media.type === 'video' && this.isYouTubeUrl(media.url))
-    );
-  }
-
-  getYouTubeVideosFromGeneralImages(): { url: string; alt: string }[] {
-    // Return cached result to prevent iframe re-rendering on scroll
-    return this.cachedYouTubeVideos;
-  }
-
   private buildYouTubeVideosCache(): void {
-    if (!this.currentRecipe?.generalImages?.length) {
-      this.cachedYouTubeVideos = [];
-      return;
-    }
-    this.cachedYouTubeVideos = this.currentRecipe.generalImages
-      .filter(media => media.type === 'video' && this.isYouTubeUrl(media.url))
-      .map(media => ({ url: media.url, alt: media.alt }));
-  }
-
-  getYouTubeEmbedUrl(url: string): SafeResourceUrl {
-    // Return cached URL to prevent iframe flickering on scroll
-    if (this.youtubeUrlCache.has(url)) {
-      return this.youtubeUrlCache.get(url)!;
-    }
-
-    let videoId = '';
-
-    if (url.includes('youtu.be/')) {
-      // Format: https://youtu.be/VIDEO_ID
-      videoId = url.split('youtu.be/')[1]?.split('?')[0] || '';
-    } else if (url.includes('youtube.com/watch')) {
-      // Format: https://www.youtube.com/watch?v=VIDEO_ID
-      const urlParams = new URL(url).searchParams;
-      videoId = urlParams.get('v') || '';
-    } else if (url.includes('youtube.com/embed/')) {
-      // Already embed format
-      videoId = url.split('youtube.com/embed/')[1]?.split('?')[0] || '';
-    }
-
-    const embedUrl = `https://www.youtube.com/embed/${videoId}?rel=0`;
-    const safeUrl = this.sanitizer.bypassSecurityTrustResourceUrl(embedUrl);
-    this.youtubeUrlCache.set(url, safeUrl);
-    return safeUrl;
+    this.cachedYouTubeVideos = getYouTubeVideos(this.currentRecipe);
   }
 
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
+    this.structuredData.remove(RECIPE_STRUCTURED_DATA_KEY);
   }
 }
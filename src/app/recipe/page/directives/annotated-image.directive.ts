@@ -0,0 +1,78 @@
+import { Directive, ElementRef, HostListener, Input, OnChanges, OnDestroy, SimpleChanges } from '@angular/core';
+import { MediaAnnotation } from '../../core/models/recipe.model';
+import { canvasToBlob, renderAnnotatedImage } from '../../core/annotations';
+import { LoggerService } from '../../core/services/logger.service';
+
+/**
+ * Draws a step image's vector annotations into the image itself once it has loaded,
+ * so zooming, downloading and the media preview all show the annotated version.
+ */
+@Directive({
+  selector: 'img[appAnnotatedImage]'
+})
+export class AnnotatedImageDirective implements OnChanges, OnDestroy {
+  @Input() appAnnotatedImage: MediaAnnotation[] | null | undefined;
+
+  private sourceUrl: string | null = null;
+  private composedUrl: string | null = null;
+
+  constructor(
+    private el: ElementRef<HTMLImageElement>,
+    private logger: LoggerService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const change = changes['appAnnotatedImage'];
+    if (!change || change.firstChange) return;
+
+    // A copy of the same annotations (e.g. a rebuilt live preview) needs no re-encoding
+    if (JSON.stringify(change.previousValue || []) === JSON.stringify(change.currentValue || [])) return;
+
+    const image = this.el.nativeElement;
+    if (this.composedUrl && this.sourceUrl) {
+      // Reload the original so the new annotations are drawn over clean pixels
+      image.src = this.sourceUrl;
+    } else if (image.complete && image.naturalWidth > 0) {
+      this.onLoad();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.releaseComposedUrl();
+  }
+
+  @HostListener('load')
+  onLoad(): void {
+    const image = this.el.nativeElement;
+    if (this.composedUrl && image.src === this.composedUrl) return;
+
+    this.sourceUrl = image.src;
+    this.releaseComposedUrl();
+
+    if (this.appAnnotatedImage?.length) {
+      this.compose(image, this.sourceUrl, this.appAnnotatedImage);
+    }
+  }
+
+  private async compose(image: HTMLImageElement, sourceUrl: string, annotations: MediaAnnotation[]): Promise<void> {
+    try {
+      const canvas = renderAnnotatedImage(image, image.naturalWidth, image.naturalHeight, annotations);
+      const blob = await canvasToBlob(canvas);
+
+      // The image moved on while encoding
+      if (image.src !== sourceUrl) return;
+
+      this.composedUrl = URL.createObjectURL(blob);
+      image.src = this.composedUrl;
+    } catch (error) {
+      this.logger.warn('Could not draw image annotations', error);
+    }
+  }
+
+  private releaseComposedUrl(): void {
+    if (this.composedUrl) {
+      URL.revokeObjectURL(this.composedUrl);
+      this.composedUrl = null;
+    }
+  }
+}
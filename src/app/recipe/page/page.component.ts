@@ -9,9 +9,9 @@ import {
   HostListener,
   ViewChild
 } from '@angular/core';
-import { Subject, combineLatest } from 'rxjs';
-import { takeUntil, distinctUntilChanged } from 'rxjs/operators';
-import { ActivatedRoute } from '@angular/router';
+import { Subject, combineLatest, from } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { ActivatedRoute, Router } from '@angular/router';
 
 import {
   Recipe,
@@ -20,7 +20,8 @@ import {
   NavigationState,
   Section,
   Tab,
-  SearchState
+  SearchState,
+  RecipeProgress
 } from '../core/models/recipe.model';
 import { CacheService } from '../core/services/cache.service';
 import { SearchService as CoreSearchService } from '../core/services/search.service';
@@ -34,8 +35,14 @@ import { PreviewSyncService } from './services/preview-sync.service';
 import { RouteHandlerService } from './services/route-handler.service';
 import { SearchStateService } from './services/search.service';
 import { RECIPE_CLASSES, RECIPE_MESSAGES} from '../core/constants/recipe.constants';
-import { SelectedSuggestion } from './search-overlay/search-overlay.component';
+import { GraphService } from '../core/services/graph.service';
+import { RecipeGraph } from '../core/graph';
+import { GlobalSearchService } from '../../search-overlay/global-search.service';
 import { RecipeLayoutComponent } from './recipe-layout/recipe-layout.component';
+import { ProgressListItem } from './progress-list/progress-list.component';
+
+// Started recipes shown in "continue where you left off"
+const MAX_PROGRESS_ITEMS = 4;
 
 @Component({
   selector: 'app-recipes',
@@ -56,12 +63,9 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
     query: '',
     isActive: false,
     results: [],
-    hasResults: true,
-    isOverlayOpen: false
+    hasResults: true
   };
 
-  searchOverlayInitialQuery = '';
-
   navigation: NavigationState = {
     category: '',
     recipeName: ''
@@ -74,6 +78,10 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
   totalRecipeCount: number = 0;
 
   recipeTabs: Tab[] = [];
+  progressItems: ProgressListItem[] = [];
+
+  viewMode: 'list' | 'graph' = 'list';
+  recipeGraph: RecipeGraph | null = null;
 
   currentFilter: Filter = {
     categories: []
@@ -81,6 +89,7 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
 
   constructor(
     private route: ActivatedRoute,
+    private router: Router,
     private cacheService: CacheService,
     private coreSearchService: CoreSearchService,
     private cdr: ChangeDetectorRef,
@@ -90,6 +99,8 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
     private previewSyncService: PreviewSyncService,
     private routeHandlerService: RouteHandlerService,
     private searchService: SearchStateService,
+    private globalSearch: GlobalSearchService,
+    private graphService: GraphService,
     private logger: LoggerService
   ) {}
 
@@ -161,54 +172,19 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
         this.cdr.markForCheck();
       });
 
-    this.searchService.getSearchOverlayInitialQuery()
-      .pipe(
-        distinctUntilChanged(),
-        takeUntil(this.destroy$)
-      )
-      .subscribe(query => {
-        this.searchOverlayInitialQuery = query;
-        this.cdr.markForCheck();
-      });
-
     this.previewSyncService.getUpdateEvents()
       .pipe(takeUntil(this.destroy$))
       .subscribe(event => {
         if (event.type === 'content-updated') {
           this.handlePreviewUpdate(event.recipe);
+        } else if (event.type === 'step-focused') {
+          this.recipeNavigationService.navigateToWalkthroughSection(event.stepIndex);
         }
       });
 
     document.body.classList.add(RECIPE_CLASSES.BODY_PAGE);
   }
 
-  @HostListener('document:keydown./', ['$event'])
-  onSlashKey(event: Event) {
-    if (!this.search.isOverlayOpen && !this.searchService.isInputFocused()) {
-      event.preventDefault();
-      // Focus the filter input instead of opening overlay
-      if (this.recipeLayout) {
-        this.recipeLayout.focusFilterInput();
-      }
-    }
-  }
-
-  @HostListener('document:keydown.control.k', ['$event'])
-  @HostListener('document:keydown.meta.k', ['$event'])
-  onCtrlK(event: Event) {
-    event.preventDefault();
-    if (!this.search.isOverlayOpen) {
-      this.openSearchOverlay();
-    }
-  }
-
-  @HostListener('document:keydown.escape')
-  onEscape() {
-    if (this.search.isOverlayOpen) {
-      this.closeSearchOverlay();
-    }
-  }
-
   @HostListener('window:hashchange',)
   onHashChange(): void {
     this.recipeNavigationService.handleInitialHash();
@@ -249,6 +225,31 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
       }
     });
 
+    combineLatest([
+      this.cacheService.getRecipes$(),
+      from(this.cacheService.getAllProgress())
+    ]).pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(([recipes, progress]) => {
+      this.progressItems = this.buildProgressItems(recipes, progress);
+      this.cdr.markForCheck();
+    });
+  }
+
+  /**
+   * Recipes that are started but not finished, most recently touched first
+   */
+  private buildProgressItems(recipes: Recipe[], allProgress: RecipeProgress[]): ProgressListItem[] {
+    return allProgress
+      .map(progress => {
+        const recipe = recipes.find(r => r.id === progress.recipeId);
+        if (!recipe) return null;
+
+        const nextStepIndex = recipe.walkthrough.findIndex((_, index) => !progress.completedSteps.includes(index));
+        return nextStepIndex === -1 ? null : { recipe, progress, nextStepIndex };
+      })
+      .filter((item): item is ProgressListItem => item !== null)
+      .slice(0, MAX_PROGRESS_ITEMS);
   }
 
   private handlePreviewUpdate(recipe: Recipe): void {
@@ -278,6 +279,33 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
     this.routeHandlerService.goToRecipe(recipe, currentId, currentCategory);
   }
 
+  setViewMode(viewMode: 'list' | 'graph'): void {
+    this.viewMode = viewMode;
+
+    // Subscribe on first use so the list view never builds the graph
+    if (viewMode === 'graph' && !this.recipeGraph) {
+      this.graphService.getGraph$()
+        .pipe(takeUntil(this.destroy$))
+        .subscribe(graph => {
+          this.recipeGraph = graph;
+          this.cdr.markForCheck();
+        });
+    }
+  }
+
+  goToRecipeById(recipeId: string): void {
+    const recipe = this.recipes.find(r => r.id === recipeId) || this.cacheService.findRecipeById(recipeId);
+    if (recipe) {
+      this.goToRecipe(recipe);
+    }
+  }
+
+  resumeRecipe(item: ProgressListItem): void {
+    this.router.navigate(['/recipes', item.recipe.category[0] || '', item.recipe.slug], {
+      fragment: `walkthrough-step-${item.nextStepIndex + 1}`
+    });
+  }
+
   searchRecipes(query: string): void {
     this.searchService.searchRecipes(query, this.currentFilter, this.recipes);
   }
@@ -287,15 +315,7 @@ export class RecipesComponent implements OnInit, OnDestroy, AfterViewInit {
   }
 
   openSearchOverlay(initialQuery = ''): void {
-    this.searchService.openSearchOverlay(initialQuery);
-  }
-
-  closeSearchOverlay(): void {
-    this.searchService.closeSearchOverlay();
-  }
-
-  handleSearchOverlaySelect(selectedRecipe: SelectedSuggestion): void {
-    this.searchService.handleSearchOverlaySelect(selectedRecipe);
+    this.globalSearch.open(initialQuery);
   }
 
   toggleSidebar(): void {
@@ -26,7 +26,6 @@ import { RecipePageRoutingModule } from './page-routing.module';
 // Components
 import { RecipesComponent } from './page.component';
 import { RecipeCardComponent } from './card/card.component';
-import { RecipeSearchOverlayComponent } from './search-overlay/search-overlay.component';
 import { RecipeSidebarComponent } from './sidebar/sidebar.component';
 import { RecipeSectionComponent } from './section/section.component';
 import { RecipeDetailPageComponent } from './detail-page/detail-page.component';
@@ -39,12 +38,14 @@ import { BreadcrumbComponent } from './breadcrumb/breadcrumb.component';
 import { RecipeLayoutComponent } from './recipe-layout/recipe-layout.component';
 import { CategoryListComponent } from './category-list/category-list.component';
 import { RecipeListComponent } from './recipe-list/recipe-list.component';
+import { ProgressListComponent } from './progress-list/progress-list.component';
+import { RecipeGraphComponent } from './recipe-graph/recipe-graph.component';
+import { RecipeContentModule } from './recipe-content/recipe-content.module';
 
 @NgModule({
   declarations: [
     RecipesComponent,
     RecipeCardComponent,
-    RecipeSearchOverlayComponent,
     RecipeSidebarComponent,
     RecipeSectionComponent,
     RecipeDetailPageComponent,
@@ -53,7 +54,9 @@ import { RecipeListComponent } from './recipe-list/recipe-list.component';
     BreadcrumbComponent,
     RecipeLayoutComponent,
     CategoryListComponent,
-    RecipeListComponent
+    RecipeListComponent,
+    ProgressListComponent,
+    RecipeGraphComponent
   ],
   imports: [
     CommonModule,
@@ -82,7 +85,8 @@ import { RecipeListComponent } from './recipe-list/recipe-list.component';
     RecipePageRoutingModule,
     
     // Shared
-    SharedModule
+    SharedModule,
+    RecipeContentModule
   ],
   exports: [
     RecipesComponent,
@@ -0,0 +1,65 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ProgressListComponent, ProgressListItem } from './progress-list.component';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+describe('ProgressListComponent', () => {
+  let component: ProgressListComponent;
+  let fixture: ComponentFixture<ProgressListComponent>;
+
+  const recipe = createRecipe({
+    walkthrough: [
+      { step: 'Create the pipeline', config: [], media: [] },
+      { step: 'Configure it', config: [], media: [] },
+      { step: 'Run it', config: [], media: [] }
+    ]
+  });
+
+  const item: ProgressListItem = {
+    recipe,
+    progress: { recipeId: recipe.id, completedSteps: [0], totalSteps: 3, timestamp: 0 },
+    nextStepIndex: 1
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [ ProgressListComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ProgressListComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should render nothing without started recipes', () => {
+    expect(fixture.nativeElement.querySelector('.progress-list')).toBeNull();
+  });
+
+  it('should show the progress and the step to resume at', () => {
+    fixture.componentRef.setInput('items', [item]);
+    fixture.detectChanges();
+
+    const meta = fixture.nativeElement.querySelector('.item-meta') as HTMLElement;
+    const fill = fixture.nativeElement.querySelector('.progress-fill') as HTMLElement;
+
+    expect(meta.textContent).toContain('1 of 3 steps done');
+    expect(meta.textContent).toContain('next: step 2');
+    expect(fill.style.width).toBe('33%');
+  });
+
+  it('should emit the item that was clicked', () => {
+    const resumed: ProgressListItem[] = [];
+    component.resume.subscribe(resumedItem => resumed.push(resumedItem));
+    fixture.componentRef.setInput('items', [item]);
+    fixture.detectChanges();
+
+    (fixture.nativeElement.querySelector('.list-item') as HTMLElement).click();
+
+    expect(resumed).toEqual([item]);
+  });
+});
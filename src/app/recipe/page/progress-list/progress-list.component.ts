@@ -0,0 +1,35 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { Recipe, RecipeProgress } from '../../core/models/recipe.model';
+
+/**
+ * A started recipe with the walkthrough step to resume at
+ */
+export interface ProgressListItem {
+  recipe: Recipe;
+  progress: RecipeProgress;
+  nextStepIndex: number;
+}
+
+@Component({
+  selector: 'app-progress-list',
+  templateUrl: './progress-list.component.html',
+  styleUrls: ['./progress-list.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProgressListComponent {
+  @Input() items: ProgressListItem[] = [];
+  @Output() resume = new EventEmitter<ProgressListItem>();
+
+  onResume(item: ProgressListItem): void {
+    this.resume.emit(item);
+  }
+
+  getPercent(item: ProgressListItem): number {
+    const totalSteps = item.recipe.walkthrough.length;
+    return totalSteps > 0 ? Math.round((item.progress.completedSteps.length / totalSteps) * 100) : 0;
+  }
+
+  trackByRecipeId(_: number, item: ProgressListItem): string {
+    return item.recipe.id;
+  }
+}
@@ -0,0 +1,52 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { RecipeContentComponent, RecipeContentSection } from './recipe-content.component';
+import { RecipeContentModule } from './recipe-content.module';
+import { createRecipe } from '../../testing/recipe.fixtures';
+
+describe('RecipeContentComponent', () => {
+  let component: RecipeContentComponent;
+  let fixture: ComponentFixture<RecipeContentComponent>;
+
+  const recipe = createRecipe({
+    walkthrough: [
+      { step: 'Create the pipeline', config: [], media: [] },
+      { step: 'Run it', config: [], media: [] }
+    ]
+  });
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ RecipeContentModule ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(RecipeContentComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('recipe', recipe);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit the walkthrough step that was clicked', () => {
+    const selected: RecipeContentSection[] = [];
+    component.sectionSelect.subscribe(section => selected.push(section));
+
+    const title = fixture.nativeElement.querySelector('#walkthrough-step-2 .step-title') as HTMLElement;
+    title.click();
+
+    expect(selected).toEqual([{ sectionId: 'walkthrough', stepIndex: 1 }]);
+  });
+
+  it('should keep step elements when given a copy of the recipe', () => {
+    const stepBefore = fixture.nativeElement.querySelector('#walkthrough-step-1');
+
+    fixture.componentRef.setInput('recipe', JSON.parse(JSON.stringify(recipe)));
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('#walkthrough-step-1')).toBe(stepBefore);
+  });
+});
@@ -0,0 +1,103 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { Recipe, StepMedia } from '../../core/models/recipe.model';
+import { TrackByUtil } from '../../../shared/utils/trackby.util';
+import { getGeneralUseCaseItems, getYouTubeVideos, isYouTubeUrl } from './recipe-content.utils';
+
+/**
+ * A section of the rendered recipe, by its element ID
+ */
+export interface RecipeContentSection {
+  sectionId: string;
+  stepIndex?: number;  // Zero-based, walkthrough steps only
+}
+
+const STEP_ID_PATTERN = /^walkthrough-step-(\d+)$/;
+
+/**
+ * Recipe Content Component
+ * Renders the body of a recipe (overview, downloads, videos, use cases and walkthrough).
+ * Shared by the detail page and the editor's live preview.
+ */
+@Component({
+  selector: 'app-recipe-content',
+  templateUrl: './recipe-content.component.html',
+  styleUrls: ['./recipe-content.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RecipeContentComponent {
+  @Input() set recipe(recipe: Recipe) {
+    this._recipe = recipe;
+    this.youTubeVideos = getYouTubeVideos(recipe);
+    this.useCaseItems = getGeneralUseCaseItems(recipe);
+  }
+  get recipe(): Recipe {
+    return this._recipe;
+  }
+
+  @Input() completedSteps: Set<number> = new Set();
+  @Input() showProgress = true;
+  @Input() compact = false;  // Mobile layout regardless of the viewport width
+
+  @Output() stepToggle = new EventEmitter<number>();
+  @Output() mediaOpen = new EventEmitter<StepMedia>();
+  @Output() downloadAll = new EventEmitter<void>();
+  @Output() sectionSelect = new EventEmitter<RecipeContentSection>();
+
+  youTubeVideos: { url: string; alt: string }[] = [];
+  useCaseItems: string[] = [];
+
+  // The editor's live preview passes a fresh copy of the recipe after every edit;
+  // tracking by position keeps steps, images and video iframes in place
+  trackByIndex = TrackByUtil.index;
+
+  private _recipe!: Recipe;
+
+  // Cached so iframes are not reloaded on every change detection
+  private youtubeUrlCache = new Map<string, SafeResourceUrl>();
+
+  constructor(private sanitizer: DomSanitizer) {}
+
+  isStepCompleted(index: number): boolean {
+    return this.completedSteps.has(index);
+  }
+
+  isYouTubeUrl(url: string): boolean {
+    return isYouTubeUrl(url);
+  }
+
+  onContentClick(event: Event): void {
+    const section = (event.target as HTMLElement).closest<HTMLElement>('.walkthrough-step, .content-section');
+    if (!section?.id) return;
+
+    const stepMatch = section.id.match(STEP_ID_PATTERN);
+    this.sectionSelect.emit(stepMatch
+      ? { sectionId: 'walkthrough', stepIndex: Number(stepMatch[1]) - 1 }
+      : { sectionId: section.id });
+  }
+
+  getYouTubeEmbedUrl(url: string): SafeResourceUrl {
+    if (this.youtubeUrlCache.has(url)) {
+      return this.youtubeUrlCache.get(url)!;
+    }
+
+    let videoId = '';
+
+    if (url.includes('youtu.be/')) {
+      // Format: https://youtu.be/VIDEO_ID
+      videoId = url.split('youtu.be/')[1]?.split('?')[0] || '';
+    } else if (url.includes('youtube.com/watch')) {
+      // Format: https://www.youtube.com/watch?v=VIDEO_ID
+      const urlParams = new URL(url).searchParams;
+      videoId = urlParams.get('v') || '';
+    } else if (url.includes('youtube.com/embed/')) {
+      // Already embed format
+      videoId = url.split('youtube.com/embed/')[1]?.split('?')[0] || '';
+    }
+
+    const embedUrl = `https://www.youtube.com/embed/${videoId}?rel=0`;
+    const safeUrl = this.sanitizer.bypassSecurityTrustResourceUrl(embedUrl);
+    this.youtubeUrlCache.set(url, safeUrl);
+    return safeUrl;
+  }
+}
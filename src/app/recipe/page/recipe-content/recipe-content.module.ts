@@ -0,0 +1,25 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SharedModule } from '../../../shared/shared.module';
+import { RecipeContentComponent } from './recipe-content.component';
+import { AnnotatedImageDirective } from '../directives/annotated-image.directive';
+
+/**
+ * Recipe body rendering shared by the recipe pages and the editor's live preview
+ */
+@NgModule({
+  declarations: [
+    RecipeContentComponent,
+    AnnotatedImageDirective
+  ],
+  imports: [
+    CommonModule,
+    SharedModule
+  ],
+  exports: [
+    RecipeContentComponent,
+    AnnotatedImageDirective
+  ]
+})
+export class RecipeContentModule { }
@@ -0,0 +1,28 @@
+import { Recipe } from '../../core/models/recipe.model';
+
+export function isYouTubeUrl(url: string): boolean {
+  return url?.includes('youtu.be') || url?.includes('youtube.com');
+}
+
+/**
+ * YouTube videos among the general images, shown as the Video Demo section
+ */
+export function getYouTubeVideos(recipe: Recipe | null): { url: string; alt: string }[] {
+  if (!recipe?.generalImages?.length) return [];
+
+  return recipe.generalImages
+    .filter(media => media.type === 'video' && isYouTubeUrl(media.url))
+    .map(media => ({ url: media.url, alt: media.alt }));
+}
+
+/**
+ * General use case text split into one item per non-empty line
+ */
+export function getGeneralUseCaseItems(recipe: Recipe | null): string[] {
+  if (!recipe?.generalUseCase) return [];
+
+  return recipe.generalUseCase
+    .split('\n')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
@@ -0,0 +1,81 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { RecipeGraphComponent } from './recipe-graph.component';
+import { RecipeGraph } from '../../core/graph';
+
+describe('RecipeGraphComponent', () => {
+  let component: RecipeGraphComponent;
+  let fixture: ComponentFixture<RecipeGraphComponent>;
+
+  const graph: RecipeGraph = {
+    nodes: [
+      { id: 'basics', title: 'Basics', category: ['Batch'], level: 0, x: 0, y: 0 },
+      { id: 'advanced', title: 'Advanced', category: ['Batch'], level: 1, x: 300, y: 0 },
+      { id: 'sibling', title: 'Sibling', category: ['Batch'], level: 1, x: 300, y: 72 }
+    ],
+    edges: [
+      { from: 'basics', to: 'advanced', kind: 'prerequisite' },
+      { from: 'advanced', to: 'sibling', kind: 'related' },
+      { from: 'basics', to: 'missing', kind: 'related' }
+    ],
+    width: 520,
+    height: 128
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      declarations: [ RecipeGraphComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(RecipeGraphComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the empty message without a graph', () => {
+    expect(fixture.nativeElement.querySelector('.graph-empty')).not.toBeNull();
+    expect(fixture.nativeElement.querySelector('svg')).toBeNull();
+  });
+
+  it('should draw a node per recipe and skip edges to unknown nodes', () => {
+    fixture.componentRef.setInput('graph', graph);
+    fixture.detectChanges();
+
+    const edges = fixture.nativeElement.querySelectorAll('.graph-edge') as NodeListOf<SVGPathElement>;
+
+    expect(fixture.nativeElement.querySelectorAll('.graph-node').length).toBe(3);
+    expect(edges.length).toBe(2);
+    expect(edges[0].getAttribute('marker-end')).toBe('url(#recipe-graph-arrow)');
+    expect(edges[1].classList).toContain('related');
+    expect(component.viewBox).toBe('-24 -24 568 176');
+  });
+
+  it('should highlight the edges of the hovered node', () => {
+    fixture.componentRef.setInput('graph', graph);
+    fixture.detectChanges();
+
+    const sibling = fixture.nativeElement.querySelectorAll('.graph-node')[2] as SVGGElement;
+    sibling.dispatchEvent(new MouseEvent('mouseenter'));
+    fixture.detectChanges();
+
+    const highlighted = fixture.nativeElement.querySelectorAll('.graph-edge.highlighted');
+    expect(highlighted.length).toBe(1);
+    expect(highlighted[0].classList).toContain('related');
+  });
+
+  it('should emit the recipe of the clicked node', () => {
+    const selected: string[] = [];
+    component.recipeSelect.subscribe(recipeId => selected.push(recipeId));
+    fixture.componentRef.setInput('graph', graph);
+    fixture.detectChanges();
+
+    fixture.nativeElement.querySelectorAll('.graph-node')[1].dispatchEvent(new MouseEvent('click'));
+
+    expect(selected).toEqual(['advanced']);
+  });
+});
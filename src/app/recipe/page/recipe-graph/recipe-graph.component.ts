@@ -0,0 +1,89 @@
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
+import {
+  DEFAULT_GRAPH_LAYOUT,
+  RecipeGraph,
+  RecipeGraphEdge,
+  RecipeGraphNode
+} from '../../core/graph';
+
+interface EdgePath {
+  edge: RecipeGraphEdge;
+  d: string;
+}
+
+const GRAPH_PADDING = 24;
+const CURVE_OFFSET = 48;
+
+@Component({
+  selector: 'app-recipe-graph',
+  templateUrl: './recipe-graph.component.html',
+  styleUrls: ['./recipe-graph.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RecipeGraphComponent {
+  @Input() set graph(graph: RecipeGraph | null) {
+    this.currentGraph = graph;
+    this.edgePaths = graph ? this.buildEdgePaths(graph) : [];
+  }
+  @Output() recipeSelect = new EventEmitter<string>();
+
+  readonly layout = DEFAULT_GRAPH_LAYOUT;
+  readonly padding = GRAPH_PADDING;
+
+  currentGraph: RecipeGraph | null = null;
+  edgePaths: EdgePath[] = [];
+  hoveredNodeId: string | null = null;
+
+  get viewBox(): string {
+    const graph = this.currentGraph;
+    if (!graph) return '0 0 0 0';
+    return `${-GRAPH_PADDING} ${-GRAPH_PADDING} ${graph.width + GRAPH_PADDING * 2} ${graph.height + GRAPH_PADDING * 2}`;
+  }
+
+  onNodeClick(node: RecipeGraphNode): void {
+    this.recipeSelect.emit(node.id);
+  }
+
+  isEdgeHighlighted(edge: RecipeGraphEdge): boolean {
+    return !!this.hoveredNodeId && (edge.from === this.hoveredNodeId || edge.to === this.hoveredNodeId);
+  }
+
+  trackByNodeId(_: number, node: RecipeGraphNode): string {
+    return node.id;
+  }
+
+  trackByEdge(_: number, path: EdgePath): string {
+    return `${path.edge.kind}:${path.edge.from}:${path.edge.to}`;
+  }
+
+  private buildEdgePaths(graph: RecipeGraph): EdgePath[] {
+    const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+    const { nodeWidth, nodeHeight } = this.layout;
+
+    return graph.edges
+      .filter(edge => nodesById.has(edge.from) && nodesById.has(edge.to))
+      .map(edge => {
+        const from = nodesById.get(edge.from)!;
+        const to = nodesById.get(edge.to)!;
+        const fromY = from.y + nodeHeight / 2;
+        const toY = to.y + nodeHeight / 2;
+
+        // Nodes in the same column connect through a loop on their right side
+        if (from.level === to.level) {
+          const x = from.x + nodeWidth;
+          return { edge, d: `M ${x} ${fromY} C ${x + CURVE_OFFSET} ${fromY}, ${x + CURVE_OFFSET} ${toY}, ${x} ${toY}` };
+        }
+
+        const [left, right] = from.level < to.level ? [from, to] : [to, from];
+        const startX = left.x + nodeWidth;
+        const startY = left.y + nodeHeight / 2;
+        const endX = right.x;
+        const endY = right.y + nodeHeight / 2;
+
+        return {
+          edge,
+          d: `M ${startX} ${startY} C ${startX + CURVE_OFFSET} ${startY}, ${endX - CURVE_OFFSET} ${endY}, ${endX} ${endY}`
+        };
+      });
+  }
+}
@@ -1,14 +1,19 @@
-import { Injectable } from '@angular/core';
+import { Injectable, NgZone } from '@angular/core';
 import { Subject, Observable } from 'rxjs';
 import { PreviewService } from '../../core/services/preview.service';
 import { LoggerService } from '../../core/services/logger.service';
 import { Recipe, RecipePreviewData, normalizeCategory } from '../../core/models/recipe.model';
-
-export interface PreviewUpdateEvent {
-  type: 'content-updated';
-  recipe: Recipe;
-  previewData: RecipePreviewData;
-}
+import {
+  PREVIEW_CHANNEL_NAME,
+  PreviewMessage,
+  applyPatch,
+  isBroadcastChannelSupported,
+  isPreviewMessage
+} from '../../core/preview';
+
+export type PreviewUpdateEvent =
+  | { type: 'content-updated'; recipe: Recipe; previewData: RecipePreviewData }
+  | { type: 'step-focused'; stepIndex: number };
 
 @Injectable({
   providedIn: 'root'
@@ -16,14 +21,18 @@ export interface PreviewUpdateEvent {
 export class PreviewSyncService {
 
   private updateEvent$ = new Subject<PreviewUpdateEvent>();
+  private channel?: BroadcastChannel;
   private storageEventListener?: (event: StorageEvent) => void;
   private updateInterval?: number;
   private currentRecipeId?: string;
   private currentTimestamp: number = 0;
+  private currentRevision = 0;
+  private currentData?: RecipePreviewData;
 
   constructor(
     private previewService: PreviewService,
-    private logger: LoggerService
+    private logger: LoggerService,
+    private ngZone: NgZone
   ) {}
 
   getUpdateEvents(): Observable<PreviewUpdateEvent> {
@@ -35,11 +44,67 @@ export class PreviewSyncService {
 
     this.currentRecipeId = recipeId;
 
+    if (isBroadcastChannelSupported()) {
+      this.setupChannel(recipeId);
+      return;
+    }
+
+    // Fallback for browsers without BroadcastChannel
     this.setupStorageListener(recipeId);
 
     this.setupPeriodicPolling(recipeId);
   }
 
+  isLiveSyncAvailable(): boolean {
+    return isBroadcastChannelSupported();
+  }
+
+  private setupChannel(recipeId: string): void {
+    this.channel = new BroadcastChannel(PREVIEW_CHANNEL_NAME);
+    this.channel.onmessage = event => {
+      if (isPreviewMessage(event.data) && event.data.recipeId === recipeId) {
+        const message = event.data;
+        this.ngZone.run(() => this.handleChannelMessage(message));
+      }
+    };
+
+    // The stored copy may be stale (or missing); the editor answers with its latest revision
+    this.post({ kind: 'request-snapshot', recipeId });
+  }
+
+  private handleChannelMessage(message: PreviewMessage): void {
+    switch (message.kind) {
+      case 'snapshot':
+        this.applyRevision(message.revision, message.data);
+        break;
+      case 'patch':
+        if (!this.currentData || message.baseRevision !== this.currentRevision) {
+          this.post({ kind: 'request-snapshot', recipeId: message.recipeId });
+          return;
+        }
+        this.applyRevision(message.revision, applyPatch(this.currentData, message.operations));
+        break;
+      case 'focus-step':
+        this.updateEvent$.next({ type: 'step-focused', stepIndex: message.stepIndex });
+        break;
+    }
+  }
+
+  private applyRevision(revision: number, previewData: RecipePreviewData): void {
+    this.currentRevision = revision;
+    this.currentData = previewData;
+    this.handlePreviewUpdate(previewData);
+    this.post({ kind: 'ack', recipeId: previewData.recipeId, revision });
+  }
+
+  private post(message: PreviewMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      this.logger.error('Error sending recipe preview message', error);
+    }
+  }
+
   private setupStorageListener(recipeId: string): void {
     if (typeof window === 'undefined') return;
 
@@ -123,6 +188,11 @@ export class PreviewSyncService {
   }
 
   cleanup(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = undefined;
+    }
+
     if (this.storageEventListener && typeof window !== 'undefined') {
       window.removeEventListener('storage', this.storageEventListener);
       this.storageEventListener = undefined;
@@ -135,5 +205,7 @@ export class PreviewSyncService {
 
     this.currentRecipeId = undefined;
     this.currentTimestamp = 0;
+    this.currentRevision = 0;
+    this.currentData = undefined;
   }
 }
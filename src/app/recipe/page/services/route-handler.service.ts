@@ -1,8 +1,8 @@
 import { Injectable, OnDestroy } from '@angular/core';
 import { Router, ParamMap } from '@angular/router';
 import { Observable, Subject, ReplaySubject } from 'rxjs';
-import { takeUntil, map } from 'rxjs/operators';
-import { Recipe, Tab } from '../../core/models/recipe.model';
+import { takeUntil, map, first, timeout } from 'rxjs/operators';
+import { Recipe, RecipePreviewData, Tab } from '../../core/models/recipe.model';
 import { CacheService } from '../../core/services/cache.service';
 import { SearchService } from '../../core/services/search.service';
 import { Store } from '../../core/store/recipe.store';
@@ -30,6 +30,7 @@ export class RouteHandlerService implements OnDestroy {
   private destroy$ = new Subject<void>();
   private dataLoaded$ = new ReplaySubject<RecipeLoadResult>(1);
   private cachedTotalCount: number = 0;
+  private readonly PREVIEW_SNAPSHOT_TIMEOUT = 3000;
 
   constructor(
     private router: Router,
@@ -166,37 +167,42 @@ export class RouteHandlerService implements OnDestroy {
 
     const previewData = this.previewService.getPreviewData(recipeId);
 
+    if (previewData || !this.previewSyncService.isLiveSyncAvailable()) {
+      this.showPreviewRecipe(previewData);
+      return;
+    }
+
+    // Nothing stored for this tab: wait for the editor to answer over the preview channel
+    this.previewSyncService.getUpdateEvents().pipe(
+      first(event => event.type === 'content-updated'),
+      timeout(this.PREVIEW_SNAPSHOT_TIMEOUT),
+      takeUntil(this.destroy$)
+    ).subscribe({
+      next: event => this.showPreviewRecipe(event.type === 'content-updated' ? event.previewData : null),
+      error: () => this.showPreviewRecipe(null)
+    });
+  }
+
+  private showPreviewRecipe(previewData: RecipePreviewData | null): void {
+    this.store.setLoadingOverlay(false);
+
     if (previewData) {
       const currentRecipe = this.previewSyncService.convertPreviewToRecipeItem(previewData);
-      this.store.setLoadingOverlay(false);
-
-      if (currentRecipe) {
-        this.recipeTocService.setCurrentRecipe(currentRecipe);
-        const recipeTabs = this.recipeTocService.generateRecipeTabs();
-        this.store.updateUIState({ userHasScrolled: false });
+      this.recipeTocService.setCurrentRecipe(currentRecipe);
+      const recipeTabs = this.recipeTocService.generateRecipeTabs();
+      this.store.updateUIState({ userHasScrolled: false });
 
-        this.previewSyncService.setCurrentTimestamp(previewData.timestamp);
+      this.previewSyncService.setCurrentTimestamp(previewData.timestamp);
 
-        this.dataLoaded$.next({
-          currentRecipe: currentRecipe,
-          recipeTabs: recipeTabs,
-          recipes: [],
-          filteredRecipes: [],
-          needsObserverSetup: true,
-          totalRecipeCount: this.cachedTotalCount
-        });
-      } else {
-        this.dataLoaded$.next({
-          currentRecipe: null,
-          recipeTabs: [],
-          recipes: [],
-          filteredRecipes: [],
-          needsObserverSetup: false,
-          totalRecipeCount: this.cachedTotalCount
-        });
-      }
+      this.dataLoaded$.next({
+        currentRecipe: currentRecipe,
+        recipeTabs: recipeTabs,
+        recipes: [],
+        filteredRecipes: [],
+        needsObserverSetup: true,
+        totalRecipeCount: this.cachedTotalCount
+      });
     } else {
-      this.store.setLoadingOverlay(false);
       this.dataLoaded$.next({
         currentRecipe: null,
         recipeTabs: [],
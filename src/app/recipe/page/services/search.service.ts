@@ -1,12 +1,10 @@
 import { Injectable, OnDestroy } from '@angular/core';
-import { Router } from '@angular/router';
-import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { Observable, Subject } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { Recipe, Filter, SearchState } from '../../core/models/recipe.model';
 import { SearchService as CoreSearchService } from '../../core/services/search.service';
 import { Store } from '../../core/store/recipe.store';
 import { LoggerService } from '../../core/services/logger.service';
-import { SelectedSuggestion } from '../search-overlay/search-overlay.component';
 
 export interface SearchResultEvent {
   query: string;
@@ -21,14 +19,11 @@ export class SearchStateService implements OnDestroy {
 
   private destroy$ = new Subject<void>();
 
-  private searchOverlayInitialQuery$ = new BehaviorSubject<string>('');
-
   private searchResult$ = new Subject<SearchResultEvent>();
 
   constructor(
     private coreSearchService: CoreSearchService,
     private store: Store,
-    private router: Router,
     private logger: LoggerService
   ) {}
 
@@ -46,16 +41,11 @@ export class SearchStateService implements OnDestroy {
           const { relevanceScore, ...recipeItem } = r;
           return recipeItem as Recipe;
         }),
-        hasResults: data.searchHasResults,
-        isOverlayOpen: data.searchOverlayOpen
+        hasResults: data.searchHasResults
       }))
     );
   }
 
-  getSearchOverlayInitialQuery(): Observable<string> {
-    return this.searchOverlayInitialQuery$.asObservable();
-  }
-
   getSearchResultEvents(): Observable<SearchResultEvent> {
     return this.searchResult$.asObservable();
   }
@@ -120,27 +110,4 @@ export class SearchStateService implements OnDestroy {
     });
   }
 
-  openSearchOverlay(initialQuery = ''): void {
-    this.searchOverlayInitialQuery$.next(initialQuery);
-    this.store.openSearchOverlay();
-  }
-
-  closeSearchOverlay(): void {
-    this.store.closeSearchOverlay();
-  }
-
-  handleSearchOverlaySelect(selectedRecipe: SelectedSuggestion): void {
-    this.router.navigate(['/recipes', selectedRecipe.category, selectedRecipe.slug]);
-
-    this.closeSearchOverlay();
-  }
-
-  isInputFocused(): boolean {
-    const activeElement = document.activeElement;
-    return !!(activeElement instanceof HTMLInputElement ||
-           activeElement instanceof HTMLTextAreaElement ||
-           (activeElement && activeElement.tagName === 'INPUT') ||
-           (activeElement && activeElement.tagName === 'TEXTAREA'));
-  }
-
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Recipe } from '../core/models/recipe.model';
+
+/**
+ * A minimal valid recipe for specs. Recipe is also assignable to RecipeData,
+ * so the same builder serves specs of storage-form code.
+ */
+export function createRecipe(overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    id: 'test-recipe',
+    title: 'Test Recipe',
+    category: ['Batch'],
+    DSPVersions: [],
+    overview: 'Overview',
+    generalImages: [],
+    prerequisites: [],
+    pipeline: '',
+    direction: '',
+    connection: '',
+    walkthrough: [],
+    verificationGIF: [],
+    downloadableExecutables: [],
+    relatedRecipes: [],
+    keywords: [],
+    ...overrides
+  };
+}
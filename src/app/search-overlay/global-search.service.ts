@@ -0,0 +1,223 @@
+import { Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable, combineLatest, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import navRaw from '../../assets/data/designer-sidebar.json';
+import { FAQService } from '../shared/services/faq.service';
+import { FAQSearchResult } from '../shared/models/faq.model';
+import { generateSlug } from '../shared/utils/slug.utils';
+import { findMatchRanges, fuzzyMatch, highlightMatches, highlightSnippet } from '../shared/utils/fuzzy-search.util';
+import { CacheService } from '../recipe/core/services/cache.service';
+import { SearchService as RecipeSearchService } from '../recipe/core/services/search.service';
+import { SearchResult as RecipeSearchResult } from '../recipe/core/models/recipe.model';
+
+export type GlobalSearchResultType = 'faq' | 'recipe' | 'guide';
+
+export interface GlobalSearchResult {
+  type: GlobalSearchResultType;
+  id: string;
+  title: string;
+  highlightedTitle: string;
+  snippet?: string;
+  tags: string[];
+  url: string;
+  score: number;
+}
+
+export interface GlobalSearchGroup {
+  type: GlobalSearchResultType;
+  label: string;
+  results: GlobalSearchResult[];
+  total: number;
+}
+
+export interface GlobalSearchState {
+  isOpen: boolean;
+  initialQuery: string;
+}
+
+interface GuideTopic {
+  title: string;
+  section: string;
+  subSection?: string;
+  url: string;
+}
+
+export const GLOBAL_SEARCH_GROUP_LABELS: Record<GlobalSearchResultType, string> = {
+  faq: 'FAQs',
+  recipe: 'Recipes',
+  guide: 'Designer Guide'
+};
+
+const GROUP_ORDER: GlobalSearchResultType[] = ['faq', 'recipe', 'guide'];
+const DESIGNER_GUIDE_PATH = 'designer-guide';
+
+/**
+ * Single search provider for the site-wide overlay: queries FAQs, recipes and
+ * designer-guide topics and groups the hits by content type
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GlobalSearchService {
+  private state$ = new BehaviorSubject<GlobalSearchState>({ isOpen: false, initialQuery: '' });
+  private guideTopics?: GuideTopic[];
+
+  constructor(
+    private router: Router,
+    private faqService: FAQService,
+    private cacheService: CacheService,
+    private recipeSearchService: RecipeSearchService
+  ) {}
+
+  getState(): Observable<GlobalSearchState> {
+    return this.state$.asObservable();
+  }
+
+  get isOpen(): boolean {
+    return this.state$.value.isOpen;
+  }
+
+  open(initialQuery = ''): void {
+    this.state$.next({ isOpen: true, initialQuery });
+  }
+
+  close(): void {
+    this.state$.next({ isOpen: false, initialQuery: '' });
+  }
+
+  /**
+   * Search every corpus. The section the user is currently in is listed first;
+   * each group keeps at most maxPerGroup results but reports its full total.
+   */
+  search(query: string, maxPerGroup = 6): Observable<GlobalSearchGroup[]> {
+    if (!query.trim()) {
+      return of([]);
+    }
+
+    return combineLatest([
+      this.faqService.searchFAQs(query, { fuzzySearch: true, includeAnswers: true }),
+      this.cacheService.getRecipes$()
+    ]).pipe(
+      map(([faqs, recipes]) => {
+        const resultsByType: Record<GlobalSearchResultType, GlobalSearchResult[]> = {
+          faq: faqs.map(faq => this.toFAQResult(faq)),
+          recipe: this.recipeSearchService.search(recipes, query).map(recipe => this.toRecipeResult(recipe, query)),
+          guide: this.searchGuideTopics(query)
+        };
+
+        return this.getGroupOrder()
+          .filter(type => resultsByType[type].length > 0)
+          .map(type => ({
+            type,
+            label: GLOBAL_SEARCH_GROUP_LABELS[type],
+            results: resultsByType[type].slice(0, maxPerGroup),
+            total: resultsByType[type].length
+          }));
+      })
+    );
+  }
+
+  private getGroupOrder(): GlobalSearchResultType[] {
+    const url = this.router.url;
+    const current: GlobalSearchResultType = url.startsWith('/recipes')
+      ? 'recipe'
+      : url.startsWith(`/${DESIGNER_GUIDE_PATH}`) ? 'guide' : 'faq';
+
+    return [current, ...GROUP_ORDER.filter(type => type !== current)];
+  }
+
+  private toFAQResult(faq: FAQSearchResult): GlobalSearchResult {
+    // Only show the answer passage when the question itself does not explain the hit
+    const answerOnly = !faq.matchedFields?.includes('question');
+
+    return {
+      type: 'faq',
+      id: faq.id,
+      title: faq.question,
+      highlightedTitle: faq.highlightedQuestion || highlightMatches(faq.question),
+      snippet: answerOnly ? faq.highlightedAnswer : undefined,
+      tags: faq.tags || [],
+      url: `/${faq.answerPath.replace(/\.html$/, '')}`,
+      score: faq.relevanceScore || 0
+    };
+  }
+
+  private toRecipeResult(recipe: RecipeSearchResult, query: string): GlobalSearchResult {
+    const category = recipe.category[0] || '';
+    const overview = recipe.overview || '';
+    const titleRanges = findMatchRanges(query, recipe.title);
+
+    return {
+      type: 'recipe',
+      id: recipe.id,
+      title: recipe.title,
+      highlightedTitle: highlightMatches(recipe.title, titleRanges),
+      snippet: titleRanges.length === 0 && overview
+        ? highlightSnippet(overview, findMatchRanges(query, overview))
+        : undefined,
+      tags: recipe.category,
+      url: `/recipes/${encodeURIComponent(category)}/${recipe.slug || generateSlug(recipe.title)}`,
+      score: recipe.relevanceScore || 0
+    };
+  }
+
+  private searchGuideTopics(query: string): GlobalSearchResult[] {
+    return this.getGuideTopics()
+      .map((topic): GlobalSearchResult | null => {
+        const match = fuzzyMatch(query, [
+          { name: 'title', text: topic.title, weight: 3 },
+          { name: 'subSection', text: topic.subSection || '', weight: 2 },
+          { name: 'section', text: topic.section, weight: 2 }
+        ]);
+
+        return match ? {
+          type: 'guide',
+          id: topic.url,
+          title: topic.title,
+          highlightedTitle: highlightMatches(topic.title, match.ranges['title']),
+          tags: topic.subSection ? [topic.section, topic.subSection] : [topic.section],
+          url: topic.url,
+          score: match.score
+        } : null;
+      })
+      .filter((result): result is GlobalSearchResult => result !== null)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Topics from the designer-guide sidebar, linked the same way the guide builds its routes.
+   * Empty while the guide route is not registered so results never lead to a redirect.
+   */
+  private getGuideTopics(): GuideTopic[] {
+    if (!this.router.config.some(route => route.path === DESIGNER_GUIDE_PATH)) {
+      return [];
+    }
+
+    if (!this.guideTopics) {
+      this.guideTopics = Object.entries(navRaw as Record<string, string[] | Record<string, string[]>>)
+        .flatMap(([section, value]) => {
+          const sectionSlug = generateSlug(section);
+
+          if (Array.isArray(value)) {
+            return value.map(title => ({
+              title,
+              section,
+              url: `/${DESIGNER_GUIDE_PATH}/${sectionSlug}/${generateSlug(title)}`
+            }));
+          }
+
+          return Object.entries(value).flatMap(([subSection, titles]) =>
+            titles.map(title => ({
+              title,
+              section,
+              subSection,
+              url: `/${DESIGNER_GUIDE_PATH}/${sectionSlug}/${generateSlug(subSection)}/${generateSlug(title)}`
+            }))
+          );
+        });
+    }
+
+    return this.guideTopics;
+  }
+}
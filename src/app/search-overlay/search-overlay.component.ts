@@ -1,333 +1,214 @@
 import {
   Component,
-  Output,
-  EventEmitter,
   OnInit,
+  OnDestroy,
   ViewChild,
   ElementRef,
-  Input,
-  OnChanges,
-  SimpleChanges,
   HostListener,
   ChangeDetectorRef,
 } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
 import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { debounceTime, distinctUntilChanged, switchMap, takeUntil } from 'rxjs/operators';
+import {
+  GlobalSearchGroup,
+  GlobalSearchResult,
+  GlobalSearchResultType,
+  GlobalSearchService,
+} from './global-search.service';
 
-interface RawFaq {
-  Id: string;
-  Question__c: string;
-  Answer__c: string;
-  Category__c: string;
-  SubCategory__c: string | null;
-  isActive?: boolean;
-}
-
-interface FaqItem {
-  id: string;
-  question: string;
-  route: string;
-  category: string;
-  subCategory: string | null;
-  tags: string[];
-}
-export interface SelectedSuggestion extends FaqItem {
-  subCatFilterApplied: boolean;
-}
+// Results per type shown when all types are listed together
+const PREVIEW_RESULTS_PER_GROUP = 5;
+const MAX_RESULTS_PER_GROUP = 50;
+const SEARCH_DEBOUNCE = 120;
 
 @Component({
   selector: 'app-search-overlay',
   templateUrl: './search-overlay.component.html',
   styleUrls: ['./search-overlay.component.scss'],
 })
-export class SearchOverlayComponent implements OnInit, OnChanges {
-  @Input() isOpen = false;
-  @Input() initialQuery = ''; 
-  @Output() closed = new EventEmitter<void>();
-  @Output() selectedResult = new EventEmitter<FaqItem>();
-  @ViewChild('searchInput') searchInputRef!: ElementRef<HTMLInputElement>;
+export class SearchOverlayComponent implements OnInit, OnDestroy {
+  @ViewChild('searchInput') searchInputRef?: ElementRef<HTMLInputElement>;
 
+  isOpen = false;
   searchQuery = '';
+  activeType: GlobalSearchResultType | '' = '';
 
-  selectedCategory: string = '';
-  selectedSubCategories: string[] = [];
-
-  categories: string[] = [];
-  subCategories: string[] = [];
-  isLoading = true;
-  loadError = false;
+  groups: GlobalSearchGroup[] = [];
+  visibleGroups: GlobalSearchGroup[] = [];
+  selectedIndex = -1;
 
-  suggestions: FaqItem[] = [];
-  filteredSuggestions: FaqItem[] = [];
-  
-  // Cache for FAQ answer text content
-  private answerTexts: Map<string, string> = new Map();
+  private visibleResults: GlobalSearchResult[] = [];
+  private query$ = new Subject<string>();
+  private destroy$ = new Subject<void>();
 
   constructor(
-    private http: HttpClient, 
     private router: Router,
-    private cdr: ChangeDetectorRef
+    private cdr: ChangeDetectorRef,
+    private globalSearch: GlobalSearchService
   ) {}
 
   ngOnInit() {
-    this.http.get<RawFaq[]>('assets/data/faqs.json').subscribe({
-      next: (data) => {
-        this.suggestions = data
-          .filter(r => r.isActive !== false)  // Filter out inactive FAQs
-          .map((r) => ({
-            id: r.Id,
-            question: r.Question__c,
-            route: r.Answer__c.replace('.html', ''),
-            category: r.Category__c,
-            subCategory: r.SubCategory__c,
-            tags: r.SubCategory__c
-              ? [r.Category__c, r.SubCategory__c]
-              : [r.Category__c],
-          }));
-        this.categories = [...new Set(this.suggestions.map((i) => i.category))];
-        this.filterSubCategoryList();
-        this.filterSuggestions();
-        this.isLoading = false;
-        
-        // Load answer texts asynchronously for search
-        this.loadAnswerTexts();
-        
-        this.cdr.detectChanges();
-      },
-      error: (error) => {
-        console.error('Error loading FAQs:', error);
-        this.loadError = true;
-        this.isLoading = false;
-        this.cdr.detectChanges();
-      }
-    });
-  }
-
-  @HostListener('document:keydown.escape')
-  onEscape() {
-    if (this.isOpen) this.close();
-  }
+    this.globalSearch.getState()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => {
+        const opening = state.isOpen && !this.isOpen;
+        const closing = !state.isOpen && this.isOpen;
+        this.isOpen = state.isOpen;
+
+        if (closing) {
+          document.body.style.overflow = '';
+        }
 
-  onSelectSuggestion(item: FaqItem) {
-    const subCatFilterApplied = this.selectedSubCategories.length > 0;
+        if (opening) {
+          document.body.style.overflow = 'hidden';
+          this.searchQuery = state.initialQuery;
+          this.activeType = '';
+          this.onQueryChange();
 
-    this.selectedResult.emit({
-      ...item,
-      subCatFilterApplied,
-    } as SelectedSuggestion);
+          // Focus once the overlay has rendered
+          setTimeout(() => {
+            this.searchInputRef?.nativeElement?.focus();
 
-    this.close();
-  }
+            if (this.searchQuery) {
+              this.searchInputRef?.nativeElement?.select();
+            }
+          }, 0);
+        }
 
-  selectCategory(cat: string) {
-    this.selectedCategory = this.selectedCategory === cat ? '' : cat;
-    this.filterSubCategoryList();
-    this.filterSuggestions();
+        this.cdr.detectChanges();
+      });
+
+    this.query$
+      .pipe(
+        debounceTime(SEARCH_DEBOUNCE),
+        distinctUntilChanged(),
+        switchMap(query => this.globalSearch.search(query, MAX_RESULTS_PER_GROUP)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(groups => {
+        this.groups = groups;
+        if (this.activeType && !groups.some(group => group.type === this.activeType)) {
+          this.activeType = '';
+        }
+        this.updateVisibleResults();
+        this.cdr.detectChanges();
+      });
   }
 
-  toggleSubCategory(sc: string) {
-    const i = this.selectedSubCategories.indexOf(sc);
-    i >= 0
-      ? this.selectedSubCategories.splice(i, 1)
-      : this.selectedSubCategories.push(sc);
-    this.filterSuggestions();
+  ngOnDestroy() {
+    if (this.isOpen) {
+      document.body.style.overflow = '';
+    }
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
-  filterSubCategoryList() {
-    if (!this.selectedCategory) {
-      this.subCategories = [];
-      this.selectedSubCategories = [];
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    // Ctrl+K or Cmd+K toggles the overlay from anywhere
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.isOpen ? this.close() : this.globalSearch.open();
       return;
     }
-    const subs = this.suggestions
-      .filter((i) => i.category === this.selectedCategory && i.subCategory)
-      .map((i) => i.subCategory!);
-    this.subCategories = [...new Set(subs)];
-    this.selectedSubCategories = this.selectedSubCategories.filter((s) =>
-      this.subCategories.includes(s)
-    );
-  }
 
-  clearFilters() {
-    this.searchQuery = '';
-    this.selectedCategory = '';
-    this.selectedSubCategories = [];
-    this.subCategories = [];
-    this.filterSuggestions();
-  }
-
-  ngOnChanges(changes: SimpleChanges) {
-    if (changes['isOpen']?.currentValue) {
-      
-      if (changes['initialQuery'] || this.initialQuery) {
-        this.searchQuery = this.initialQuery;
-        
-        setTimeout(() => {
-          this.filterSuggestions();
-        }, 0);
+    if (!this.isOpen) {
+      if (event.key === '/' && !this.isTyping()) {
+        event.preventDefault();
+        this.globalSearch.open();
       }
-      
-      // Immediate focus without delay to improve responsiveness
-      setTimeout(() => {
-        this.searchInputRef?.nativeElement?.focus();
-        
-        if (this.searchQuery) {
-          this.searchInputRef?.nativeElement?.select();
-        }
-      }, 0);
+      return;
     }
-    
-    
-    if (changes['initialQuery'] && !changes['isOpen']) {
-      this.searchQuery = this.initialQuery;
-      this.filterSuggestions();
+
+    switch (event.key) {
+      case 'Escape':
+        this.close();
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.moveSelection(1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.moveSelection(-1);
+        break;
+      case 'Enter':
+        if (this.selectedIndex >= 0 && this.selectedIndex < this.visibleResults.length) {
+          event.preventDefault();
+          this.onSelectResult(this.visibleResults[this.selectedIndex]);
+        }
+        break;
     }
   }
 
-  close() {
-    this.closed.emit();
+  onQueryChange() {
+    this.query$.next(this.searchQuery.trim());
   }
 
-  filterSuggestions() {
-    const kw = this.searchQuery.trim().toLowerCase();
-
-    // Filter and add priority information
-    const filteredWithPriority = this.suggestions
-      .filter((i) => {
-        // Search in question
-        const matchQuestion = kw ? i.question.toLowerCase().includes(kw) : true;
+  selectType(type: GlobalSearchResultType | '') {
+    this.activeType = this.activeType === type ? '' : type;
+    this.updateVisibleResults();
+  }
 
-        // Search in answer content
-        const answerText = this.answerTexts.get(i.id) || '';
-        const matchAnswer = kw ? answerText.includes(kw) : false;
+  onSelectResult(result: GlobalSearchResult) {
+    this.close();
+    this.router.navigateByUrl(result.url);
+  }
 
-        // Match keyword in either question or answer
-        const matchKW = !kw || matchQuestion || matchAnswer;
+  isSelected(result: GlobalSearchResult): boolean {
+    return this.visibleResults[this.selectedIndex] === result;
+  }
 
-        const matchCat =
-          !this.selectedCategory || i.category === this.selectedCategory;
+  highlight(result: GlobalSearchResult) {
+    this.selectedIndex = this.visibleResults.indexOf(result);
+  }
 
-        const matchSub =
-          this.selectedSubCategories.length === 0 ||
-          (i.subCategory && this.selectedSubCategories.includes(i.subCategory));
+  getHiddenCount(group: GlobalSearchGroup): number {
+    return group.total - group.results.length;
+  }
 
-        return matchKW && matchCat && matchSub;
-      })
-      .map((i) => {
-        // Add priority based on match type
-        let priority = 999; // Default lowest priority
+  get totalResults(): number {
+    return this.groups.reduce((sum, group) => sum + group.total, 0);
+  }
 
-        if (kw) {
-          // Category match - priority 1 (highest)
-          if (i.category.toLowerCase().includes(kw)) {
-            priority = 1;
-          }
-          // SubCategory match - priority 2
-          else if (i.subCategory && i.subCategory.toLowerCase().includes(kw)) {
-            priority = 2;
-          }
-          // Question match - priority 3
-          else if (i.question.toLowerCase().includes(kw)) {
-            priority = 3;
-          }
-          // Answer match - priority 4 (lowest)
-          else if (this.answerTexts.get(i.id)?.toLowerCase().includes(kw)) {
-            priority = 4;
-          }
-        }
+  close() {
+    this.globalSearch.close();
+  }
 
-        return { item: i, priority };
-      })
-      .sort((a, b) => {
-        // Sort by priority first
-        if (a.priority !== b.priority) {
-          return a.priority - b.priority;
-        }
+  trackByResult(_: number, result: GlobalSearchResult): string {
+    return `${result.type}:${result.id}`;
+  }
 
-        // Same priority, group by category first
-        if (a.item.category !== b.item.category) {
-          return a.item.category.localeCompare(b.item.category);
-        }
+  private updateVisibleResults(): void {
+    this.visibleGroups = this.groups
+      .filter(group => !this.activeType || group.type === this.activeType)
+      .map(group => ({
+        ...group,
+        results: this.activeType ? group.results : group.results.slice(0, PREVIEW_RESULTS_PER_GROUP),
+      }));
+    this.visibleResults = this.visibleGroups.flatMap(group => group.results);
+    this.selectedIndex = this.visibleResults.length > 0 ? 0 : -1;
+  }
 
-        // Same category, group by subCategory
-        const aSubCat = a.item.subCategory || '';
-        const bSubCat = b.item.subCategory || '';
-        if (aSubCat !== bSubCat) {
-          return aSubCat.localeCompare(bSubCat);
-        }
+  private moveSelection(step: number): void {
+    if (this.visibleResults.length === 0) return;
 
-        // Finally, sort alphabetically by question within same category/subcategory
-        return a.item.question.localeCompare(b.item.question);
-      })
-      .map(result => result.item); // Return only the FAQ items
+    const count = this.visibleResults.length;
+    this.selectedIndex = (this.selectedIndex + step + count) % count;
 
-    this.filteredSuggestions = filteredWithPriority;
+    setTimeout(() => {
+      document.querySelector('.search-overlay .suggestion-item.active')
+        ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, 0);
   }
 
-  get hasActiveFilters(): boolean {
-    return !!(
-      this.searchQuery.trim() ||
-      this.selectedCategory ||
-      this.selectedSubCategories.length > 0
+  private isTyping(): boolean {
+    const activeElement = document.activeElement;
+    return !!activeElement && (
+      activeElement.tagName === 'INPUT' ||
+      activeElement.tagName === 'TEXTAREA' ||
+      activeElement.getAttribute('contenteditable') === 'true'
     );
   }
-  
-  /**
-   * Load and extract text from all FAQ answer HTML files
-   */
-  private async loadAnswerTexts(): Promise<void> {
-    const loadPromises = this.suggestions.map(async (faq) => {
-      try {
-        const htmlPath = `assets/faq-item/${faq.route}.html`;
-        const response = await fetch(htmlPath);
-        
-        if (response.ok) {
-          const html = await response.text();
-          const cleanText = this.extractTextFromHTML(html);
-          this.answerTexts.set(faq.id, cleanText);
-        }
-      } catch (error) {
-        // Silently handle errors for individual files
-        console.warn(`Failed to load answer for FAQ ${faq.id}:`, error);
-      }
-    });
-    
-    // Load all answers in parallel
-    await Promise.all(loadPromises);
-    
-    // Re-filter suggestions if search query exists
-    if (this.searchQuery.trim()) {
-      this.filterSuggestions();
-      this.cdr.detectChanges();
-    }
-  }
-  
-  /**
-   * Extract clean text from HTML content for searching
-   */
-  private extractTextFromHTML(html: string): string {
-    // Create a temporary DOM element to parse HTML
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
-    
-    // Remove script and style elements
-    const scripts = tempDiv.querySelectorAll('script, style');
-    scripts.forEach(el => el.remove());
-    
-    // Remove img elements as they don't contain searchable text
-    const images = tempDiv.querySelectorAll('img');
-    images.forEach(el => el.remove());
-    
-    // Get text content
-    let text = tempDiv.textContent || tempDiv.innerText || '';
-    
-    // Clean up whitespace
-    text = text
-      .replace(/\s+/g, ' ')  // Replace multiple spaces with single space
-      .replace(/\n{2,}/g, '\n')  // Replace multiple newlines with single newline
-      .trim()
-      .toLowerCase();  // Convert to lowercase for case-insensitive search
-    
-    return text;
-  }
 }
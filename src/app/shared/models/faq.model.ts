@@ -48,6 +48,14 @@ export interface FAQSearchResult extends FAQItem {
   matchedFields?: string[];
 }
 
+/**
+ * Plain answer text keyed by FAQ id, generated at build time from assets/faq-item
+ */
+export interface FAQSearchIndex {
+  version: number;
+  answers: Record<string, string>;
+}
+
 /**
 
  */
@@ -3,6 +3,7 @@ import { HttpClient } from '@angular/common/http';
 import { FAQStorageService, EditedFAQ } from './faq-storage.service';
 import { FAQService } from './faq.service';
 import { FAQItem } from '../models/faq.model';
+import { ResponsiveImageUtil } from '../utils/responsive-image.util';
 import { firstValueFrom } from 'rxjs';
 import JSZip from 'jszip';
 
@@ -808,10 +809,15 @@ Notes:
   }
   
   private removeUnwantedAttributesString(content: string): string {
-    // Remove all attributes from all tags except img src
+    // Remove all attributes from all tags except img src and its responsive variants
     return content.replace(/<(\w+)([^>]*?)>/gi, (match, tagName, attributes) => {
       if (tagName.toLowerCase() === 'img') {
-        // For img tags, only keep src attribute
+        const responsiveSet = ResponsiveImageUtil.fromAttributes(attributes);
+        if (responsiveSet) {
+          return `<${tagName} ${ResponsiveImageUtil.toAttributes(responsiveSet)}>`;
+        }
+
+        // For plain img tags, only keep src attribute
         const srcMatch = attributes.match(/\s+src\s*=\s*["']([^"']*?)["']/i);
         if (srcMatch) {
           return `<${tagName} src="${srcMatch[1]}">`;
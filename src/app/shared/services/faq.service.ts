@@ -1,15 +1,19 @@
 import { Injectable, OnDestroy } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, BehaviorSubject, of, throwError } from 'rxjs';
+import { Observable, BehaviorSubject, combineLatest, of, throwError } from 'rxjs';
 import { map, catchError, shareReplay, tap, finalize } from 'rxjs/operators';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { PerformanceService } from './performance.service';
 import { AutoLinkService } from './auto-link.service';
 import { getFAQUrlByKey } from '../config/faq-urls.config';
+import { SearchField, fuzzyMatch, highlightMatches, highlightSnippet } from '../utils/fuzzy-search.util';
+import { ResponsiveImageUtil } from '../utils/responsive-image.util';
 
 import {
   SourceFAQRecord,
   FAQItem,
+  FAQSearchResult,
+  FAQSearchIndex,
   FAQCategory,
   FAQSubCategory,
   SearchOptions,
@@ -25,11 +29,13 @@ export class FAQService implements OnDestroy {
   private readonly FAQ_DATA_URL = 'assets/data/faqs.json';
   private readonly FAQ_CONTENT_BASE = 'assets/faq-item/';
   private readonly VERSION_URL = 'assets/data/version.json';
+  private readonly FAQ_SEARCH_INDEX_URL = 'assets/data/faq-search-index.json';
   
   // Cache
   private faqsCache$ = new BehaviorSubject<FAQItem[]>([]);
   private contentCache = new Map<string, SafeHtml>();
   private categoriesCache: FAQCategory[] = [];
+  private answerIndex$?: Observable<Map<string, string>>;
   
   // Local Storage Cache Keys
   private readonly STORAGE_KEY_FAQ_CONTENT = 'faq_content_cache';
@@ -38,6 +44,7 @@ export class FAQService implements OnDestroy {
   private readonly STORAGE_KEY_APP_VERSION = 'app_version_cache';
   private readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
   private readonly VERSION_CHECK_INTERVAL = 4 * 60 * 60 * 1000; // 4 hours in milliseconds
+  private readonly RESPONSIVE_IMAGE_SIZES = '(max-width: 768px) 100vw, 960px'; // sizes hint for answer images
 
   // Loading state
   private isLoading = false;
@@ -363,16 +370,39 @@ export class FAQService implements OnDestroy {
     );
   }
 
-  searchFAQs(query: string, options: SearchOptions = {}): Observable<FAQItem[]> {
+  searchFAQs(query: string, options: SearchOptions = {}): Observable<FAQSearchResult[]> {
     if (!query.trim()) {
       return this.getFAQs();
     }
 
     return this.performanceService.measure('faq-search', () => {
-      return this.getFAQs().pipe(
-        map(faqs => this.filterFAQs(faqs, query, options))
+      if (!options.includeAnswers) {
+        return this.getFAQs().pipe(
+          map(faqs => this.filterFAQs(faqs, query, options))
+        );
+      }
+
+      return combineLatest([this.getFAQs(), this.getAnswerIndex()]).pipe(
+        map(([faqs, answers]) => this.filterFAQs(faqs, query, options, answers))
+      );
+    }) as Observable<FAQSearchResult[]>;
+  }
+
+  /**
+   * Plain answer text for every FAQ keyed by id, loaded once from the build-time search index
+   */
+  getAnswerIndex(): Observable<Map<string, string>> {
+    if (!this.answerIndex$) {
+      this.answerIndex$ = this.http.get<FAQSearchIndex>(this.FAQ_SEARCH_INDEX_URL).pipe(
+        map(index => new Map(Object.entries(index.answers || {}))),
+        catchError(error => {
+          console.error('Failed to load FAQ search index', error);
+          return of(new Map<string, string>());
+        }),
+        shareReplay(1)
       );
-    }) as Observable<FAQItem[]>;
+    }
+    return this.answerIndex$;
   }
 
   getSearchSuggestions(query: string, maxSuggestions = 8): Observable<string[]> {
@@ -402,37 +432,53 @@ export class FAQService implements OnDestroy {
     );
   }
 
-  private filterFAQs(faqs: FAQItem[], query: string, options: SearchOptions): FAQItem[] {
-    const lowerQuery = query.toLowerCase();
-    let filtered = faqs.filter(faq => this.matchesFAQ(faq, lowerQuery, options));
-
-    if (options.category) {
-      filtered = filtered.filter(faq => faq.category === options.category);
-    }
-
-    if (options.subCategory) {
-      filtered = filtered.filter(faq => faq.subCategory === options.subCategory);
-    }
-
-    if (options.maxResults) {
-      filtered = filtered.slice(0, options.maxResults);
-    }
-
-    return filtered;
+  private filterFAQs(
+    faqs: FAQItem[],
+    query: string,
+    options: SearchOptions,
+    answers = new Map<string, string>()
+  ): FAQSearchResult[] {
+    const results = faqs
+      .filter(faq => !options.category || faq.category === options.category)
+      .filter(faq => !options.subCategory || faq.subCategory === options.subCategory)
+      .map(faq => this.matchFAQ(faq, query, options, answers.get(faq.id)))
+      .filter((result): result is FAQSearchResult => result !== null)
+      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+
+    return options.maxResults ? results.slice(0, options.maxResults) : results;
   }
 
-  private matchesFAQ(faq: FAQItem, lowerQuery: string, options: SearchOptions): boolean {
-    const questionMatch = faq.question.toLowerCase().includes(lowerQuery);
-    const categoryMatch = faq.category.toLowerCase().includes(lowerQuery);
-    const subCategoryMatch = faq.subCategory?.toLowerCase().includes(lowerQuery);
-    const tagsMatch = faq.tags?.some(tag => tag.toLowerCase().includes(lowerQuery));
-    
-    let answerMatch = false;
-    if (options.includeAnswers && faq.answer) {
-      answerMatch = faq.answer.toLowerCase().includes(lowerQuery);
+  private matchFAQ(
+    faq: FAQItem,
+    query: string,
+    options: SearchOptions,
+    indexedAnswer?: string
+  ): FAQSearchResult | null {
+    // Prefer the build-time index; fall back to answer HTML already loaded on the item
+    const answerText = !options.includeAnswers
+      ? ''
+      : indexedAnswer || faq.answer.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+    const fields: SearchField[] = [
+      { name: 'question', text: faq.question, weight: 3 },
+      { name: 'category', text: faq.category, weight: 2 },
+      { name: 'subCategory', text: faq.subCategory || '', weight: 2 },
+      { name: 'tags', text: (faq.tags || []).join(' '), weight: 1.5 },
+      { name: 'answer', text: answerText, weight: 1 }
+    ];
+
+    const match = fuzzyMatch(query, fields, options.fuzzySearch === true);
+    if (!match) {
+      return null;
     }
 
-    return questionMatch || categoryMatch || subCategoryMatch || tagsMatch || answerMatch;
+    return {
+      ...faq,
+      relevanceScore: match.score,
+      highlightedQuestion: highlightMatches(faq.question, match.ranges['question']),
+      highlightedAnswer: answerText ? highlightSnippet(answerText, match.ranges['answer']) : undefined,
+      matchedFields: match.matchedFields
+    };
   }
 
   /**
@@ -774,67 +820,65 @@ export class FAQService implements OnDestroy {
   }
 
   /**
-   * Check if browser supports WebP format
-   */
-  private supportsWebP(): boolean {
-    const canvas = document.createElement('canvas');
-    canvas.width = 1;
-    canvas.height = 1;
-    return canvas.toDataURL('image/webp').indexOf('data:image/webp') === 0;
-  }
-
-  /**
-   * Convert image source to WebP if supported and available
+   * Normalize an image URL from answer HTML to one the app can load
    */
-  private getOptimizedImageSrc(originalSrc: string): string {
-    if (!this.supportsWebP()) {
-      return originalSrc;
+  private normalizeImageSrc(src: string): string {
+    // External URLs, absolute paths and assets/ paths are used as is
+    if (src.startsWith('http') || src.startsWith('//') || src.startsWith('/') || src.startsWith('assets/')) {
+      return src;
     }
 
-    // Convert common image extensions to WebP variants
-    const webpSrc = originalSrc
-      .replace(/\.(jpg|jpeg|png)$/i, '.webp')
-      .replace(/\.(jpg|jpeg|png)\?/i, '.webp?');
-
-    return webpSrc;
+    // Relative path - ensure it starts with assets/
+    return `assets/${src}`;
   }
 
   /**
-   * Create responsive image with proper error handling
+   * Create responsive image with proper error handling. Images uploaded through the
+   * FAQ editor carry srcset and data-webp-srcset, and are served as a <picture>
+   * with real WebP and PNG variants.
    */
   private createResponsiveImage(src: string, attrs: string): string {
     // Extract alt text
     const altMatch = attrs.match(/alt="([^"]*)"/);
     const alt = altMatch ? altMatch[1] : 'FAQ Image';
-    
-    // Normalize the image source URL
-    let normalizedSrc = src;
-    
-    // Handle different URL patterns
-    if (src.startsWith('http') || src.startsWith('//')) {
-      // External URL - use as is
-      normalizedSrc = src;
-    } else if (src.startsWith('/')) {
-      // Absolute path - use as is
-      normalizedSrc = src;
-    } else if (src.startsWith('assets/')) {
-      // Already correctly formatted - ensure proper path
-      normalizedSrc = src;
-    } else {
-      // Relative path - ensure it starts with assets/
-      normalizedSrc = `assets/${src}`;
+
+    const normalizedSrc = this.normalizeImageSrc(src);
+    const responsiveSet = ResponsiveImageUtil.fromAttributes(attrs);
+
+    const imageAttributes = [
+      `src="${normalizedSrc}"`,
+      `alt="${alt}"`,
+      'class="faq-image"',
+      'style="display: block; margin: 20px auto; max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1); transition: transform 0.3s ease;"',
+      'loading="lazy"',
+      'onload="var picture=this.closest(\'.faq-picture\');if(picture){picture.classList.add(\'image-loaded\')}"'
+    ];
+
+    if (!responsiveSet) {
+      return `<div class="faq-picture">
+      <img ${imageAttributes.join(' ')}>
+    </div>`;
+    }
+
+    const normalize = (url: string) => this.normalizeImageSrc(url);
+    const sizes = `sizes="${this.RESPONSIVE_IMAGE_SIZES}"`;
+    const webpSource = responsiveSet.webpSrcset
+      ? `<source type="image/webp" srcset="${ResponsiveImageUtil.mapSrcset(responsiveSet.webpSrcset, normalize)}" ${sizes}>`
+      : '';
+
+    imageAttributes.push(
+      `srcset="${ResponsiveImageUtil.mapSrcset(responsiveSet.srcset, normalize)}"`,
+      sizes
+    );
+    if (responsiveSet.width && responsiveSet.height) {
+      imageAttributes.push(`width="${responsiveSet.width}"`, `height="${responsiveSet.height}"`);
     }
 
-    // Create container with comprehensive error handling
     return `<div class="faq-picture">
-      <img 
-        src="${normalizedSrc}" 
-        alt="${alt}"
-        class="faq-image"
-        style="display: block; margin: 20px auto; max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1); transition: transform 0.3s ease;"
-        loading="lazy"
-        onload="if(this.parentElement){this.parentElement.classList.add('image-loaded')}"
-            >
+      <picture>
+        ${webpSource}
+        <img ${imageAttributes.join(' ')}>
+      </picture>
     </div>`;
   }
 
@@ -992,6 +1036,7 @@ export class FAQService implements OnDestroy {
       // Clear memory caches
       this.contentCache.clear();
       this.categoriesCache = [];
+      this.answerIndex$ = undefined;
       
       // Note: IndexedDB (FAQEditorDB, RecipeEditorDB) is automatically preserved
       
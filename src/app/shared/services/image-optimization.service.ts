@@ -0,0 +1,224 @@
+import { Injectable } from '@angular/core';
+import { ResponsiveImageSet, ResponsiveImageUtil } from '../utils/responsive-image.util';
+
+export interface ImageOptimizationOptions {
+  maxWidth?: number;
+  responsiveWidths?: number[];  // Smaller widths to render as well; ignored when not below the full width
+  quality?: number;             // WebP quality, 0-1
+}
+
+/**
+ * One size of an optimized image
+ */
+export interface ImageRendition {
+  width: number;
+  height: number;
+  webp: Blob | null;  // null when the browser cannot encode WebP
+  png: Blob;
+}
+
+export interface OptimizedImage {
+  full: ImageRendition;
+  variants: ImageRendition[];  // Responsive sizes, smallest first
+  resized: boolean;            // Whether the full rendition is narrower than the upload
+}
+
+/**
+ * Where optimizeFile reports failures; LoggerService and console both fit
+ */
+export interface ImageOptimizationLogger {
+  error(message: string, error?: unknown): void;
+}
+
+export interface ResponsiveImageFiles {
+  set: ResponsiveImageSet;
+  files: Map<string, File>;  // Every file of the set by path, the full-size PNG included
+}
+
+/**
+ * Image Optimization Service
+ *
+ * Resizes uploads to a maximum width and re-encodes them with canvas: WebP
+ * where the browser can encode it, with PNG as the fallback. GIFs (which may
+ * be animated) and SVGs are left untouched.
+ *
+ * Recipe media goes through optimizeFile and is stored as one file, with no
+ * PNG kept beside a WebP. Only FAQ images use createResponsiveSet, which keeps
+ * a PNG of every size for browsers that cannot display WebP.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageOptimizationService {
+  private readonly DEFAULT_MAX_WIDTH = 1600;
+  private readonly DEFAULT_RESPONSIVE_WIDTHS = [480, 960];
+  private readonly DEFAULT_QUALITY = 0.85;
+  private readonly OPTIMIZABLE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+  canOptimize(file: File): boolean {
+    return this.OPTIMIZABLE_TYPES.includes(file.type);
+  }
+
+  async optimize(file: File, options: ImageOptimizationOptions = {}): Promise<OptimizedImage> {
+    const maxWidth = options.maxWidth || this.DEFAULT_MAX_WIDTH;
+    const quality = options.quality ?? this.DEFAULT_QUALITY;
+    const source = await this.decode(file);
+
+    try {
+      const fullWidth = Math.min(source.width, maxWidth);
+      const full = await this.render(source, fullWidth, quality);
+
+      const variantWidths = [...new Set(options.responsiveWidths || [])]
+        .filter(width => width > 0 && width < fullWidth)
+        .sort((a, b) => a - b);
+
+      const variants: ImageRendition[] = [];
+      for (const width of variantWidths) {
+        variants.push(await this.render(source, width, quality));
+      }
+
+      return { full, variants, resized: fullWidth < source.width };
+    } finally {
+      if ('close' in source) {
+        source.close();
+      }
+    }
+  }
+
+  /**
+   * Optimize an upload into a single file: WebP, or PNG when the browser cannot encode WebP.
+   * The upload is kept when it cannot be optimized or re-encoding would not make it smaller.
+   */
+  async optimizeFile(
+    file: File,
+    options: ImageOptimizationOptions = {},
+    logger: ImageOptimizationLogger = console
+  ): Promise<File> {
+    if (!this.canOptimize(file)) return file;
+
+    try {
+      const optimized = await this.optimize(file, { ...options, responsiveWidths: [] });
+      const blob = optimized.full.webp || optimized.full.png;
+
+      if (!optimized.resized && blob.size >= file.size) {
+        return file;
+      }
+
+      return this.toFile(blob, this.renameFile(file.name, this.getExtension(blob)));
+    } catch (error) {
+      logger.error('Image optimization failed, keeping the original upload', error);
+      return file;
+    }
+  }
+
+  /**
+   * Optimize an upload into a responsive set stored next to basePath: a full-size
+   * PNG at basePath, a WebP beside it and both formats for each responsive width.
+   * Returns null when the file cannot be optimized.
+   */
+  async createResponsiveSet(
+    file: File,
+    basePath: string,
+    options: ImageOptimizationOptions = {}
+  ): Promise<ResponsiveImageFiles | null> {
+    if (!this.canOptimize(file)) return null;
+
+    const optimized = await this.optimize(file, {
+      ...options,
+      responsiveWidths: options.responsiveWidths || this.DEFAULT_RESPONSIVE_WIDTHS
+    });
+
+    const files = new Map<string, File>();
+    const pngCandidates: { path: string; width: number }[] = [];
+    const webpCandidates: { path: string; width: number }[] = [];
+    const renditions = [...optimized.variants, optimized.full];
+
+    renditions.forEach(rendition => {
+      const variantWidth = rendition === optimized.full ? null : rendition.width;
+
+      const pngPath = ResponsiveImageUtil.getVariantPath(basePath, variantWidth, 'png');
+      files.set(pngPath, this.toFile(rendition.png, pngPath.split('/').pop()!));
+      pngCandidates.push({ path: pngPath, width: rendition.width });
+
+      if (rendition.webp) {
+        const webpPath = ResponsiveImageUtil.getVariantPath(basePath, variantWidth, 'webp');
+        files.set(webpPath, this.toFile(rendition.webp, webpPath.split('/').pop()!));
+        webpCandidates.push({ path: webpPath, width: rendition.width });
+      }
+    });
+
+    const src = ResponsiveImageUtil.getVariantPath(basePath, null, 'png');
+    const hasWebp = webpCandidates.length === renditions.length;
+
+    return {
+      set: {
+        src,
+        width: optimized.full.width,
+        height: optimized.full.height,
+        srcset: ResponsiveImageUtil.buildSrcset(pngCandidates),
+        webpSrcset: hasWebp ? ResponsiveImageUtil.buildSrcset(webpCandidates) : undefined
+      },
+      files
+    };
+  }
+
+  private async decode(file: File): Promise<ImageBitmap | HTMLImageElement> {
+    if (typeof createImageBitmap === 'function') {
+      return createImageBitmap(file);
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private async render(source: ImageBitmap | HTMLImageElement, width: number, quality: number): Promise<ImageRendition> {
+    const height = Math.max(1, Math.round(source.height * (width / source.width)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, 0, 0, width, height);
+
+    const png = await this.toBlob(canvas, 'image/png');
+    const webp = await this.toBlob(canvas, 'image/webp', quality);
+
+    // Browsers that cannot encode WebP silently return a PNG instead
+    return { width, height, png, webp: webp.type === 'image/webp' ? webp : null };
+  }
+
+  private toBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error(`Could not encode image as ${type}`)),
+        type,
+        quality
+      );
+    });
+  }
+
+  private toFile(blob: Blob, name: string): File {
+    return new File([blob], name, { type: blob.type, lastModified: Date.now() });
+  }
+
+  private getExtension(blob: Blob): string {
+    return blob.type === 'image/webp' ? 'webp' : 'png';
+  }
+
+  private renameFile(name: string, extension: string): string {
+    return `${name.replace(/\.[^/.]+$/, '') || 'image'}.${extension}`;
+  }
+}
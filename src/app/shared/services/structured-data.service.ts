@@ -0,0 +1,47 @@
+import { Inject, Injectable } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+const SCRIPT_ID_PREFIX = 'structured-data-';
+
+/**
+ * Maintains schema.org JSON-LD blocks in the document head.
+ * Each block is keyed so a page can replace or remove its own markup.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StructuredDataService {
+  constructor(@Inject(DOCUMENT) private document: Document) {}
+
+  /**
+   * Add or replace the JSON-LD block for the given key
+   */
+  set(key: string, data: Record<string, unknown>): void {
+    const id = SCRIPT_ID_PREFIX + key;
+    let script = this.document.getElementById(id) as HTMLScriptElement | null;
+
+    if (!script) {
+      script = this.document.createElement('script');
+      script.id = id;
+      script.type = 'application/ld+json';
+      this.document.head.appendChild(script);
+    }
+
+    // "<" is escaped so answer or step text can never close the script element
+    script.textContent = JSON.stringify(data).replace(/</g, '\\u003c');
+  }
+
+  /**
+   * Remove the JSON-LD block for the given key, if present
+   */
+  remove(key: string): void {
+    this.document.getElementById(SCRIPT_ID_PREFIX + key)?.remove();
+  }
+
+  /**
+   * Resolve a site-relative path to the absolute URL schema.org expects
+   */
+  toAbsoluteUrl(path: string): string {
+    return new URL(path, this.document.baseURI).href;
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  editDistance,
+  findMatchRanges,
+  fuzzyMatch,
+  getQueryTerms,
+  highlightMatches,
+  highlightSnippet
+} from './fuzzy-search.util';
+
+describe('getQueryTerms', () => {
+  it('should drop stop words and duplicates', () => {
+    expect(getQueryTerms('How do I sync the Sync Pipeline?')).toEqual(['sync', 'pipeline']);
+  });
+
+  it('should keep stop words when nothing else is left', () => {
+    expect(getQueryTerms('how to')).toEqual(['how', 'to']);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count substitutions, insertions and deletions', () => {
+    expect(editDistance('pipeline', 'pipeline')).toBe(0);
+    expect(editDistance('pipeline', 'pipline')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+
+  it('should count an adjacent transposition as one edit', () => {
+    expect(editDistance('teh', 'the')).toBe(1);
+  });
+
+  it('should stop once the distance exceeds the maximum', () => {
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('fuzzyMatch', () => {
+  const fields = [
+    { name: 'question', text: 'How do I configure a Data List?', weight: 3 },
+    { name: 'answer', text: 'Open the pipeline settings and add a list.', weight: 1 }
+  ];
+
+  it('should match a misspelled term', () => {
+    const result = fuzzyMatch('configre', fields);
+
+    expect(result).not.toBeNull();
+    expect(result!.matchedFields).toEqual(['question']);
+  });
+
+  it('should not match misspellings when fuzzy matching is off', () => {
+    expect(fuzzyMatch('configre', fields, false)).toBeNull();
+  });
+
+  it('should match a term written as one word against adjacent words', () => {
+    const result = fuzzyMatch('datalist', fields);
+    const start = fields[0].text.indexOf('Data List');
+
+    expect(result).not.toBeNull();
+    expect(result!.ranges['question']).toEqual([jasmine.objectContaining({ start, end: start + 9 })]);
+  });
+
+  it('should require every query term to match', () => {
+    expect(fuzzyMatch('pipeline opportunity', fields)).toBeNull();
+  });
+
+  it('should score higher-weighted fields and exact phrases higher', () => {
+    const questionMatch = fuzzyMatch('configure', fields)!;
+    const answerMatch = fuzzyMatch('settings', fields)!;
+    const phraseMatch = fuzzyMatch('data list', fields)!;
+    const scatteredMatch = fuzzyMatch('list data', fields)!;
+
+    expect(questionMatch.score).toBeGreaterThan(answerMatch.score);
+    expect(phraseMatch.score).toBeGreaterThan(scatteredMatch.score);
+  });
+
+  it('should return null for an empty query', () => {
+    expect(fuzzyMatch('  ', fields)).toBeNull();
+  });
+});
+
+describe('findMatchRanges', () => {
+  it('should return ranges for the terms that match', () => {
+    expect(findMatchRanges('pipeline missing', 'The pipeline runs')).toEqual([
+      jasmine.objectContaining({ start: 4, end: 12 })
+    ]);
+  });
+});
+
+describe('highlightMatches', () => {
+  it('should escape the text and merge overlapping ranges', () => {
+    const html = highlightMatches('<b>Data List</b>', [{ start: 3, end: 7 }, { start: 5, end: 12 }]);
+
+    expect(html).toBe('&lt;b&gt;<mark class="search-highlight">Data List</mark>&lt;/b&gt;');
+  });
+});
+
+describe('highlightSnippet', () => {
+  it('should centre the excerpt on the first match', () => {
+    const text = `${'lead '.repeat(40)}pipeline ${'case '.repeat(40)}`;
+    const start = text.indexOf('pipeline');
+
+    const snippet = highlightSnippet(text, [{ start, end: start + 8 }], 20);
+
+    expect(snippet.startsWith('…')).toBeTrue();
+    expect(snippet.endsWith('…')).toBeTrue();
+    expect(snippet).toContain('<mark class="search-highlight">pipeline</mark>');
+  });
+
+  it('should truncate the start of the text when nothing matched', () => {
+    expect(highlightSnippet('a '.repeat(50), [], 10)).toBe(`${'a '.repeat(10).trim()}…`);
+  });
+});
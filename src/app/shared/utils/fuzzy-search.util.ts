@@ -0,0 +1,289 @@
+/**
+ * Typo-tolerant text matching used by FAQ search
+ */
+
+export interface SearchField {
+  name: string;
+  text: string;
+  weight: number;
+}
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface FuzzyMatchResult {
+  score: number;
+  matchedFields: string[];
+  ranges: Record<string, MatchRange[]>;
+}
+
+interface WordPosition {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface TermMatch extends MatchRange {
+  score: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'can', 'do', 'does', 'for', 'how', 'i', 'in', 'is', 'it',
+  'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where', 'why', 'with'
+]);
+
+const MIN_FUZZY_TERM_LENGTH = 4;
+const MAX_COMPOUND_WORDS = 3;
+const PHRASE_BONUS = 0.5;
+
+/**
+ * Split a query into lowercase search terms, dropping stop words unless nothing else is left
+ */
+export function getQueryTerms(query: string): string[] {
+  const terms = [...new Set(query.toLowerCase().match(/[a-z0-9]+/g) || [])];
+  const meaningful = terms.filter(term => !STOP_WORDS.has(term));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+ * Returns maxDistance + 1 as soon as the distance is known to exceed maxDistance.
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+
+      current[j] = value;
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+
+    if (rowMinimum > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function maxEditsFor(term: string): number {
+  return term.length >= 7 ? 2 : 1;
+}
+
+function splitWords(text: string): WordPosition[] {
+  const words: WordPosition[] = [];
+  const pattern = /[A-Za-z0-9]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    words.push({ word: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+
+  return words;
+}
+
+function scoreWord(term: string, word: string, fuzzy: boolean): number {
+  if (word === term) {
+    return 1;
+  }
+
+  if (word.startsWith(term)) {
+    return 0.7 + 0.2 * (term.length / word.length);
+  }
+
+  if (term.length >= 3 && word.includes(term)) {
+    return 0.6;
+  }
+
+  if (!fuzzy || term.length < MIN_FUZZY_TERM_LENGTH) {
+    return 0;
+  }
+
+  const maxEdits = maxEditsFor(term);
+  const distance = editDistance(term, word, maxEdits);
+  return distance <= maxEdits ? 0.75 * (1 - distance / (term.length + 1)) : 0;
+}
+
+/**
+ * Find every place a term matches in the given words. Besides single words this also
+ * tries runs of adjacent words, so "datalist" matches "Data List".
+ */
+function matchTerm(term: string, words: WordPosition[], fuzzy: boolean): TermMatch[] {
+  const matches: TermMatch[] = [];
+
+  words.forEach((position, index) => {
+    const score = scoreWord(term, position.word, fuzzy);
+    if (score > 0) {
+      matches.push({ start: position.start, end: position.end, score });
+      return;
+    }
+
+    // Compounds have to start with a whole word of the term, which keeps short words
+    // such as "a" from being glued onto a neighbouring match
+    if (position.word.length < 2 || !term.startsWith(position.word)) {
+      return;
+    }
+
+    let compound = position.word;
+    for (let next = index + 1; next < Math.min(words.length, index + MAX_COMPOUND_WORDS); next++) {
+      compound += words[next].word;
+      if (compound.length > term.length + maxEditsFor(term)) break;
+
+      const end = words[next].end;
+      if (compound === term) {
+        matches.push({ start: position.start, end, score: 0.95 });
+        break;
+      }
+      if (fuzzy && term.length >= MIN_FUZZY_TERM_LENGTH) {
+        const distance = editDistance(term, compound, maxEditsFor(term));
+        if (distance <= maxEditsFor(term)) {
+          matches.push({ start: position.start, end, score: 0.7 * (1 - distance / (term.length + 1)) });
+          break;
+        }
+      }
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Score the fields against the query. Every query term has to match somewhere; each term
+ * contributes its best weighted match and a bonus is added when a field contains the
+ * whole query verbatim. Returns null when the fields do not match.
+ */
+export function fuzzyMatch(query: string, fields: SearchField[], fuzzy = true): FuzzyMatchResult | null {
+  const terms = getQueryTerms(query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const fieldWords = fields.map(field => splitWords(field.text));
+  const ranges: Record<string, MatchRange[]> = {};
+  let total = 0;
+
+  for (const term of terms) {
+    let best = 0;
+
+    fields.forEach((field, index) => {
+      const matches = matchTerm(term, fieldWords[index], fuzzy);
+      if (matches.length === 0) return;
+
+      ranges[field.name] = [...(ranges[field.name] || []), ...matches];
+      best = Math.max(best, field.weight * Math.max(...matches.map(match => match.score)));
+    });
+
+    if (best === 0) {
+      return null;
+    }
+    total += best;
+  }
+
+  const phrase = query.trim().toLowerCase();
+  const phraseBonus = Math.max(0, ...fields
+    .filter(field => phrase.length > 0 && field.text.toLowerCase().includes(phrase))
+    .map(field => field.weight * PHRASE_BONUS));
+
+  return {
+    score: Math.round((total / terms.length + phraseBonus) * 1000) / 1000,
+    matchedFields: fields.map(field => field.name).filter(name => ranges[name]),
+    ranges
+  };
+}
+
+/**
+ * Ranges of every query term in the text, without requiring all terms to match
+ */
+export function findMatchRanges(query: string, text: string, fuzzy = true): MatchRange[] {
+  const words = splitWords(text);
+  return getQueryTerms(query).flatMap(term => matchTerm(term, words, fuzzy));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * HTML-escape the text and wrap the matched ranges in <mark> elements
+ */
+export function highlightMatches(text: string, ranges: MatchRange[] = [], className = 'search-highlight'): string {
+  let html = '';
+  let cursor = 0;
+
+  mergeRanges(ranges).forEach(range => {
+    html += escapeHtml(text.slice(cursor, range.start));
+    html += `<mark class="${className}">${escapeHtml(text.slice(range.start, range.end))}</mark>`;
+    cursor = range.end;
+  });
+
+  return html + escapeHtml(text.slice(cursor));
+}
+
+/**
+ * Highlighted excerpt of a long text centred on its first match
+ */
+export function highlightSnippet(text: string, ranges: MatchRange[] = [], radius = 80): string {
+  if (ranges.length === 0) {
+    return escapeHtml(text.length > radius * 2 ? `${text.slice(0, radius * 2).trim()}…` : text);
+  }
+
+  const first = mergeRanges(ranges)[0];
+  let start = Math.max(0, first.start - radius);
+  let end = Math.min(text.length, first.end + radius);
+
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < first.start ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > first.end ? space : end;
+  }
+
+  const visible = ranges
+    .filter(range => range.start >= start && range.end <= end)
+    .map(range => ({ start: range.start - start, end: range.end - start }));
+
+  return `${start > 0 ? '…' : ''}${highlightMatches(text.slice(start, end), visible)}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,74 @@
+/**
+ * A published image with its responsive variants, as written into FAQ answer HTML
+ */
+export interface ResponsiveImageSet {
+  src: string;          // Full-size PNG fallback
+  width: number;
+  height: number;
+  srcset: string;       // PNG candidates, e.g. "a-480w.png 480w, a.png 1600w"
+  webpSrcset?: string;  // WebP candidates; absent when the browser could not encode WebP
+}
+
+/**
+ * Naming and <img> attribute helpers for responsive image sets
+ */
+export class ResponsiveImageUtil {
+  static readonly WEBP_SRCSET_ATTRIBUTE = 'data-webp-srcset';
+
+  /**
+   * Path of a variant next to the full-size image: a.png -> a-480w.webp
+   */
+  static getVariantPath(path: string, width: number | null, extension: string): string {
+    const base = path.replace(/\.[^/.]+$/, '');
+    return width ? `${base}-${width}w.${extension}` : `${base}.${extension}`;
+  }
+
+  static buildSrcset(candidates: { path: string; width: number }[]): string {
+    return candidates.map(candidate => `${candidate.path} ${candidate.width}w`).join(', ');
+  }
+
+  static mapSrcset(srcset: string, mapUrl: (url: string) => string): string {
+    return srcset
+      .split(',')
+      .map(candidate => candidate.trim())
+      .filter(Boolean)
+      .map(candidate => {
+        const [url, ...descriptors] = candidate.split(/\s+/);
+        return [mapUrl(url), ...descriptors].join(' ');
+      })
+      .join(', ');
+  }
+
+  /**
+   * Attributes for an <img> tag, without alt
+   */
+  static toAttributes(set: ResponsiveImageSet): string {
+    const attributes = [
+      `src="${set.src}"`,
+      `srcset="${set.srcset}"`,
+      set.webpSrcset ? `${this.WEBP_SRCSET_ATTRIBUTE}="${set.webpSrcset}"` : '',
+      `width="${set.width}"`,
+      `height="${set.height}"`
+    ];
+    return attributes.filter(Boolean).join(' ');
+  }
+
+  /**
+   * Read a set back from <img> attributes. Returns null for a plain image without srcset.
+   */
+  static fromAttributes(attributes: string): ResponsiveImageSet | null {
+    const read = (name: string) => attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+
+    const src = read('src');
+    const srcset = read('srcset');
+    if (!src || !srcset) return null;
+
+    return {
+      src,
+      srcset,
+      webpSrcset: read(this.WEBP_SRCSET_ATTRIBUTE) || undefined,
+      width: Number(read('width')) || 0,
+      height: Number(read('height')) || 0
+    };
+  }
+}